@@ -0,0 +1,119 @@
+import { LayoutGrid } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { MAX_TILES } from '../core/assembly';
+import type { AssemblyMode, ModelSettings, TileJoint } from '../types';
+
+const modeOptions: [AssemblyMode, string][] = [
+    ['single', 'Single'],
+    ['tiles', 'Tiles'],
+    ['lampbox', 'Lamp Box'],
+];
+
+const jointOptions: [TileJoint, string][] = [
+    ['puzzle', 'Puzzle'],
+    ['pins', 'Pins'],
+    ['none', 'Butt'],
+];
+
+type NumericAssemblyKey = 'tilesX' | 'tilesY' | 'lampSides' | 'ledDiameter';
+
+const AssemblySlider = ({ label, field, min, max, step, unit }: {
+    label: string;
+    field: NumericAssemblyKey;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+}) => {
+    const { modelSettings, updateModelSettings } = useAppStore();
+    return (
+        <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-300">
+                <span>{label}</span>
+                <span>{modelSettings[field]}{unit}</span>
+            </div>
+            <input
+                type="range" min={min} max={max} step={step}
+                value={modelSettings[field]}
+                onChange={(e) => updateModelSettings({ [field]: parseFloat(e.target.value) } as Partial<ModelSettings>)}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+            />
+        </div>
+    );
+};
+
+/**
+ * Splitting the model into tiles for small print beds, or building a lamp
+ * box of side panels on a base.
+ */
+export const AssemblyPanel = () => {
+    const { modelSettings, updateModelSettings } = useAppStore();
+    const { assembly, width, height, frameWidth, tilesX, tilesY, lampSides } = modelSettings;
+    const closedShape = modelSettings.shape === 'cylinder' || modelSettings.shape === 'sphere' || modelSettings.curveAngle >= 360;
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <LayoutGrid className="w-4 h-4" /> Tiles & Lamp Box
+            </h3>
+
+            <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                {modeOptions.map(([mode, label]) => (
+                    <button
+                        key={mode}
+                        onClick={() => updateModelSettings({ assembly: mode })}
+                        className={`flex-1 py-1 text-xs font-bold rounded-md transition-colors ${assembly === mode ? 'bg-secondary text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {assembly !== 'single' && modelSettings.colorMode === 'cmyw' && (
+                <p className="text-[10px] text-yellow-400">Colour layers are built as one part; switch to Mono to split the model</p>
+            )}
+
+            {assembly === 'tiles' && (
+                closedShape ? (
+                    <p className="text-[10px] text-yellow-400">Closed shapes can't be tiled; the model is built in one piece</p>
+                ) : (
+                    <div className="space-y-4 animate-in slide-in-from-top-2 duration-200">
+                        <AssemblySlider label="Tiles Across" field="tilesX" min={1} max={MAX_TILES} step={1} unit="" />
+                        <AssemblySlider label="Tiles Down" field="tilesY" min={1} max={MAX_TILES} step={1} unit="" />
+                        <p className="text-[10px] text-gray-500">
+                            Each tile about {((width + frameWidth * 2) / tilesX).toFixed(0)} x {((height + frameWidth * 2) / tilesY).toFixed(0)} mm
+                        </p>
+
+                        <div className="space-y-1">
+                            <span className="text-xs text-gray-300">Joints</span>
+                            <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                                {jointOptions.map(([joint, label]) => (
+                                    <button
+                                        key={joint}
+                                        onClick={() => updateModelSettings({ tileJoint: joint })}
+                                        className={`flex-1 py-1 text-xs font-bold rounded-md transition-colors ${modelSettings.tileJoint === joint ? 'bg-secondary text-white' : 'text-gray-400 hover:text-white'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {modelSettings.tileJoint === 'pins' && (
+                                <p className="text-[10px] text-gray-500">Pins sit in pockets in the back across each seam; too-thin spots are skipped</p>
+                            )}
+                        </div>
+                    </div>
+                )
+            )}
+
+            {assembly === 'lampbox' && (
+                <div className="space-y-4 animate-in slide-in-from-top-2 duration-200">
+                    <AssemblySlider label="Sides" field="lampSides" min={4} max={8} step={1} unit="" />
+                    <AssemblySlider label="LED Cavity (mm)" field="ledDiameter" min={10} max={80} step={1} unit="" />
+                    <p className="text-[10px] text-gray-500">
+                        The image wraps around {lampSides} panels, {(width / lampSides).toFixed(0)} mm of image each. Width is the full way round.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
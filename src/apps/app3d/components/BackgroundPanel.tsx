@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScanFace } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { subjectSegmenter } from '../core/segmentation';
+import type { BackgroundMode, BackgroundSettings } from '../types';
+
+// Long side of the box editor, in canvas px
+const THUMBNAIL_SIZE = 160;
+
+type Box = BackgroundSettings['subject'];
+
+const modeOptions: [BackgroundMode, string][] = [
+    ['keep', 'Keep'],
+    ['fade', 'Fade'],
+    ['blur', 'Blur'],
+    ['flatten', 'Flatten'],
+];
+
+// [field, label, min, max, step, unit, modes it applies to]
+const backgroundSliders: ['amount' | 'level' | 'blurRadius' | 'feather', string, number, number, number, string, BackgroundMode[]][] = [
+    ['amount', 'Fade Amount', 0, 100, 5, '%', ['fade']],
+    ['blurRadius', 'Blur Radius', 1, 30, 1, 'px', ['blur']],
+    ['level', 'Background Level', 0, 100, 5, '%', ['fade', 'flatten']],
+    ['feather', 'Edge Softness', 0, 20, 1, 'px', ['fade', 'blur', 'flatten']],
+];
+
+/**
+ * Background treatment for portraits: a box drawn around the subject,
+ * the subject found inside it, and the relief around it faded, blurred or
+ * flattened.
+ */
+export const BackgroundPanel = () => {
+    const { originalImage, imageSettings, updateImageSettings } = useAppStore();
+    const { background } = imageSettings;
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [draft, setDraft] = useState<{ start: [number, number]; box: Box } | null>(null);
+    const [labels, setLabels] = useState<Uint8Array | null>(null);
+
+    const setBackground = (change: Partial<BackgroundSettings>) => {
+        updateImageSettings({ background: { ...background, ...change } });
+    };
+
+    const thumbnail = useMemo(() => {
+        if (!originalImage) return null;
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(originalImage.width, originalImage.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(originalImage.width * scale));
+        canvas.height = Math.max(1, Math.round(originalImage.height * scale));
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+        ctx.drawImage(originalImage, 0, 0, canvas.width, canvas.height);
+        return ctx.getImageData(0, 0, canvas.width, canvas.height);
+    }, [originalImage]);
+
+    // Same segmentation as the pipeline, on the thumbnail
+    useEffect(() => {
+        setLabels(null);
+        if (!thumbnail || background.mode === 'keep') return;
+        const timeout = setTimeout(() => setLabels(subjectSegmenter.segment(thumbnail, background.subject, background.faceHint)), 150);
+        return () => clearTimeout(timeout);
+    }, [thumbnail, background.mode, background.subject, background.faceHint]);
+
+    // Background dimmed, box outlined
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !thumbnail) return;
+        canvas.width = thumbnail.width;
+        canvas.height = thumbnail.height;
+        const ctx = canvas.getContext('2d')!;
+
+        const shown = new ImageData(thumbnail.data.slice(), thumbnail.width, thumbnail.height);
+        if (labels) {
+            for (let i = 0; i < labels.length; i++) {
+                if (labels[i]) continue;
+                shown.data[i * 4] *= 0.3;
+                shown.data[i * 4 + 1] *= 0.3;
+                shown.data[i * 4 + 2] *= 0.3;
+            }
+        }
+        ctx.putImageData(shown, 0, 0);
+
+        const [left, top, right, bottom] = draft?.box ?? background.subject;
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 3]);
+        ctx.strokeRect(left * canvas.width + 0.5, top * canvas.height + 0.5, (right - left) * canvas.width - 1, (bottom - top) * canvas.height - 1);
+    }, [thumbnail, labels, draft, background.subject, background.mode]);
+
+    const pointerPosition = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return [
+            Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+            Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+        ];
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const start = pointerPosition(e);
+        setDraft({ start, box: [start[0], start[1], start[0], start[1]] });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!draft) return;
+        const [x, y] = pointerPosition(e);
+        const [sx, sy] = draft.start;
+        setDraft({ ...draft, box: [Math.min(sx, x), Math.min(sy, y), Math.max(sx, x), Math.max(sy, y)] });
+    };
+
+    const handlePointerUp = () => {
+        if (!draft) return;
+        const [left, top, right, bottom] = draft.box;
+        // A click without a drag keeps the old box
+        if (right - left > 0.05 && bottom - top > 0.05) setBackground({ subject: draft.box });
+        setDraft(null);
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <ScanFace className="w-4 h-4" /> Background
+            </h3>
+
+            <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                {modeOptions.map(([mode, label]) => (
+                    <button
+                        key={mode}
+                        onClick={() => setBackground({ mode })}
+                        className={`flex-1 px-2 py-1 text-xs font-bold rounded-md transition-colors ${background.mode === mode ? 'bg-primary text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {background.mode !== 'keep' && (
+                <div className="space-y-4 animate-in slide-in-from-top-2 duration-200">
+                    {thumbnail ? (
+                        <div className="space-y-1">
+                            <canvas
+                                ref={canvasRef}
+                                className="w-full rounded border border-gray-700 cursor-crosshair touch-none"
+                                style={{ aspectRatio: `${thumbnail.width} / ${thumbnail.height}` }}
+                                onPointerDown={handlePointerDown}
+                                onPointerMove={handlePointerMove}
+                                onPointerUp={handlePointerUp}
+                            />
+                            <p className="text-[10px] text-gray-500">
+                                Drag a box around the subject; the darkened part is treated as background
+                                {!labels && ' (finding the subject…)'}
+                            </p>
+                        </div>
+                    ) : (
+                        <p className="text-[10px] text-gray-500">Load an image to mark the subject</p>
+                    )}
+
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={background.faceHint}
+                            onChange={(e) => setBackground({ faceHint: e.target.checked })}
+                            className="w-4 h-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                        />
+                        <span className="text-sm text-gray-300">Keep faces and skin as subject</span>
+                    </label>
+
+                    {backgroundSliders
+                        .filter(([, , , , , , modes]) => modes.includes(background.mode))
+                        .map(([field, label, min, max, step, unit]) => (
+                            <div key={field} className="space-y-1">
+                                <div className="flex justify-between text-xs text-gray-300">
+                                    <span>{label}</span>
+                                    <span>{background[field]}{unit}</span>
+                                </div>
+                                <input
+                                    type="range" min={min} max={max} step={step}
+                                    value={background[field]}
+                                    onChange={(e) => setBackground({ [field]: parseFloat(e.target.value) })}
+                                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
+                                />
+                            </div>
+                        ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { useAppStore } from '../store/AppContext';
+import { lightTransmission } from '../core/lightTransmission';
+
+/**
+ * Simulated photo of the print held against a light.
+ */
+export const BacklitPreview = () => {
+    const { heightmap, imageDimensions, modelSettings } = useAppStore();
+    const { width, height } = imageDimensions;
+    // Only the settings that change transmission trigger a new photo
+    const { depth, baseHeight, attenuation, smoothing, smoothingIterations } = modelSettings;
+
+    const photo = useMemo(() => {
+        if (!heightmap || width === 0) return null;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')!.putImageData(lightTransmission.simulatePhoto(heightmap, width, height, modelSettings), 0, 0);
+        return canvas.toDataURL('image/png');
+    }, [heightmap, width, height, depth, baseHeight, attenuation, smoothing, smoothingIterations]);
+
+    if (!photo) return null;
+
+    return (
+        <div className="space-y-1">
+            <div className="w-full aspect-video bg-black rounded overflow-hidden border border-gray-700 relative">
+                <img src={photo} alt="Backlit simulation" className="w-full h-full object-contain" />
+            </div>
+            <p className="text-[10px] text-gray-500 text-right">
+                Contrast 1:{lightTransmission.contrastRatio(modelSettings).toFixed(0)}
+            </p>
+        </div>
+    );
+};
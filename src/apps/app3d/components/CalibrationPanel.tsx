@@ -0,0 +1,193 @@
+import React from 'react';
+import { Ruler, Trash2 } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { calibrationManager } from '../core/calibration';
+import { stlExporter, downloadBlob } from '../core/exporter';
+
+/**
+ * Select the luminance -> thickness curve, and create new curves from a
+ * printed step wedge.
+ */
+export const CalibrationPanel = () => {
+    const {
+        modelSettings,
+        updateModelSettings,
+        calibrationCurves,
+        saveCalibrationCurve,
+        deleteCalibrationCurve,
+    } = useAppStore();
+
+    const [creating, setCreating] = React.useState(false);
+    const [steps, setSteps] = React.useState(8);
+    const [minThickness, setMinThickness] = React.useState(0.6);
+    const [maxThickness, setMaxThickness] = React.useState(3.6);
+    const [readings, setReadings] = React.useState<string[]>([]);
+    const [name, setName] = React.useState('');
+    const [filament, setFilament] = React.useState('');
+
+    const thicknesses = calibrationManager.stepThicknesses(minThickness, maxThickness, steps);
+    const values = thicknesses.map((_, i) => parseFloat(readings[i] ?? ''));
+    const canSave = name.trim() !== '' && values.every(v => Number.isFinite(v) && v >= 0 && v <= 100);
+
+    const exportWedge = () => {
+        const geometry = calibrationManager.generateStepWedge(thicknesses, modelSettings);
+        downloadBlob(new Blob([stlExporter.parse(geometry)], { type: 'application/octet-stream' }), `step_wedge_${steps}.stl`);
+        geometry.dispose();
+    };
+
+    const saveCurve = () => {
+        const curve = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            name: name.trim(),
+            filament: filament.trim(),
+            thicknesses,
+            brightness: values.map(v => v / 100),
+        };
+        saveCalibrationCurve(curve);
+        updateModelSettings({ calibrationId: curve.id });
+        setCreating(false);
+        setReadings([]);
+        setName('');
+        setFilament('');
+    };
+
+    const selected = calibrationCurves.find(c => c.id === modelSettings.calibrationId);
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <Ruler className="w-4 h-4" /> Calibration
+            </h3>
+
+            <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-300">
+                    <span>Response Curve</span>
+                    {selected && (
+                        <button
+                            onClick={() => deleteCalibrationCurve(selected.id)}
+                            className="text-gray-500 hover:text-red-400 transition-colors"
+                            title="Delete curve"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    )}
+                </div>
+                <select
+                    value={modelSettings.calibrationId ?? ''}
+                    onChange={(e) => updateModelSettings({ calibrationId: e.target.value || null })}
+                    className="w-full bg-gray-700 text-white text-xs rounded-lg p-2 border border-gray-600 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                >
+                    <option value="">Linear (uncalibrated)</option>
+                    {calibrationCurves.map(curve => (
+                        <option key={curve.id} value={curve.id}>
+                            {curve.filament ? `${curve.name} — ${curve.filament}` : curve.name}
+                        </option>
+                    ))}
+                </select>
+                <p className="text-[10px] text-gray-500">
+                    Thickness {modelSettings.baseHeight} – {modelSettings.baseHeight + modelSettings.depth} mm (Base Height to Base + Depth)
+                </p>
+            </div>
+
+            {!creating ? (
+                <button
+                    className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+                    onClick={() => setCreating(true)}
+                >
+                    New Calibration…
+                </button>
+            ) : (
+                <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-3 space-y-3 animate-in fade-in duration-200">
+                    <p className="text-[10px] text-gray-400">
+                        1. Print the step wedge. 2. Photograph it against your light.
+                        3. Enter each step's brightness (0–100 %).
+                    </p>
+
+                    <div className="grid grid-cols-3 gap-2 text-xs text-gray-300">
+                        <label className="space-y-1">
+                            <span>Steps</span>
+                            <input
+                                type="number" min="3" max="16"
+                                value={steps}
+                                onChange={(e) => setSteps(Math.max(3, Math.min(16, parseInt(e.target.value) || 3)))}
+                                className="w-full bg-gray-700 border border-gray-600 rounded p-1"
+                            />
+                        </label>
+                        <label className="space-y-1">
+                            <span>Min (mm)</span>
+                            <input
+                                type="number" min="0.2" step="0.1"
+                                value={minThickness}
+                                onChange={(e) => setMinThickness(parseFloat(e.target.value) || 0.2)}
+                                className="w-full bg-gray-700 border border-gray-600 rounded p-1"
+                            />
+                        </label>
+                        <label className="space-y-1">
+                            <span>Max (mm)</span>
+                            <input
+                                type="number" min="0.5" step="0.1"
+                                value={maxThickness}
+                                onChange={(e) => setMaxThickness(Math.max(minThickness + 0.1, parseFloat(e.target.value) || 0))}
+                                className="w-full bg-gray-700 border border-gray-600 rounded p-1"
+                            />
+                        </label>
+                    </div>
+
+                    <button
+                        className="w-full px-3 py-2 bg-secondary hover:bg-indigo-600 text-white text-sm rounded-lg transition-colors"
+                        onClick={exportWedge}
+                    >
+                        Export Step Wedge STL
+                    </button>
+
+                    <div className="space-y-1">
+                        {thicknesses.map((t, i) => (
+                            <div key={i} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                                <span>Step {i + 1} · {t.toFixed(2)} mm</span>
+                                <input
+                                    type="number" min="0" max="100" placeholder="%"
+                                    value={readings[i] ?? ''}
+                                    onChange={(e) => setReadings(prev => {
+                                        const next = [...prev];
+                                        next[i] = e.target.value;
+                                        return next;
+                                    })}
+                                    className="w-20 bg-gray-700 border border-gray-600 rounded p-1 text-right"
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <input
+                        type="text" placeholder="Curve name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="w-full bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white"
+                    />
+                    <input
+                        type="text" placeholder="Filament (brand, colour)"
+                        value={filament}
+                        onChange={(e) => setFilament(e.target.value)}
+                        className="w-full bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white"
+                    />
+
+                    <div className="flex gap-2">
+                        <button
+                            className="flex-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+                            onClick={() => setCreating(false)}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            className="flex-1 px-3 py-2 bg-primary hover:bg-sky-600 text-white text-sm rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            disabled={!canSave}
+                            onClick={saveCurve}
+                        >
+                            Save Curve
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Columns2, Crosshair, X } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { imageStats } from '../core/imageStats';
+
+const luminanceAt = (data: Uint8ClampedArray, i: number) =>
+    Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+
+const percent = (share: number) => `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+
+/**
+ * The original and the processed image split by a draggable divider, with
+ * their luminance histograms, the parts that print at the thickness limits
+ * and the thickness under the cursor.
+ */
+export const ComparePanel = () => {
+    const { originalImage, processedImage, heightmap, imageDimensions, modelSettings, setIsComparing } = useAppStore();
+    const { width, height } = imageDimensions;
+
+    const [processed, setProcessed] = useState<HTMLImageElement | null>(null);
+    const [split, setSplit] = useState(0.5);
+    const [showClipping, setShowClipping] = useState(true);
+    const [probe, setProbe] = useState<{ x: number; y: number } | null>(null);
+    const dragging = useRef(false);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const histogramRef = useRef<HTMLCanvasElement>(null);
+
+    const ready = !!originalImage && !!processed && !!heightmap && width > 0 && heightmap.length === width * height;
+
+    useEffect(() => {
+        if (!processedImage) return;
+        let cancelled = false;
+        const img = new Image();
+        img.src = processedImage;
+        img.decode()
+            .then(() => !cancelled && setProcessed(img))
+            .catch(err => console.error('Could not decode the processed image', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [processedImage]);
+
+    // Both images at heightmap size, for the histograms and the probe
+    const pixels = useMemo(() => {
+        if (!ready) return null;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+        const read = (img: HTMLImageElement) => {
+            ctx.drawImage(img, 0, 0, width, height);
+            return ctx.getImageData(0, 0, width, height);
+        };
+        return { before: read(originalImage!), after: read(processed!) };
+    }, [ready, originalImage, processed, width, height]);
+
+    const histograms = useMemo(() => pixels && {
+        before: imageStats.luminanceHistogram(pixels.before),
+        after: imageStats.luminanceHistogram(pixels.after),
+    }, [pixels]);
+
+    const clipping = useMemo(() => heightmap && imageStats.clipping(heightmap), [heightmap]);
+
+    const overlay = useMemo(() => {
+        if (!ready) return null;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const image = new ImageData(width, height);
+        image.data.set(imageStats.clippingOverlay(heightmap!));
+        canvas.getContext('2d')!.putImageData(image, 0, 0);
+        return canvas;
+    }, [ready, heightmap, width, height]);
+
+    // Original left of the divider, processed (and the clipping tint) right of it
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx || !ready) return;
+        const x = Math.round(split * width);
+
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(originalImage!, 0, 0, width, height);
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x, 0, width - x, height);
+        ctx.clip();
+        ctx.drawImage(processed!, 0, 0, width, height);
+        if (showClipping && overlay) ctx.drawImage(overlay, 0, 0);
+        ctx.restore();
+
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(x - Math.max(1, width / 400), 0, Math.max(2, width / 200), height);
+    }, [ready, originalImage, processed, overlay, showClipping, split, width, height]);
+
+    // Before in grey, after in blue; the end bins may run off the top
+    useEffect(() => {
+        const ctx = histogramRef.current?.getContext('2d');
+        if (!ctx || !histograms) return;
+        const { width: w, height: h } = ctx.canvas;
+        const { before, after } = histograms;
+        let peak = 1;
+        for (let v = 1; v < 255; v++) peak = Math.max(peak, before[v], after[v]);
+
+        ctx.clearRect(0, 0, w, h);
+        const bars = (histogram: Uint32Array, colour: string) => {
+            ctx.fillStyle = colour;
+            for (let v = 0; v < 256; v++) {
+                const barHeight = Math.min(h, (histogram[v] / peak) * h);
+                ctx.fillRect((v * w) / 256, h - barHeight, w / 256, barHeight);
+            }
+        };
+        bars(before, 'rgba(156, 163, 175, 0.55)');
+        bars(after, 'rgba(14, 165, 233, 0.6)');
+    }, [histograms]);
+
+    const toPixel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.min(width - 1, Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * width))),
+            y: Math.min(height - 1, Math.max(0, Math.floor(((e.clientY - rect.top) / rect.height) * height))),
+            split: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragging.current = true;
+        setSplit(toPixel(e).split);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const point = toPixel(e);
+        if (dragging.current) setSplit(point.split);
+        setProbe({ x: point.x, y: point.y });
+    };
+
+    if (!ready) return null;
+
+    const minThickness = imageStats.thickness(0, modelSettings);
+    const maxThickness = imageStats.thickness(1, modelSettings);
+    const probed = probe && pixels && {
+        before: luminanceAt(pixels.before.data, probe.y * width + probe.x),
+        after: luminanceAt(pixels.after.data, probe.y * width + probe.x),
+        height: heightmap![probe.y * width + probe.x],
+    };
+
+    return (
+        <div className="absolute inset-y-4 left-4 w-[55%] z-20 flex flex-col bg-dark-lighter/95 backdrop-blur-sm rounded-xl border border-gray-700 shadow-2xl animate-in fade-in duration-200">
+            <div className="flex items-center gap-3 p-3 border-b border-gray-700">
+                <h3 className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+                    <Columns2 className="w-4 h-4" /> Before / After
+                </h3>
+
+                <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={showClipping}
+                        onChange={(e) => setShowClipping(e.target.checked)}
+                        className="w-4 h-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                    />
+                    <span className="text-xs text-gray-300">Show clipping</span>
+                </label>
+
+                <button
+                    onClick={() => setIsComparing(false)}
+                    className="ml-auto p-1.5 text-gray-400 hover:text-white rounded-md transition-colors"
+                    title="Close comparison"
+                >
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+                <canvas
+                    ref={canvasRef}
+                    width={width}
+                    height={height}
+                    className="max-w-full max-h-full object-contain cursor-ew-resize rounded border border-gray-700 touch-none"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => { dragging.current = false; }}
+                    onPointerCancel={() => { dragging.current = false; }}
+                    onPointerLeave={() => setProbe(null)}
+                />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 px-4 pb-3 text-xs">
+                <div className="space-y-1">
+                    <canvas ref={histogramRef} width={256} height={64} className="w-full h-16 bg-gray-900 rounded border border-gray-700" />
+                    <div className="flex justify-between text-[10px] text-gray-500">
+                        <span>Black</span>
+                        <span><span className="text-gray-400">■</span> Original <span className="text-sky-500">■</span> Processed</span>
+                        <span>White</span>
+                    </div>
+                </div>
+
+                <div className="space-y-1">
+                    {clipping && clipping.low + clipping.high > 0.001 ? (
+                        <>
+                            {clipping.low > 0.001 && (
+                                <div className="flex items-center gap-1 text-sky-400">
+                                    <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                                    {percent(clipping.low)} prints at the minimum ({minThickness.toFixed(2)} mm)
+                                </div>
+                            )}
+                            {clipping.high > 0.001 && (
+                                <div className="flex items-center gap-1 text-red-400">
+                                    <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                                    {percent(clipping.high)} prints at the maximum ({maxThickness.toFixed(2)} mm)
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <div className="text-gray-500">No clipping: detail is kept across {minThickness.toFixed(2)}–{maxThickness.toFixed(2)} mm</div>
+                    )}
+
+                    <div className="flex items-center gap-1 pt-1 text-gray-300 font-mono">
+                        <Crosshair className="w-3.5 h-3.5 shrink-0 text-gray-500" />
+                        {probed ? (
+                            <span>
+                                ({probe!.x}, {probe!.y}) {probed.before} → {probed.after} · {imageStats.thickness(probed.height, modelSettings).toFixed(2)} mm
+                            </span>
+                        ) : (
+                            <span className="text-gray-500 font-sans">Point at the image to read the thickness</span>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <p className="px-3 pb-2 text-[10px] text-gray-500">
+                Drag to move the divider: original on the left, processed on the right. Blue and red mark what prints at the thinnest and thickest.
+            </p>
+        </div>
+    );
+};
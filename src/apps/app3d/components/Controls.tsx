@@ -1,38 +1,121 @@
 import React from 'react';
 import { useAppStore } from '../store/AppContext';
-import { imageProcessor } from '../core/imageProcessor';
-import { geometryGenerator } from '../core/geometryGenerator';
-import { stlExporter } from '../core/exporter';
-import { Upload, Download, Layers, Settings, Image as ImageIcon } from 'lucide-react';
+import { stlExporter, threeMFExporter, objExporter, downloadBlob } from '../core/exporter';
+import JSZip from 'jszip';
+import { gcodeGenerator } from '../core/gcodeGenerator';
+import { JobCancelledError } from '../core/pipelineClient';
+import type { MeshReport } from '../core/meshValidator';
+import { MeshReportPanel } from './MeshReportPanel';
+import { BacklitPreview } from './BacklitPreview';
+import { CalibrationPanel } from './CalibrationPanel';
+import { PresetPanel } from './PresetPanel';
+import { OrnamentPanel } from './OrnamentPanel';
+import { AssemblyPanel } from './AssemblyPanel';
+import { EstimatePanel } from './EstimatePanel';
+import { ImportPanel } from './ImportPanel';
+import { FilterStackPanel } from './FilterStackPanel';
+import { BackgroundPanel } from './BackgroundPanel';
+import type { GCodeSettings, ToolType, ColorMode, LithophaneShape, ModelSettings } from '../types';
+import { shapeOutlines } from '../core/outlines';
+import { Upload, Download, Layers, Settings, Drill, ShieldCheck, FolderOpen, Save, History, Brush, Mountain, X, Columns2, AlertTriangle, Image as ImageIcon } from 'lucide-react';
+import { HistoryList } from '../../../shared/history/HistoryList';
+import type * as THREE from 'three';
+
+const triangleCount = (geo: THREE.BufferGeometry) =>
+    (geo.index ? geo.index.count : geo.attributes.position.count) / 3;
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+type ExportFormat = 'stl' | '3mf' | 'obj';
+
+const shapeOptions: [LithophaneShape, string][] = [
+    ['flat', 'Panel'],
+    ['cylinder', 'Cylinder'],
+    ['sphere', 'Sphere'],
+    ['heart', 'Heart'],
+    ['circle', 'Circle'],
+    ['custom', 'SVG'],
+];
+
+// Bent shapes can fold into themselves, flat ones can't
+const isBent = (settings: ModelSettings) =>
+    settings.curveAngle > 0 || settings.shape === 'cylinder' || settings.shape === 'sphere';
+
+type NumericGCodeKey = Exclude<keyof GCodeSettings, 'toolType'>;
+
+// Slider definitions for the CNC section: [key, label, min, max, step, display scale, unit]
+const gcodeSliders: [NumericGCodeKey, string, number, number, number, number, string][] = [
+    ['toolDiameter', 'Tool Diameter', 0.5, 12.7, 0.025, 1, 'mm'],
+    ['feedRate', 'Feed Rate', 100, 5000, 50, 1, 'mm/min'],
+    ['plungeRate', 'Plunge Rate', 50, 2000, 50, 1, 'mm/min'],
+    ['spindleSpeed', 'Spindle Speed', 5000, 30000, 500, 1, 'RPM'],
+    ['stepOver', 'Roughing Step-over', 0.05, 0.9, 0.05, 100, '%'],
+    ['finishStepOver', 'Finishing Step-over', 0.02, 0.5, 0.01, 100, '%'],
+    ['passDepth', 'Pass Depth (0 = full)', 0, 5, 0.25, 1, 'mm'],
+    ['stockToLeave', 'Stock to Leave', 0, 1, 0.05, 1, 'mm'],
+    ['safeHeight', 'Safe Height', 1, 20, 0.5, 1, 'mm'],
+    ['oversize', 'Oversize Border', 0, 10, 0.5, 1, 'mm'],
+    ['rapidRate', 'Rapid Rate (estimates)', 500, 10000, 100, 1, 'mm/min'],
+];
 
 export const Controls = () => {
     const {
-        setOriginalImage,
-        setProcessedImage,
-        setHeightmap,
-        setImageDimensions,
+        loadImageFile,
+        saveProject,
+        openProject,
         setIsProcessing,
         isProcessing,
         imageSettings,
         modelSettings,
+        gcodeSettings,
         updateImageSettings,
         updateModelSettings,
+        updateGCodeSettings,
         processedImage,
         heightmap,
-        imageDimensions
+        geometry,
+        colorBodies,
+        assemblyParts,
+        imageDimensions,
+        history,
+        heightmapEdits,
+        isEditingHeightmap,
+        setIsEditingHeightmap,
+        isComparing,
+        setIsComparing,
+        loadDepthFile,
+        clearDepthMap,
+        depthMap,
+        depthMapName,
+        importedMesh,
+        checkMesh
     } = useAppStore();
 
+    const [meshCheck, setMeshCheck] = React.useState<{ report: MeshReport; repaired: boolean } | null>(null);
+    const [meshCheckError, setMeshCheckError] = React.useState<string | null>(null);
+    const [autoRepair, setAutoRepair] = React.useState(true);
+    const [exportFormat, setExportFormat] = React.useState<ExportFormat>('stl');
+
+    /**
+     * Validates the geometry in the worker, repairing it first if enabled and
+     * needed. Resolves to the geometry that should be exported.
+     */
+    const checkForExport = async (geo: THREE.BufferGeometry): Promise<THREE.BufferGeometry> => {
+        const { report, repaired } = await checkMesh(geo, { checkSelfIntersections: isBent(modelSettings) }, autoRepair);
+        setMeshCheck({ report, repaired: repaired !== null });
+        setMeshCheckError(null);
+        return repaired ?? geo;
+    };
+
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
         setIsProcessing(true);
         try {
-            const img = await imageProcessor.loadImage(file);
-            setOriginalImage(img);
-
-            // Process initial
-            updatePreview(img, imageSettings);
+            // Processing and meshing run in the pipeline worker once the image is set
+            await loadImageFile(file);
         } catch (err) {
             console.error(err);
         } finally {
@@ -40,50 +123,65 @@ export const Controls = () => {
         }
     };
 
-    const updatePreview = (img: HTMLImageElement, settings: typeof imageSettings) => {
-        // Pass modelSettings.resolution to processImage
-        const imageData = imageProcessor.processImage(img, settings, modelSettings.resolution);
+    const handleDepthUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
 
-        // Create preview URL
-        const canvas = document.createElement('canvas');
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        const ctx = canvas.getContext('2d');
-        ctx?.putImageData(imageData, 0, 0);
+        setIsProcessing(true);
+        try {
+            await loadDepthFile(file);
+        } catch (err) {
+            console.error(err);
+            alert("Could not read depth map: " + err);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
 
-        setProcessedImage(canvas.toDataURL());
-        setImageDimensions({ width: imageData.width, height: imageData.height });
+    const handleProjectOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow reopening the same file
+        if (!file) return;
 
-        // Generate heightmap asynchronous to not block UI too much? 
-        // For now synchronous, but in real app use worker.
-        const map = imageProcessor.generateHeightmap(imageData);
-        setHeightmap(map);
+        setIsProcessing(true);
+        try {
+            await openProject(file);
+        } catch (err) {
+            console.error(err);
+            alert("Could not open project: " + err);
+        } finally {
+            setIsProcessing(false);
+        }
     };
 
-    const handleImageSettingChange = (key: keyof typeof imageSettings, value: number | boolean) => {
-        updateImageSettings({ [key]: value });
-        // Define a debounced update or manual "Apply" if slow. 
-        // For now, let's assume immediate update is okay for small images.
-        // Ideally we re-process.
-        // We need access to originalImage here. 
+    const handleProjectSave = async () => {
+        setIsProcessing(true);
+        try {
+            downloadBlob(await saveProject(), 'lithophane_project.lithoproj');
+        } catch (err) {
+            console.error(err);
+            alert("Could not save project: " + err);
+        } finally {
+            setIsProcessing(false);
+        }
     };
 
-    // We need a way to trigger re-processing when settings change.
-    // Using useEffect in a separate hook or just passing processing logic.
-    // Let's create a dedicated effect or function here.
-
-    const { originalImage } = useAppStore();
+    const handleOutlineUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
 
-    // Effect to re-process when settings change
-    React.useEffect(() => {
-        if (originalImage) {
-            const timeout = setTimeout(() => {
-                updatePreview(originalImage, imageSettings);
-            }, 300); // 300ms debounce
-            return () => clearTimeout(timeout);
+        try {
+            updateModelSettings({ shape: 'custom', customOutline: shapeOutlines.parseSvg(await file.text()) });
+        } catch (err) {
+            console.error(err);
+            alert("Could not read outline: " + err);
         }
-    }, [imageSettings, modelSettings.resolution, originalImage]);
+    };
 
+    const handleImageSettingChange = (key: 'invert' | 'grayscale', value: boolean) => {
+        updateImageSettings({ [key]: value });
+    };
 
     return (
         <div className="w-80 h-full bg-dark-lighter border-l border-gray-700 flex flex-col overflow-y-auto">
@@ -95,6 +193,37 @@ export const Controls = () => {
             </div>
 
             <div className="p-4 space-y-6">
+                {/* Project */}
+                <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        <FolderOpen className="w-4 h-4" /> Project
+                    </h3>
+                    <div className="flex gap-2">
+                        <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg cursor-pointer transition-colors">
+                            <FolderOpen className="w-4 h-4" /> Open
+                            <input type="file" className="hidden" accept=".lithoproj,.zip" onChange={handleProjectOpen} />
+                        </label>
+                        <button
+                            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            disabled={isProcessing}
+                            onClick={handleProjectSave}
+                        >
+                            <Save className="w-4 h-4" /> Save
+                        </button>
+                    </div>
+                    <p className="text-[10px] text-gray-500">Settings and image are also autosaved in this browser</p>
+                </div>
+
+                {/* History */}
+                <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        <History className="w-4 h-4" /> History
+                    </h3>
+                    <HistoryList history={history} maxHeight={120} />
+                </div>
+
+                <PresetPanel />
+
                 {/* Upload Section */}
                 <div className="space-y-2">
                     <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Image Source</h3>
@@ -106,17 +235,66 @@ export const Controls = () => {
                         </div>
                         <input type="file" className="hidden" accept="image/*" onChange={handleFileUpload} />
                     </label>
+
+                    {depthMap ? (
+                        <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-2 space-y-1">
+                            <div className="flex items-center gap-2 text-xs text-gray-300">
+                                <Mountain className="w-4 h-4 text-primary shrink-0" />
+                                <span className="truncate flex-1" title={depthMapName ?? ''}>{depthMapName}</span>
+                                <span className="text-gray-500">{depthMap.width}×{depthMap.height}</span>
+                                <button
+                                    onClick={clearDepthMap}
+                                    className="text-gray-500 hover:text-red-400 transition-colors"
+                                    title="Use image brightness again"
+                                >
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-gray-500">Heights come from the depth map; image filters other than Invert only change the preview</p>
+                            {imageDimensions.width > 0 && Math.abs(depthMap.width / depthMap.height - imageDimensions.width / imageDimensions.height) > 0.02 && (
+                                <p className="text-[10px] text-yellow-400">Depth map and photo have different aspect ratios; the depth map is stretched</p>
+                            )}
+                        </div>
+                    ) : (
+                        <label className="flex items-center justify-center gap-2 w-full py-2 border border-gray-600 border-dashed rounded-lg cursor-pointer hover:border-primary text-xs text-gray-300">
+                            <Mountain className="w-4 h-4" /> Use a depth map (16-bit PNG, PFM)
+                            <input type="file" className="hidden" accept=".png,.pfm,image/*" onChange={handleDepthUpload} />
+                        </label>
+                    )}
                 </div>
 
+                <ImportPanel />
+
                 {/* Processed Preview */}
                 {processedImage && (
                     <div className="space-y-2 animate-in fade-in zoom-in duration-300">
                         <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
-                            <ImageIcon className="w-4 h-4" /> Preview
+                            <ImageIcon className="w-4 h-4" /> {modelSettings.showBacklit ? 'Backlit Simulation' : 'Preview'}
                         </h3>
-                        <div className="w-full aspect-video bg-black rounded overflow-hidden border border-gray-700 relative">
-                            <img src={processedImage} alt="Processed" className="w-full h-full object-contain" />
-                        </div>
+                        {modelSettings.showBacklit ? <BacklitPreview /> : (
+                            <div className="w-full aspect-video bg-black rounded overflow-hidden border border-gray-700 relative">
+                                <img src={processedImage} alt="Processed" className="w-full h-full object-contain" />
+                            </div>
+                        )}
+                        <button
+                            className={`w-full flex items-center justify-center gap-2 px-3 py-2 text-white text-sm rounded-lg transition-colors ${isComparing ? 'bg-primary hover:bg-sky-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            onClick={() => {
+                                setIsComparing(!isComparing);
+                                setIsEditingHeightmap(false);
+                            }}
+                        >
+                            <Columns2 className="w-4 h-4" /> {isComparing ? 'Close Comparison' : 'Compare Before / After'}
+                        </button>
+                        <button
+                            className={`w-full flex items-center justify-center gap-2 px-3 py-2 text-white text-sm rounded-lg transition-colors ${isEditingHeightmap ? 'bg-primary hover:bg-sky-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            onClick={() => {
+                                setIsEditingHeightmap(!isEditingHeightmap);
+                                setIsComparing(false);
+                            }}
+                        >
+                            <Brush className="w-4 h-4" /> {isEditingHeightmap ? 'Close Heightmap Editor' : 'Edit Heightmap'}
+                            {heightmapEdits && <span className="text-[10px] uppercase tracking-wider text-yellow-300">edited</span>}
+                        </button>
                     </div>
                 )}
 
@@ -154,84 +332,6 @@ export const Controls = () => {
                         </select>
                     </div>
 
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-xs text-gray-300">
-                            <span>Sharpen (Details)</span>
-                            <span>{imageSettings.sharpen}</span>
-                        </div>
-                        <input
-                            type="range" min="0" max="10"
-                            value={imageSettings.sharpen}
-                            onChange={(e) => handleImageSettingChange('sharpen', parseInt(e.target.value))}
-                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
-                        />
-                    </div>
-
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-xs text-gray-300">
-                            <span>Contrast</span>
-                            <span>{imageSettings.contrast}</span>
-                        </div>
-                        <input
-                            type="range" min="-100" max="100"
-                            value={imageSettings.contrast}
-                            onChange={(e) => handleImageSettingChange('contrast', parseInt(e.target.value))}
-                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
-                        />
-                    </div>
-
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-xs text-gray-300">
-                            <span>Brightness</span>
-                            <span>{imageSettings.brightness}</span>
-                        </div>
-                        <input
-                            type="range" min="-100" max="100"
-                            value={imageSettings.brightness}
-                            onChange={(e) => handleImageSettingChange('brightness', parseInt(e.target.value))}
-                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
-                        />
-                    </div>
-
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-xs text-gray-300">
-                            <span>Blur (Smoothing)</span>
-                            <span>{imageSettings.blur}px</span>
-                        </div>
-                        <input
-                            type="range" min="0" max="20"
-                            value={imageSettings.blur}
-                            onChange={(e) => handleImageSettingChange('blur', parseInt(e.target.value))}
-                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
-                        />
-                    </div>
-
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-xs text-gray-300">
-                            <span>Gamma</span>
-                            <span>{imageSettings.gamma}</span>
-                        </div>
-                        <input
-                            type="range" min="0.1" max="3" step="0.1"
-                            value={imageSettings.gamma}
-                            onChange={(e) => handleImageSettingChange('gamma', parseFloat(e.target.value))}
-                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
-                        />
-                    </div>
-
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-xs text-gray-300">
-                            <span>Noise Reduction</span>
-                            <span>{imageSettings.noiseReduction}</span>
-                        </div>
-                        <input
-                            type="range" min="0" max="10" step="1"
-                            value={imageSettings.noiseReduction}
-                            onChange={(e) => handleImageSettingChange('noiseReduction', parseInt(e.target.value))}
-                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
-                        />
-                    </div>
-
                     <label className="flex items-center space-x-2 cursor-pointer">
                         <input
                             type="checkbox"
@@ -241,8 +341,12 @@ export const Controls = () => {
                         />
                         <span className="text-sm text-gray-300">Invert Colors (Dark = High)</span>
                     </label>
+
+                    <FilterStackPanel />
                 </div>
 
+                <BackgroundPanel />
+
                 {/* Model Settings */}
                 <div className="space-y-4">
                     <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
@@ -288,6 +392,20 @@ export const Controls = () => {
                         />
                     </div>
 
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs text-gray-300">
+                            <span>Max Deviation (mm)</span>
+                            <span>{modelSettings.maxDeviation === 0 ? 'Full Detail' : modelSettings.maxDeviation}</span>
+                        </div>
+                        <input
+                            type="range" min="0" max="0.5" step="0.01"
+                            value={modelSettings.maxDeviation}
+                            onChange={(e) => updateModelSettings({ maxDeviation: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+                        />
+                        <p className="text-[10px] text-gray-500">Merges flat areas into larger triangles</p>
+                    </div>
+
                     <div className="space-y-1">
                         <label className="flex items-center space-x-2 cursor-pointer">
                             <input
@@ -316,6 +434,9 @@ export const Controls = () => {
                     )}
                 </div>
 
+                {/* Calibration */}
+                <CalibrationPanel />
+
                 {/* Frame Settings */}
                 <div className="space-y-4">
                     <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
@@ -342,19 +463,131 @@ export const Controls = () => {
                         <span className="text-lg leading-none">↺</span> Shape Settings
                     </h3>
 
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-xs text-gray-300">
-                            <span>Curve Angle (°)</span>
-                            <span>{modelSettings.curveAngle}°</span>
+                    <div className="grid grid-cols-3 gap-1 p-1 bg-gray-800 rounded-lg">
+                        {shapeOptions.map(([shape, label]) => (
+                            <button
+                                key={shape}
+                                onClick={() => updateModelSettings({ shape })}
+                                className={`py-1 text-xs font-bold rounded-md transition-colors ${modelSettings.shape === shape ? 'bg-pink-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {modelSettings.shape === 'custom' && (
+                        <div className="space-y-1 animate-in slide-in-from-top-2 duration-200">
+                            <label className="flex items-center justify-center w-full py-2 border border-gray-600 border-dashed rounded-lg cursor-pointer hover:border-pink-500 text-xs text-gray-300">
+                                {modelSettings.customOutline ? 'Replace SVG outline' : 'Upload SVG outline'}
+                                <input type="file" className="hidden" accept=".svg,image/svg+xml" onChange={handleOutlineUpload} />
+                            </label>
+                            <p className="text-[10px] text-gray-500">The outline is stretched to the panel size; without one the panel stays rectangular</p>
                         </div>
-                        <input
-                            type="range" min="0" max="360" step="10"
-                            value={modelSettings.curveAngle}
-                            onChange={(e) => updateModelSettings({ curveAngle: parseInt(e.target.value) })}
-                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
-                        />
-                        <p className="text-[10px] text-gray-500">0 = Flat, 360 = Full Cylinder</p>
+                    )}
+
+                    {modelSettings.shape !== 'cylinder' && modelSettings.shape !== 'sphere' && (
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs text-gray-300">
+                                <span>Curve Angle (°)</span>
+                                <span>{modelSettings.curveAngle}°</span>
+                            </div>
+                            <input
+                                type="range" min="0" max="360" step="10"
+                                value={modelSettings.curveAngle}
+                                onChange={(e) => updateModelSettings({ curveAngle: parseInt(e.target.value) })}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                            />
+                            <p className="text-[10px] text-gray-500">0 = Flat, 360 = Full Cylinder</p>
+                        </div>
+                    )}
+
+                    {modelSettings.shape === 'cylinder' && (
+                        <div className="space-y-4 animate-in slide-in-from-top-2 duration-200">
+                            <div className="space-y-1">
+                                <div className="flex justify-between text-xs text-gray-300">
+                                    <span>Bottom Lip Width (mm)</span>
+                                    <span>{modelSettings.lipWidth === 0 ? 'None' : modelSettings.lipWidth}</span>
+                                </div>
+                                <input
+                                    type="range" min="0" max="10" step="0.5"
+                                    value={modelSettings.lipWidth}
+                                    onChange={(e) => updateModelSettings({ lipWidth: parseFloat(e.target.value) })}
+                                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                                />
+                            </div>
+
+                            {modelSettings.lipWidth > 0 && (
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-xs text-gray-300">
+                                        <span>Bottom Lip Height (mm)</span>
+                                        <span>{modelSettings.lipHeight}</span>
+                                    </div>
+                                    <input
+                                        type="range" min="1" max="10" step="0.5"
+                                        value={modelSettings.lipHeight}
+                                        onChange={(e) => updateModelSettings({ lipHeight: parseFloat(e.target.value) })}
+                                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                                    />
+                                    <p className="text-[10px] text-gray-500">Inward ring that rests on the lamp base</p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {modelSettings.shape === 'sphere' && (
+                        <div className="space-y-1 animate-in slide-in-from-top-2 duration-200">
+                            <div className="flex justify-between text-xs text-gray-300">
+                                <span>Bottom Opening (°)</span>
+                                <span>{modelSettings.sphereOpening}°</span>
+                            </div>
+                            <input
+                                type="range" min="5" max="90" step="5"
+                                value={modelSettings.sphereOpening}
+                                onChange={(e) => updateModelSettings({ sphereOpening: parseInt(e.target.value) })}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                            />
+                            <p className="text-[10px] text-gray-500">Width is the equator; the image wraps from the top pole down</p>
+                        </div>
+                    )}
+                </div>
+
+                <OrnamentPanel />
+
+                <AssemblyPanel />
+
+                {/* Colour Settings */}
+                <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        <span className="w-4 h-4 rounded-full block bg-gradient-to-br from-cyan-400 via-pink-500 to-yellow-300"></span> Colour Mode
+                    </h3>
+
+                    <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                        {([['mono', 'Mono'], ['cmyw', 'CMYW Layers']] as [ColorMode, string][]).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => updateModelSettings({ colorMode: mode })}
+                                className={`flex-1 py-1 text-xs font-bold rounded-md transition-colors ${modelSettings.colorMode === mode ? 'bg-primary text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
                     </div>
+
+                    {modelSettings.colorMode === 'cmyw' && (
+                        <div className="space-y-1 animate-in slide-in-from-top-2 duration-200">
+                            <div className="flex justify-between text-xs text-gray-300">
+                                <span>Ink Layer Thickness (mm)</span>
+                                <span>{modelSettings.colorLayerThickness}</span>
+                            </div>
+                            <input
+                                type="range" min="0.2" max="2" step="0.1"
+                                value={modelSettings.colorLayerThickness}
+                                onChange={(e) => updateModelSettings({ colorLayerThickness: parseFloat(e.target.value) })}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+                            />
+                            <p className="text-[10px] text-gray-500">Cyan, magenta and yellow under a white relief; exports one body per filament</p>
+                        </div>
+                    )}
                 </div>
 
                 {/* View Options */}
@@ -373,6 +606,42 @@ export const Controls = () => {
                         <span className="text-sm text-gray-300">Show Wireframe</span>
                     </label>
 
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={modelSettings.showCarvedPreview}
+                            onChange={(e) => updateModelSettings({ showCarvedPreview: e.target.checked })}
+                            className="w-4 h-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                        />
+                        <span className="text-sm text-gray-300">Show As-Carved (CNC) Preview</span>
+                    </label>
+
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={modelSettings.showBacklit}
+                            onChange={(e) => updateModelSettings({ showBacklit: e.target.checked })}
+                            className="w-4 h-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                        />
+                        <span className="text-sm text-gray-300">Backlit Preview</span>
+                    </label>
+
+                    {modelSettings.showBacklit && (
+                        <div className="space-y-1 animate-in slide-in-from-top-2 duration-200">
+                            <div className="flex justify-between text-xs text-gray-300">
+                                <span>Filament Attenuation (1/mm)</span>
+                                <span>{modelSettings.attenuation}</span>
+                            </div>
+                            <input
+                                type="range" min="0.2" max="4" step="0.1"
+                                value={modelSettings.attenuation}
+                                onChange={(e) => updateModelSettings({ attenuation: parseFloat(e.target.value) })}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
+                            />
+                            <p className="text-[10px] text-gray-500">Light kept per mm: e^-μ. White PLA is around 1.2</p>
+                        </div>
+                    )}
+
                     <div className="space-y-1">
                         <div className="flex justify-between text-xs text-gray-300">
                             <span>Material Color</span>
@@ -390,45 +659,207 @@ export const Controls = () => {
                     </div>
                 </div>
 
+                {/* CNC Settings */}
+                <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        <Drill className="w-4 h-4" /> CNC Settings
+                    </h3>
+
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs text-gray-300">
+                            <span>Tool Type</span>
+                        </div>
+                        <select
+                            value={gcodeSettings.toolType}
+                            onChange={(e) => updateGCodeSettings({ toolType: e.target.value as ToolType })}
+                            className="w-full bg-gray-700 text-white text-xs rounded-lg p-2 border border-gray-600 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                        >
+                            <option value="flat">Flat End Mill</option>
+                            <option value="ball">Ball Nose</option>
+                            <option value="vbit">V-Bit</option>
+                        </select>
+                    </div>
+
+                    {gcodeSettings.toolType === 'vbit' && (
+                        <div className="space-y-1 animate-in slide-in-from-top-2 duration-200">
+                            <div className="flex justify-between text-xs text-gray-300">
+                                <span>V-Bit Angle</span>
+                                <span>{gcodeSettings.vBitAngle}°</span>
+                            </div>
+                            <input
+                                type="range" min="15" max="150" step="5"
+                                value={gcodeSettings.vBitAngle}
+                                onChange={(e) => updateGCodeSettings({ vBitAngle: parseInt(e.target.value) })}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+                            />
+                        </div>
+                    )}
+
+                    {gcodeSliders.map(([key, label, min, max, step, scale, unit]) => (
+                        <div key={key} className="space-y-1">
+                            <div className="flex justify-between text-xs text-gray-300">
+                                <span>{label}</span>
+                                <span>{+(gcodeSettings[key] * scale).toFixed(2)} {unit}</span>
+                            </div>
+                            <input
+                                type="range" min={min} max={max} step={step}
+                                value={gcodeSettings[key]}
+                                onChange={(e) => updateGCodeSettings({ [key]: parseFloat(e.target.value) })}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                {/* Mesh Check */}
+                <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        <ShieldCheck className="w-4 h-4" /> Mesh Check
+                    </h3>
+
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={autoRepair}
+                            onChange={(e) => setAutoRepair(e.target.checked)}
+                            className="w-4 h-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                        />
+                        <span className="text-sm text-gray-300">Auto-repair before export</span>
+                    </label>
+
+                    <button
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        disabled={!geometry || isProcessing}
+                        onClick={async () => {
+                            if (!geometry) return;
+                            setIsProcessing(true);
+                            try {
+                                const { report } = await checkMesh(geometry, { checkSelfIntersections: isBent(modelSettings) });
+                                setMeshCheck({ report, repaired: false });
+                                setMeshCheckError(null);
+                            } catch (err) {
+                                if (err instanceof JobCancelledError) return;
+                                setMeshCheck(null);
+                                setMeshCheckError(err instanceof Error ? err.message : String(err));
+                            } finally {
+                                setIsProcessing(false);
+                            }
+                        }}
+                    >
+                        Validate Mesh
+                    </button>
+
+                    {meshCheckError && (
+                        <div className="flex items-start gap-2 text-xs text-red-400">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            Mesh check failed: {meshCheckError}
+                        </div>
+                    )}
+
+                    {meshCheck && <MeshReportPanel report={meshCheck.report} repaired={meshCheck.repaired} />}
+                </div>
+
+                <EstimatePanel />
+
                 {/* Action Buttons */}
                 <div className="pt-4">
+                    {geometry && (
+                        <div className="flex justify-between text-xs text-gray-400 mb-2">
+                            <span>{triangleCount(geometry).toLocaleString()} triangles</span>
+                            <span>STL ≈ {formatBytes(84 + triangleCount(geometry) * 50)}</span>
+                        </div>
+                    )}
+
+                    <div className="flex gap-1 mb-2 p-1 bg-gray-800 rounded-lg">
+                        {(['stl', '3mf', 'obj'] as ExportFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => setExportFormat(format)}
+                                className={`flex-1 py-1 text-xs font-bold uppercase rounded-md transition-colors ${exportFormat === format ? 'bg-primary text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {format}
+                            </button>
+                        ))}
+                    </div>
+
                     <button
                         className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-primary hover:bg-sky-600 text-white rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                        disabled={!processedImage || isProcessing}
+                        disabled={(!processedImage && !importedMesh) || isProcessing}
                         onClick={() => {
-                            if (!heightmap) return;
+                            if (!geometry) return;
                             setIsProcessing(true);
 
                             // Small delay to allow UI to update
+                            setTimeout(async () => {
+                                try {
+                                    // Colour mode exports one body per filament, assemblies one part each
+                                    const bodies = assemblyParts ?? colorBodies;
+                                    const objects = [];
+                                    for (const { name, color, geometry: body } of bodies ?? [{ name: importedMesh?.name ?? 'Lithophane', color: modelSettings.materialColor, geometry }]) {
+                                        objects.push({ name, color, geometry: await checkForExport(body) }); // One at a time: the check worker runs one job
+                                    }
+                                    const fileName = importedMesh ? importedMesh.name.replace(/\s+/g, '_') : 'lithophane_model';
+
+                                    // Assembly parts are laid out for printing one by one: always separate STLs
+                                    if (exportFormat === '3mf' && !assemblyParts) {
+                                        downloadBlob(await threeMFExporter.parse(objects), `${fileName}.3mf`);
+                                    } else if (exportFormat === 'obj' && !assemblyParts) {
+                                        const { obj, mtl } = objExporter.parse(objects, `${fileName}.mtl`);
+                                        const zip = new JSZip();
+                                        zip.file(`${fileName}.obj`, obj);
+                                        zip.file(`${fileName}.mtl`, mtl);
+                                        downloadBlob(await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }), `${fileName}_obj.zip`);
+                                    } else if (objects.length > 1) {
+                                        const zip = new JSZip();
+                                        objects.forEach(({ name, geometry }) => {
+                                            zip.file(`lithophane_${name.toLowerCase().replace(/\s+/g, '_')}.stl`, stlExporter.parse(geometry));
+                                        });
+                                        downloadBlob(await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }), 'lithophane_model_stl.zip');
+                                    } else {
+                                        const buffer = stlExporter.parse(objects[0].geometry);
+                                        downloadBlob(new Blob([buffer], { type: 'application/octet-stream' }), `${fileName}.stl`);
+                                    }
+                                } catch (e) {
+                                    console.error("Export failed", e);
+                                    alert("Export failed: " + e);
+                                } finally {
+                                    setIsProcessing(false);
+                                }
+                            }, 100);
+                        }}
+                    >
+                        <Download className="w-5 h-5" />
+                        {assemblyParts ? `Export ${assemblyParts.length} Parts (STL ZIP)` : `Export ${exportFormat.toUpperCase()}`}
+                    </button>
+
+                    <button
+                        className="w-full mt-2 flex items-center justify-center gap-2 px-4 py-3 bg-secondary hover:bg-indigo-600 text-white rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        disabled={!processedImage || importedMesh !== null || isProcessing}
+                        onClick={() => {
+                            if (!heightmap) return;
+                            setIsProcessing(true);
+
                             setTimeout(() => {
                                 try {
-                                    // Re-generate geometry for export
-                                    // We could potentially generate a HIGHER resolution one here if we wanted
-                                    const geo = geometryGenerator.generateMesh(
+                                    const program = gcodeGenerator.generate(
                                         heightmap,
                                         imageDimensions.width,
                                         imageDimensions.height,
-                                        modelSettings
+                                        modelSettings,
+                                        gcodeSettings
                                     );
-
-                                    const buffer = stlExporter.parse(geo);
-                                    const blob = new Blob([buffer], { type: 'application/octet-stream' });
-                                    const link = document.createElement('a');
-                                    link.href = URL.createObjectURL(blob);
-                                    link.download = 'lithophane_model.stl';
-                                    link.click();
-                                    URL.revokeObjectURL(link.href);
+                                    downloadBlob(new Blob([program], { type: 'text/plain' }), 'lithophane_carving.nc');
                                 } catch (e) {
-                                    console.error("Export failed", e);
-                                    alert("Export failed: " + e);
+                                    console.error("G-code export failed", e);
+                                    alert("G-code export failed: " + e);
                                 } finally {
                                     setIsProcessing(false);
                                 }
                             }, 100);
                         }}
                     >
-                        <Download className="w-5 h-5" />
-                        Export STL
+                        <Drill className="w-5 h-5" />
+                        Export G-code
                     </button>
                 </div>
 
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo } from 'react';
+import { Timer } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { printEstimator, FILAMENTS } from '../core/estimator';
+import type { CncEstimate } from '../core/estimator';
+import { gcodeGenerator } from '../core/gcodeGenerator';
+
+const formatDuration = (seconds: number) => {
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${Math.max(1, minutes)} min`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+    <div className="flex justify-between">
+        <span className="text-gray-400">{label}</span>
+        <span className="text-white font-mono">{value}</span>
+    </div>
+);
+
+/**
+ * Material, print-time and carving-time estimates for quoting, from the
+ * generated mesh and the G-code settings.
+ */
+export const EstimatePanel = () => {
+    const {
+        geometry, colorBodies, assemblyParts, importedMesh, heightmap, imageDimensions,
+        modelSettings, updateModelSettings, gcodeSettings, isProcessing, setIsProcessing,
+    } = useAppStore();
+    const [cnc, setCnc] = React.useState<CncEstimate | null>(null);
+
+    const { filamentDensity, filamentDiameter, layerHeight, printSpeed } = modelSettings;
+    const parts = assemblyParts ?? colorBodies;
+
+    const estimate = useMemo(() => {
+        const geometries = parts ? parts.map(part => part.geometry) : geometry ? [geometry] : [];
+        return geometries.length > 0 ? printEstimator.estimatePrint(geometries, modelSettings) : null;
+    }, [geometry, parts, filamentDensity, filamentDiameter, layerHeight, printSpeed]);
+
+    // A carving estimate is only valid for the toolpath it was made from
+    useEffect(() => setCnc(null), [heightmap, modelSettings, gcodeSettings]);
+
+    const material = FILAMENTS.find(f => f.density === filamentDensity)?.name ?? 'custom';
+
+    const estimateCarving = () => {
+        if (!heightmap) return;
+        setIsProcessing(true);
+
+        setTimeout(() => {
+            try {
+                const program = gcodeGenerator.generate(heightmap, imageDimensions.width, imageDimensions.height, modelSettings, gcodeSettings);
+                setCnc(printEstimator.estimateCnc(program, gcodeSettings.rapidRate));
+            } catch (e) {
+                console.error("Carving estimate failed", e);
+                alert("Carving estimate failed: " + e);
+            } finally {
+                setIsProcessing(false);
+            }
+        }, 100);
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <Timer className="w-4 h-4" /> Estimate
+            </h3>
+
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-300">
+                <label className="space-y-1">
+                    <span>Material</span>
+                    <select
+                        value={material}
+                        onChange={(e) => {
+                            const filament = FILAMENTS.find(f => f.name === e.target.value);
+                            if (filament) updateModelSettings({ filamentDensity: filament.density });
+                        }}
+                        className="w-full bg-gray-700 text-white rounded p-1 border border-gray-600 focus:border-primary outline-none"
+                    >
+                        {FILAMENTS.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+                        <option value="custom" disabled>Custom</option>
+                    </select>
+                </label>
+                <label className="space-y-1">
+                    <span>Density (g/cm³)</span>
+                    <input
+                        type="number" min="0.5" max="3" step="0.01"
+                        value={filamentDensity}
+                        onChange={(e) => updateModelSettings({ filamentDensity: Math.max(0.5, parseFloat(e.target.value) || 0.5) })}
+                        className="w-full bg-gray-700 border border-gray-600 rounded p-1"
+                    />
+                </label>
+            </div>
+
+            <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                {[1.75, 2.85].map(diameter => (
+                    <button
+                        key={diameter}
+                        onClick={() => updateModelSettings({ filamentDiameter: diameter })}
+                        className={`flex-1 py-1 text-xs font-bold rounded-md transition-colors ${filamentDiameter === diameter ? 'bg-secondary text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {diameter} mm
+                    </button>
+                ))}
+            </div>
+
+            <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-300">
+                    <span>Layer Height</span>
+                    <span>{layerHeight} mm</span>
+                </div>
+                <input
+                    type="range" min="0.04" max="0.32" step="0.02"
+                    value={layerHeight}
+                    onChange={(e) => updateModelSettings({ layerHeight: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+                />
+            </div>
+
+            <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-300">
+                    <span>Print Speed</span>
+                    <span>{printSpeed} mm/s</span>
+                </div>
+                <input
+                    type="range" min="10" max="200" step="5"
+                    value={printSpeed}
+                    onChange={(e) => updateModelSettings({ printSpeed: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+                />
+            </div>
+
+            {estimate && (
+                <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-3 space-y-1 text-xs">
+                    <Stat label="Volume" value={`${(estimate.volume / 1000).toFixed(1)} cm³`} />
+                    <Stat label="Filament" value={`${(estimate.filamentLength / 1000).toFixed(2)} m`} />
+                    <Stat label="Weight" value={`${estimate.weight.toFixed(1)} g`} />
+                    <Stat label={`Print time (${estimate.layers} layers)`} value={formatDuration(estimate.seconds)} />
+                    {cnc && (
+                        <>
+                            <Stat label="Carving time" value={formatDuration(cnc.seconds)} />
+                            <Stat label="Cutting / rapid moves" value={`${(cnc.cutLength / 1000).toFixed(1)} / ${(cnc.rapidLength / 1000).toFixed(1)} m`} />
+                        </>
+                    )}
+                </div>
+            )}
+
+            <button
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!heightmap || importedMesh !== null || isProcessing}
+                onClick={estimateCarving}
+            >
+                Estimate Carving Time
+            </button>
+            <p className="text-[10px] text-gray-500">
+                Approximate: printed solid, no supports; carving ignores acceleration.
+            </p>
+        </div>
+    );
+};
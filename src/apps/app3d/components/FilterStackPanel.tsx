@@ -0,0 +1,101 @@
+import { ChevronUp, ChevronDown, Copy, Trash2 } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { imageFilters, FILTER_DEFINITIONS } from '../core/imageFilters';
+import type { ImageFilter, ImageFilterType } from '../types';
+
+const iconButton = 'p-1 text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 transition-colors';
+
+/**
+ * The image filter stack: filters run top to bottom and can be added,
+ * reordered, duplicated, switched off and removed.
+ */
+export const FilterStackPanel = () => {
+    const { imageSettings, updateImageSettings } = useAppStore();
+    const { filters } = imageSettings;
+
+    const setFilters = (next: ImageFilter[]) => updateImageSettings({ filters: next });
+
+    const updateFilter = (id: string, change: Partial<ImageFilter>) => {
+        setFilters(filters.map(filter => filter.id === id ? { ...filter, ...change } : filter));
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-between text-xs text-gray-300">
+                <span>Filters</span>
+                <span className="text-gray-500">applied top to bottom</span>
+            </div>
+
+            {filters.length === 0 && (
+                <p className="text-[10px] text-gray-500">No filters: the image is used as it is</p>
+            )}
+
+            {filters.map((filter, index) => {
+                const definition = FILTER_DEFINITIONS[filter.type];
+                return (
+                    <div key={filter.id} className="rounded-lg border border-gray-700 bg-gray-800/50 p-2 space-y-2">
+                        <div className="flex items-center gap-1 text-xs">
+                            <input
+                                type="checkbox"
+                                checked={filter.enabled}
+                                onChange={(e) => updateFilter(filter.id, { enabled: e.target.checked })}
+                                className="w-3.5 h-3.5 mr-1 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                                title={filter.enabled ? 'Switch off' : 'Switch on'}
+                            />
+                            <span className={`flex-1 truncate ${filter.enabled ? 'text-gray-200' : 'text-gray-500 line-through'}`}>{definition.label}</span>
+                            <button className={iconButton} disabled={index === 0} onClick={() => setFilters(imageFilters.move(filters, index, -1))} title="Move up">
+                                <ChevronUp className="w-3.5 h-3.5" />
+                            </button>
+                            <button className={iconButton} disabled={index === filters.length - 1} onClick={() => setFilters(imageFilters.move(filters, index, 1))} title="Move down">
+                                <ChevronDown className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                                className={iconButton}
+                                onClick={() => setFilters([...filters.slice(0, index + 1), imageFilters.duplicate(filter), ...filters.slice(index + 1)])}
+                                title="Duplicate"
+                            >
+                                <Copy className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                                className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                                onClick={() => setFilters(filters.filter(f => f.id !== filter.id))}
+                                title="Remove"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+
+                        {filter.enabled && definition.params.map(([key, label, min, max, step, initial]) => {
+                            const value = filter.params[key] ?? initial;
+                            return (
+                                <div key={key} className="space-y-1">
+                                    <div className="flex justify-between text-xs text-gray-400">
+                                        <span>{label}</span>
+                                        <span>{value}</span>
+                                    </div>
+                                    <input
+                                        type="range" min={min} max={max} step={step}
+                                        value={value}
+                                        onChange={(e) => updateFilter(filter.id, { params: { ...filter.params, [key]: parseFloat(e.target.value) } })}
+                                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
+                                    />
+                                </div>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+
+            <select
+                value=""
+                onChange={(e) => setFilters([...filters, imageFilters.create(e.target.value as ImageFilterType)])}
+                className="w-full bg-gray-700 text-white text-xs rounded-lg p-2 border border-gray-600 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+            >
+                <option value="" disabled>+ Add filter…</option>
+                {(Object.keys(FILTER_DEFINITIONS) as ImageFilterType[]).map(type => (
+                    <option key={type} value={type}>{FILTER_DEFINITIONS[type].label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
@@ -0,0 +1,248 @@
+import React, { useEffect, useRef } from 'react';
+import { ArrowUp, ArrowDown, Waves, Minus, Shield, Eraser, Undo2, RotateCcw, X } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { heightmapEditor } from '../core/heightmapEditor';
+import type { BrushTool, BrushSettings, HeightmapEdits } from '../core/heightmapEditor';
+
+const toolOptions: [BrushTool, string, typeof ArrowUp][] = [
+    ['raise', 'Raise', ArrowUp],
+    ['lower', 'Lower', ArrowDown],
+    ['smooth', 'Smooth', Waves],
+    ['flatten', 'Flatten', Minus],
+    ['mask', 'Mask', Shield],
+    ['unmask', 'Unmask', Eraser],
+];
+
+// Strokes that can be undone while the editor is open
+const MAX_UNDO = 10;
+
+/**
+ * Paints on the heightmap over the processed image. Each finished stroke is
+ * written to the store, which rebuilds the mesh.
+ */
+export const HeightmapEditorPanel = () => {
+    const { baseHeightmap, heightmapEdits, setHeightmapEdits, imageDimensions, setIsEditingHeightmap } = useAppStore();
+    const { width, height } = imageDimensions;
+
+    const [brush, setBrush] = React.useState<BrushSettings>({ tool: 'raise', radius: 20, strength: 0.5, flattenLevel: 0.5 });
+    const [showMask, setShowMask] = React.useState(true);
+    const [undoCount, setUndoCount] = React.useState(0);
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const imageRef = useRef<ImageData | null>(null);
+    const workingRef = useRef<HeightmapEdits | null>(null);
+    const undoRef = useRef<HeightmapEdits[]>([]);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+    const ready = !!baseHeightmap && width > 0 && baseHeightmap.length === width * height;
+
+    /**
+     * Redraws heights (and the mask tint) inside a pixel rectangle.
+     */
+    const draw = (x0 = 0, y0 = 0, x1 = width - 1, y1 = height - 1) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        const image = imageRef.current;
+        const edits = workingRef.current;
+        if (!ctx || !image || !edits || !baseHeightmap) return;
+
+        const data = image.data;
+        for (let y = y0; y <= y1; y++) {
+            for (let x = x0; x <= x1; x++) {
+                const i = y * width + x;
+                const v = Math.max(0, Math.min(1, baseHeightmap[i] + edits.delta[i])) * 255;
+                const m = showMask ? edits.mask[i] / 255 * 0.5 : 0;
+                data[i * 4] = v + (255 - v) * m;
+                data[i * 4 + 1] = v * (1 - m);
+                data[i * 4 + 2] = v * (1 - m);
+                data[i * 4 + 3] = 255;
+            }
+        }
+        ctx.putImageData(image, 0, 0, x0, y0, x1 - x0 + 1, y1 - y0 + 1);
+    };
+
+    // Start from the stored edits whenever they or the image change
+    useEffect(() => {
+        if (!ready) return;
+        workingRef.current = heightmapEdits && heightmapEdits.width === width && heightmapEdits.height === height
+            ? heightmapEditor.cloneEdits(heightmapEdits)
+            : heightmapEditor.createEdits(width, height);
+        imageRef.current = new ImageData(width, height);
+        draw();
+    }, [ready, baseHeightmap, heightmapEdits, width, height, showMask]);
+
+    const toPixel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) / rect.width) * width,
+            y: ((e.clientY - rect.top) / rect.height) * height,
+        };
+    };
+
+    const paint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+        if (!workingRef.current || !baseHeightmap) return;
+        heightmapEditor.stroke(baseHeightmap, workingRef.current, from, to, brush);
+
+        const r = Math.ceil(brush.radius) + 1;
+        draw(
+            Math.max(0, Math.floor(Math.min(from.x, to.x) - r)),
+            Math.max(0, Math.floor(Math.min(from.y, to.y) - r)),
+            Math.min(width - 1, Math.ceil(Math.max(from.x, to.x) + r)),
+            Math.min(height - 1, Math.ceil(Math.max(from.y, to.y) + r))
+        );
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!workingRef.current || !baseHeightmap) return;
+        const point = toPixel(e);
+
+        // Alt-click picks the flatten height instead of painting
+        if (e.altKey) {
+            setBrush(prev => ({ ...prev, tool: 'flatten', flattenLevel: heightmapEditor.sample(baseHeightmap, workingRef.current!, point.x, point.y) }));
+            return;
+        }
+
+        undoRef.current = [...undoRef.current.slice(-(MAX_UNDO - 1)), heightmapEditor.cloneEdits(workingRef.current)];
+        setUndoCount(undoRef.current.length);
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = point;
+        paint(point, point);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPoint.current) return;
+        const point = toPixel(e);
+        paint(lastPoint.current, point);
+        lastPoint.current = point;
+    };
+
+    const handlePointerUp = () => {
+        if (!lastPoint.current || !workingRef.current) return;
+        lastPoint.current = null;
+        setHeightmapEdits(heightmapEditor.cloneEdits(workingRef.current));
+    };
+
+    const undoStroke = () => {
+        const previous = undoRef.current.pop();
+        setUndoCount(undoRef.current.length);
+        if (previous) setHeightmapEdits(heightmapEditor.isEmpty(previous) ? null : previous);
+    };
+
+    const clearEdits = () => {
+        if (workingRef.current) {
+            undoRef.current = [...undoRef.current.slice(-(MAX_UNDO - 1)), heightmapEditor.cloneEdits(workingRef.current)];
+            setUndoCount(undoRef.current.length);
+        }
+        setHeightmapEdits(null);
+    };
+
+    if (!ready) return null;
+
+    return (
+        <div className="absolute inset-y-4 left-4 w-[55%] z-20 flex flex-col bg-dark-lighter/95 backdrop-blur-sm rounded-xl border border-gray-700 shadow-2xl animate-in fade-in duration-200">
+            <div className="flex flex-wrap items-center gap-2 p-3 border-b border-gray-700">
+                <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                    {toolOptions.map(([tool, label, Icon]) => (
+                        <button
+                            key={tool}
+                            onClick={() => setBrush(prev => ({ ...prev, tool }))}
+                            className={`flex items-center gap-1 px-2 py-1 text-xs font-bold rounded-md transition-colors ${brush.tool === tool ? 'bg-primary text-white' : 'text-gray-400 hover:text-white'}`}
+                            title={label}
+                        >
+                            <Icon className="w-3.5 h-3.5" /> {label}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="flex items-center gap-2 text-xs text-gray-300">
+                    Radius
+                    <input
+                        type="range" min="2" max="150"
+                        value={brush.radius}
+                        onChange={(e) => setBrush(prev => ({ ...prev, radius: parseInt(e.target.value) }))}
+                        className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
+                    />
+                    <span className="w-10">{brush.radius}px</span>
+                </label>
+
+                <label className="flex items-center gap-2 text-xs text-gray-300">
+                    Strength
+                    <input
+                        type="range" min="0.05" max="1" step="0.05"
+                        value={brush.strength}
+                        onChange={(e) => setBrush(prev => ({ ...prev, strength: parseFloat(e.target.value) }))}
+                        className="w-20 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
+                    />
+                    <span className="w-8">{Math.round(brush.strength * 100)}%</span>
+                </label>
+
+                {brush.tool === 'flatten' && (
+                    <label className="flex items-center gap-2 text-xs text-gray-300" title="Alt-click the image to pick">
+                        Level
+                        <input
+                            type="range" min="0" max="1" step="0.01"
+                            value={brush.flattenLevel}
+                            onChange={(e) => setBrush(prev => ({ ...prev, flattenLevel: parseFloat(e.target.value) }))}
+                            className="w-20 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary"
+                        />
+                        <span className="w-8">{Math.round(brush.flattenLevel * 100)}%</span>
+                    </label>
+                )}
+
+                <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={showMask}
+                        onChange={(e) => setShowMask(e.target.checked)}
+                        className="w-4 h-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                    />
+                    <span className="text-xs text-gray-300">Show mask</span>
+                </label>
+
+                <div className="ml-auto flex gap-1">
+                    <button
+                        onClick={undoStroke}
+                        disabled={undoCount === 0}
+                        className="p-1.5 text-gray-400 hover:text-white rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Undo stroke"
+                    >
+                        <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={clearEdits}
+                        disabled={!heightmapEdits}
+                        className="p-1.5 text-gray-400 hover:text-red-400 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Clear all edits"
+                    >
+                        <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setIsEditingHeightmap(false)}
+                        className="p-1.5 text-gray-400 hover:text-white rounded-md transition-colors"
+                        title="Close editor"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+                <canvas
+                    ref={canvasRef}
+                    width={width}
+                    height={height}
+                    className="max-w-full max-h-full object-contain cursor-crosshair rounded border border-gray-700 touch-none"
+                    style={{ imageRendering: 'pixelated' }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                />
+            </div>
+
+            <p className="px-3 pb-2 text-[10px] text-gray-500">
+                Brighter = thicker. Masked (red) areas are protected from height brushes. Alt-click picks the flatten level.
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect } from 'react';
+import { AlertTriangle, FileBox, Scale3d, X } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { meshImporter } from '../core/meshImporter';
+import { JobCancelledError } from '../core/pipelineClient';
+import type { MeshReport } from '../core/meshValidator';
+import { MeshReportPanel } from './MeshReportPanel';
+
+/**
+ * Opens an existing STL, OBJ or 3MF (e.g. a customer's file) to check it,
+ * scale it to the model width and export it again.
+ */
+export const ImportPanel = () => {
+    const {
+        importedMesh, importMeshFile, scaleImportedMesh, clearImportedMesh,
+        modelSettings, isProcessing, setIsProcessing, checkMesh,
+    } = useAppStore();
+    const [report, setReport] = React.useState<MeshReport | null>(null);
+    const [checkError, setCheckError] = React.useState<string | null>(null);
+
+    // Every opened or rescaled mesh is checked right away, in the worker
+    useEffect(() => {
+        setReport(null);
+        setCheckError(null);
+        if (!importedMesh) return;
+
+        let cancelled = false;
+        checkMesh(importedMesh.geometry, { checkSelfIntersections: true })
+            .then(result => {
+                if (!cancelled) setReport(result.report);
+            })
+            .catch(err => {
+                if (cancelled || err instanceof JobCancelledError) return;
+                setCheckError(err instanceof Error ? err.message : String(err));
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [importedMesh]);
+
+    const handleMeshUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsProcessing(true);
+        try {
+            await importMeshFile(file);
+        } catch (err) {
+            console.error(err);
+            alert("Could not read mesh: " + err);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleScale = () => {
+        try {
+            scaleImportedMesh(modelSettings.width);
+        } catch (err) {
+            console.error(err);
+            alert("Could not scale mesh: " + err);
+        }
+    };
+
+    const size = importedMesh && meshImporter.dimensions(importedMesh.geometry);
+    const triangles = importedMesh && (importedMesh.geometry.index ?? importedMesh.geometry.attributes.position).count / 3;
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <FileBox className="w-4 h-4" /> Mesh Import
+            </h3>
+
+            {importedMesh && size ? (
+                <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-2 space-y-2">
+                    <div className="flex items-center gap-2 text-xs text-gray-300">
+                        <FileBox className="w-4 h-4 text-primary shrink-0" />
+                        <span className="truncate flex-1" title={importedMesh.name}>{importedMesh.name}</span>
+                        <span className="text-gray-500 uppercase">{importedMesh.format}</span>
+                        <button
+                            onClick={clearImportedMesh}
+                            className="text-gray-500 hover:text-red-400 transition-colors"
+                            title="Close the mesh and show the lithophane again"
+                        >
+                            <X className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+
+                    <div className="space-y-0.5 text-xs">
+                        <div className="flex justify-between">
+                            <span className="text-gray-400">Size</span>
+                            <span className="text-white font-mono">{size.x.toFixed(1)} × {size.y.toFixed(1)} × {size.z.toFixed(1)} mm</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-gray-400">Triangles</span>
+                            <span className="text-white font-mono">{triangles!.toLocaleString()}</span>
+                        </div>
+                    </div>
+
+                    <button
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        disabled={isProcessing || Math.abs(size.x - modelSettings.width) < 0.01}
+                        onClick={handleScale}
+                    >
+                        <Scale3d className="w-4 h-4" /> Scale to {modelSettings.width} mm Wide
+                    </button>
+
+                    {report && <MeshReportPanel report={report} repaired={false} />}
+                    {checkError && (
+                        <div className="flex items-start gap-2 text-xs text-red-400">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            Mesh check failed: {checkError}
+                        </div>
+                    )}
+                    <p className="text-[10px] text-gray-500">Replaces the lithophane in the viewer and the export below until closed</p>
+                </div>
+            ) : (
+                <label className="flex items-center justify-center gap-2 w-full py-2 border border-gray-600 border-dashed rounded-lg cursor-pointer hover:border-primary text-xs text-gray-300">
+                    <FileBox className="w-4 h-4" /> Open a mesh (STL, OBJ, 3MF)
+                    <input type="file" className="hidden" accept=".stl,.obj,.3mf" onChange={handleMeshUpload} />
+                </label>
+            )}
+        </div>
+    );
+};
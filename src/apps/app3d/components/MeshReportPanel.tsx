@@ -0,0 +1,52 @@
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import type { MeshReport } from '../core/meshValidator';
+
+interface MeshReportPanelProps {
+    report: MeshReport;
+    repaired: boolean;
+}
+
+const SELF_INTERSECTION_NOTES: Record<MeshReport['selfIntersectionCheck'], string> = {
+    done: '',
+    off: 'not checked',
+    'too-large': 'skipped (mesh too large)',
+    failed: 'check failed',
+};
+
+export const MeshReportPanel = ({ report, repaired }: MeshReportPanelProps) => {
+    const rows: [string, number | string, boolean][] = [
+        ['Triangles', report.triangleCount.toLocaleString(), true],
+        ['Vertices (welded)', report.vertexCount.toLocaleString(), true],
+        ['Open boundary edges', report.boundaryEdges, report.boundaryEdges === 0],
+        ['Non-manifold edges', report.nonManifoldEdges, report.nonManifoldEdges === 0],
+        ['Flipped normals (edges)', report.inconsistentEdges, report.inconsistentEdges === 0],
+        ['Inside-out shell', report.insideOut ? 'yes' : 'no', !report.insideOut],
+        ['Degenerate triangles', report.degenerateTriangles, report.degenerateTriangles === 0],
+        ['Duplicate triangles', report.duplicateTriangles, report.duplicateTriangles === 0],
+        [
+            'Self-intersecting triangles',
+            report.selfIntersections ?? SELF_INTERSECTION_NOTES[report.selfIntersectionCheck],
+            (report.selfIntersections ?? 0) === 0 && report.selfIntersectionCheck !== 'failed',
+        ],
+    ];
+
+    return (
+        <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-3 space-y-2 animate-in fade-in duration-200">
+            <div className={`flex items-center gap-2 text-sm font-semibold ${report.isWatertight ? 'text-green-400' : 'text-yellow-400'}`}>
+                {report.isWatertight
+                    ? <CheckCircle2 className="w-4 h-4" />
+                    : <AlertTriangle className="w-4 h-4" />}
+                {report.isWatertight ? 'Manifold & watertight' : 'Mesh has issues'}
+                {repaired && <span className="ml-auto text-[10px] uppercase tracking-wider text-primary">Repaired</span>}
+            </div>
+            <dl className="space-y-0.5">
+                {rows.map(([label, value, ok]) => (
+                    <div key={label} className="flex justify-between text-xs">
+                        <dt className="text-gray-400">{label}</dt>
+                        <dd className={ok ? 'text-gray-300' : 'text-red-400 font-semibold'}>{value}</dd>
+                    </div>
+                ))}
+            </dl>
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import { Type } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import type { BorderPattern, ModelSettings, ReliefMode } from '../types';
+
+const fontOptions = ['Arial', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana', 'Impact', 'Comic Sans MS', 'Brush Script MT'];
+
+const patternOptions: [BorderPattern, string][] = [
+    ['none', 'None'],
+    ['ridges', 'Ridges'],
+    ['beads', 'Beads'],
+    ['zigzag', 'Zigzag'],
+];
+
+type NumericOrnamentKey = 'textSize' | 'textX' | 'textY' | 'textDepth' | 'borderPatternDepth' | 'holeDiameter' | 'slotWidth' | 'slotDepth';
+
+const OrnamentSlider = ({ label, field, min, max, step, unit }: {
+    label: string;
+    field: NumericOrnamentKey;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+}) => {
+    const { modelSettings, updateModelSettings } = useAppStore();
+    return (
+        <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-300">
+                <span>{label}</span>
+                <span>{modelSettings[field]}{unit}</span>
+            </div>
+            <input
+                type="range" min={min} max={max} step={step}
+                value={modelSettings[field]}
+                onChange={(e) => updateModelSettings({ [field]: parseFloat(e.target.value) } as Partial<ModelSettings>)}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-secondary"
+            />
+        </div>
+    );
+};
+
+/**
+ * Caption text, frame pattern, hanging holes and stand slots.
+ */
+export const OrnamentPanel = () => {
+    const { modelSettings, updateModelSettings } = useAppStore();
+    const closedShape = modelSettings.shape === 'cylinder' || modelSettings.shape === 'sphere' || modelSettings.curveAngle >= 360;
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <Type className="w-4 h-4" /> Text & Ornaments
+            </h3>
+
+            <textarea
+                rows={2}
+                placeholder="Caption, e.g. a name and date"
+                value={modelSettings.text}
+                onChange={(e) => updateModelSettings({ text: e.target.value })}
+                className="w-full bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white resize-none"
+            />
+
+            {modelSettings.text.trim() !== '' && (
+                <div className="space-y-4 animate-in slide-in-from-top-2 duration-200">
+                    <div className="flex gap-2">
+                        <select
+                            value={modelSettings.textFont}
+                            onChange={(e) => updateModelSettings({ textFont: e.target.value })}
+                            className="flex-1 bg-gray-700 text-white text-xs rounded-lg p-2 border border-gray-600 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                            style={{ fontFamily: modelSettings.textFont }}
+                        >
+                            {fontOptions.map(font => (
+                                <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+                            ))}
+                        </select>
+                        <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                            {(['raised', 'engraved'] as ReliefMode[]).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => updateModelSettings({ textMode: mode })}
+                                    className={`px-2 py-1 text-xs font-bold capitalize rounded-md transition-colors ${modelSettings.textMode === mode ? 'bg-secondary text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {mode}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <OrnamentSlider label="Text Size (mm)" field="textSize" min={2} max={40} step={0.5} unit="" />
+                    <OrnamentSlider label="Text Depth (mm)" field="textDepth" min={0.2} max={5} step={0.1} unit="" />
+                    <OrnamentSlider label="Position X" field="textX" min={0} max={100} step={1} unit="%" />
+                    <OrnamentSlider label="Position Y" field="textY" min={0} max={100} step={1} unit="%" />
+                </div>
+            )}
+
+            <div className="space-y-1">
+                <span className="text-xs text-gray-300">Border Pattern</span>
+                <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                    {patternOptions.map(([pattern, label]) => (
+                        <button
+                            key={pattern}
+                            onClick={() => updateModelSettings({ borderPattern: pattern })}
+                            className={`flex-1 py-1 text-xs font-bold rounded-md transition-colors ${modelSettings.borderPattern === pattern ? 'bg-secondary text-white' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {modelSettings.borderPattern !== 'none' && modelSettings.frameWidth === 0 && (
+                    <p className="text-[10px] text-yellow-400">Patterns go on the frame; set a Frame Width</p>
+                )}
+            </div>
+            {modelSettings.borderPattern !== 'none' && (
+                <OrnamentSlider label="Pattern Depth (mm)" field="borderPatternDepth" min={0.2} max={3} step={0.1} unit="" />
+            )}
+
+            {closedShape ? (
+                <p className="text-[10px] text-gray-500">Hanging holes and stand slots need an open panel</p>
+            ) : (
+                <>
+                    <div className="space-y-1">
+                        <span className="text-xs text-gray-300">Hanging Holes</span>
+                        <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                            {[0, 1, 2].map(count => (
+                                <button
+                                    key={count}
+                                    onClick={() => updateModelSettings({ hangingHoles: count })}
+                                    className={`flex-1 py-1 text-xs font-bold rounded-md transition-colors ${modelSettings.hangingHoles === count ? 'bg-secondary text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {count === 0 ? 'None' : count}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {modelSettings.hangingHoles > 0 && (
+                        <OrnamentSlider label="Hole Diameter (mm)" field="holeDiameter" min={2} max={10} step={0.5} unit="" />
+                    )}
+
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={modelSettings.standSlots}
+                            onChange={(e) => updateModelSettings({ standSlots: e.target.checked })}
+                            className="w-4 h-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary ring-offset-gray-800"
+                        />
+                        <span className="text-sm text-gray-300">Stand slots in the bottom edge</span>
+                    </label>
+                    {modelSettings.standSlots && (
+                        <>
+                            <OrnamentSlider label="Slot Width (mm)" field="slotWidth" min={1} max={10} step={0.5} unit="" />
+                            <OrnamentSlider label="Slot Depth (mm)" field="slotDepth" min={1} max={15} step={0.5} unit="" />
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,178 @@
+import React from 'react';
+import { Library, Trash2, Upload, Download } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { presetManager } from '../core/presets';
+import { downloadBlob } from '../core/exporter';
+import type { PresetPart } from '../types';
+
+const partOptions: [PresetPart, string][] = [
+    ['image', 'Image'],
+    ['model', 'Model'],
+    ['gcode', 'CNC'],
+];
+
+/**
+ * Apply built-in or saved presets (whole or in parts), save the current
+ * settings as a preset and share presets as JSON.
+ */
+export const PresetPanel = () => {
+    const { presets, savePreset, deletePreset, importPresets, applyPreset } = useAppStore();
+
+    const [selectedId, setSelectedId] = React.useState(presets[0]?.id ?? '');
+    const [parts, setParts] = React.useState<PresetPart[]>(['image', 'model', 'gcode']);
+    const [saving, setSaving] = React.useState(false);
+    const [name, setName] = React.useState('');
+    const [description, setDescription] = React.useState('');
+    const [importError, setImportError] = React.useState<string | null>(null);
+
+    const selected = presets.find(p => p.id === selectedId);
+    const userPresets = presets.filter(p => !p.builtIn);
+
+    const togglePart = (part: PresetPart) => {
+        setParts(prev => prev.includes(part) ? prev.filter(p => p !== part) : [...prev, part]);
+    };
+
+    const handleSave = () => {
+        const preset = savePreset(name.trim(), description.trim());
+        setSelectedId(preset.id);
+        setSaving(false);
+        setName('');
+        setDescription('');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const imported = presetManager.parsePresets(await file.text());
+            importPresets(imported);
+            if (imported.length > 0) setSelectedId(imported[0].id);
+            setImportError(imported.length > 0 ? null : 'No presets in file');
+        } catch (err) {
+            console.error('Could not import presets', err);
+            setImportError(err instanceof Error ? err.message : 'Could not import presets');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                <Library className="w-4 h-4" /> Presets
+            </h3>
+
+            <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-300">
+                    <span>Preset</span>
+                    {selected && !selected.builtIn && (
+                        <button
+                            onClick={() => {
+                                deletePreset(selected.id);
+                                setSelectedId(presets[0]?.id ?? '');
+                            }}
+                            className="text-gray-500 hover:text-red-400 transition-colors"
+                            title="Delete preset"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    )}
+                </div>
+                <select
+                    value={selectedId}
+                    onChange={(e) => setSelectedId(e.target.value)}
+                    className="w-full bg-gray-700 text-white text-xs rounded-lg p-2 border border-gray-600 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                >
+                    <optgroup label="Built-in">
+                        {presets.filter(p => p.builtIn).map(preset => (
+                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                        ))}
+                    </optgroup>
+                    {userPresets.length > 0 && (
+                        <optgroup label="Saved">
+                            {userPresets.map(preset => (
+                                <option key={preset.id} value={preset.id}>{preset.name}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+                {selected?.description && <p className="text-[10px] text-gray-500">{selected.description}</p>}
+            </div>
+
+            <div className="flex gap-1 p-1 bg-gray-800 rounded-lg">
+                {partOptions.map(([part, label]) => (
+                    <button
+                        key={part}
+                        onClick={() => togglePart(part)}
+                        className={`flex-1 py-1 text-xs font-bold rounded-md transition-colors ${parts.includes(part) ? 'bg-primary text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            <button
+                className="w-full px-3 py-2 bg-secondary hover:bg-indigo-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!selected || parts.length === 0}
+                onClick={() => selected && applyPreset(selected, parts)}
+            >
+                Apply {parts.length === partOptions.length ? 'Preset' : 'Selected Parts'}
+            </button>
+
+            {!saving ? (
+                <button
+                    className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+                    onClick={() => setSaving(true)}
+                >
+                    Save Current as Preset…
+                </button>
+            ) : (
+                <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-3 space-y-3 animate-in fade-in duration-200">
+                    <input
+                        type="text" placeholder="Preset name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="w-full bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white"
+                    />
+                    <input
+                        type="text" placeholder="Description (optional)"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        className="w-full bg-gray-700 border border-gray-600 rounded p-2 text-sm text-white"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            className="flex-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+                            onClick={() => setSaving(false)}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            className="flex-1 px-3 py-2 bg-primary hover:bg-sky-600 text-white text-sm rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            disabled={name.trim() === ''}
+                            onClick={handleSave}
+                        >
+                            Save Preset
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg cursor-pointer transition-colors">
+                    <Upload className="w-4 h-4" /> Import
+                    <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} />
+                </label>
+                <button
+                    className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={userPresets.length === 0}
+                    onClick={() => downloadBlob(presetManager.exportPresets(userPresets), 'lithophane_presets.json')}
+                    title="Export saved presets"
+                >
+                    <Download className="w-4 h-4" /> Export
+                </button>
+            </div>
+            {importError && <p className="text-[10px] text-red-400">{importError}</p>}
+        </div>
+    );
+};
@@ -1,31 +1,99 @@
-import { useMemo, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Center, Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import { useAppStore } from '../store/AppContext';
-import { geometryGenerator } from '../core/geometryGenerator';
+import { lightTransmission } from '../core/lightTransmission';
 
 const Model = () => {
-    const { heightmap, modelSettings, imageDimensions } = useAppStore();
+    const { geometry: modelGeometry, carvedGeometry, colorBodies, assemblyParts, modelSettings } = useAppStore();
     const meshRef = useRef<THREE.Mesh>(null);
 
-    const geometry = useMemo(() => {
-        if (!heightmap || imageDimensions.width === 0) return null;
+    // The as-carved preview replaces the model once the worker has built it
+    const geometry = modelSettings.showCarvedPreview && carvedGeometry ? carvedGeometry : modelGeometry;
 
-        // Dispose old geometry if needed? React-three-fiber handles it usually.
-        const geo = geometryGenerator.generateMesh(
-            heightmap,
-            imageDimensions.width,
-            imageDimensions.height,
-            modelSettings
-        );
-        geo.computeBoundingBox();
+    // Transmitted light per vertex, recomputed only when the geometry or the filament changes.
+    // The colours go on a view of the model's buffers so the model itself (and its exports) stays as built.
+    const { showBacklit, attenuation, baseHeight } = modelSettings;
+    const backlitGeometry = useMemo(() => {
+        const colors = geometry && showBacklit ? lightTransmission.vertexColors(geometry, { attenuation, baseHeight }) : null;
+        if (!geometry || !colors) return null;
+
+        const view = new THREE.BufferGeometry();
+        for (const [name, attribute] of Object.entries(geometry.attributes)) view.setAttribute(name, attribute);
+        view.setIndex(geometry.index);
+        view.setAttribute('color', colors);
+        view.boundingBox = geometry.boundingBox?.clone() ?? null;
+        view.boundingSphere = geometry.boundingSphere?.clone() ?? null;
+        return view;
+    }, [geometry, showBacklit, attenuation, baseHeight]);
 
-        return geo;
-    }, [heightmap, imageDimensions, modelSettings]);
+    useEffect(() => () => backlitGeometry?.dispose(), [backlitGeometry]);
 
     if (!geometry) return null;
 
+    // Backlit: unlit, glowing by the light that passes through the wall
+    if (backlitGeometry) {
+        return (
+            <mesh ref={meshRef} geometry={backlitGeometry} rotation={[-Math.PI / 2, 0, 0]}>
+                <meshBasicMaterial
+                    vertexColors
+                    transparent
+                    opacity={0.95}
+                    side={THREE.DoubleSide}
+                    wireframe={modelSettings.showWireframe}
+                />
+            </mesh>
+        );
+    }
+
+    // Tiles or lamp box: every part where it goes in the assembly
+    if (assemblyParts && geometry === modelGeometry) {
+        return (
+            <group rotation={[-Math.PI / 2, 0, 0]}>
+                {assemblyParts.map(part => (
+                    <mesh
+                        key={part.name}
+                        geometry={part.geometry}
+                        matrixAutoUpdate={!part.placement}
+                        matrix={part.placement ? new THREE.Matrix4().fromArray(part.placement) : undefined}
+                        castShadow
+                        receiveShadow
+                    >
+                        <meshStandardMaterial
+                            color={part.color}
+                            roughness={0.4}
+                            metalness={0.1}
+                            side={THREE.DoubleSide}
+                            flatShading={!modelSettings.smoothing}
+                            wireframe={modelSettings.showWireframe}
+                        />
+                    </mesh>
+                ))}
+            </group>
+        );
+    }
+
+    // Colour lithophane: every filament body in its own colour
+    if (colorBodies && geometry === modelGeometry) {
+        return (
+            <group rotation={[-Math.PI / 2, 0, 0]}>
+                {colorBodies.map(body => (
+                    <mesh key={body.name} geometry={body.geometry} castShadow receiveShadow>
+                        <meshStandardMaterial
+                            color={body.color}
+                            roughness={0.4}
+                            metalness={0.1}
+                            side={THREE.DoubleSide}
+                            flatShading={!modelSettings.smoothing}
+                            wireframe={modelSettings.showWireframe}
+                        />
+                    </mesh>
+                ))}
+            </group>
+        );
+    }
+
     return (
         <mesh ref={meshRef} geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} castShadow receiveShadow>
             <meshStandardMaterial
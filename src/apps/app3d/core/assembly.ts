@@ -0,0 +1,372 @@
+import * as THREE from 'three';
+import type { ModelSettings } from '../types';
+import type { ExportObject } from './exporter';
+import { geometryGenerator } from './geometryGenerator';
+import type { PieceGrid, GridPiece } from './geometryGenerator';
+
+/**
+ * One printable part. Geometry is in print orientation; `placement`
+ * (column-major 4x4, null = as is) puts it where it goes in the assembled
+ * preview.
+ */
+export interface AssemblyPart extends ExportObject {
+    placement: number[] | null;
+}
+
+export const MAX_TILES = 6; // Per direction
+
+// Gap left between neighbouring tiles so they fit together
+const TILE_CLEARANCE = 0.2; // mm
+
+// Puzzle tab: head radius as a fraction of the shorter tile side, capped
+const TAB_SIZE = 0.12;
+const MAX_TAB_RADIUS = 8; // mm
+
+// Alignment pins sit in round pockets cut into the back across each seam
+const PIN_DIAMETER = 5; // mm
+const PIN_FIT = 0.2; // mm smaller than the pocket
+const PIN_MAX_DEPTH = 3; // mm
+const PIN_MIN_DEPTH = 1; // mm, thinner spots get no pin
+const PIN_WALL = 0.8; // mm kept above the pocket
+const PIN_PX_PER_MM = 10;
+
+// Lamp box base
+const LAMP_PX_PER_MM = 2;
+const LAMP_BASE_THICKNESS = 8; // mm
+const LAMP_GROOVE_DEPTH = 4; // mm the panels stand in
+const LAMP_FIT = 0.4; // mm groove play around a panel
+const LAMP_WALL = 3; // mm outside the groove and around the LED cavity
+const LAMP_FLOOR = 2; // mm under the LED cavity
+const CABLE_WIDTH = 6; // mm, hole and channel for the LED cable
+const CABLE_HEIGHT = 1.2; // mm
+
+interface Tab {
+    along: 'x' | 'y'; // Axis the tab points along
+    edge: number; // mm, position of the seam on that axis
+    centre: number; // mm, middle of the seam segment on the other axis
+    dir: 1 | -1; // Points towards increasing or decreasing coordinates
+    donor: number; // Tile the tab belongs to
+    radius: number;
+}
+
+export class AssemblyGenerator {
+
+    /**
+     * Splits the model into a tilesX x tilesY grid of parts that lock
+     * together with puzzle tabs or alignment pins. Tiles stay where they
+     * sit in the whole model; empty ones (outside an outline) are dropped.
+     */
+    public tiles(heightmap: Float32Array, widthPx: number, heightPx: number, settings: ModelSettings): AssemblyPart[] {
+        // Closed shapes have no edge to split along
+        if (settings.shape === 'cylinder' || settings.shape === 'sphere' || settings.curveAngle >= 360) {
+            const geometry = geometryGenerator.generateMesh(heightmap, widthPx, heightPx, settings);
+            return [{ name: 'Lithophane', geometry, color: settings.materialColor, placement: null }];
+        }
+
+        const tilesX = Math.max(1, Math.min(MAX_TILES, Math.round(settings.tilesX)));
+        const tilesY = Math.max(1, Math.min(MAX_TILES, Math.round(settings.tilesY)));
+        let pins = null as { count: number; depth: number } | null;
+
+        const geometries = geometryGenerator.generatePieces(heightmap, widthPx, heightPx, settings, grid => {
+            const pieces = this.splitTiles(grid, tilesX, tilesY, settings.tileJoint === 'puzzle');
+            if (settings.tileJoint !== 'pins') return pieces;
+
+            const pocket = this.pinPockets(grid, tilesX, tilesY);
+            if (!pocket) return pieces;
+            pins = { count: pocket.count, depth: pocket.depth };
+            return pieces.map(piece => ({ ...piece, pocket: pocket.pocket }));
+        });
+
+        const parts: AssemblyPart[] = [];
+        geometries.forEach((geometry, i) => {
+            if (geometry.index!.count === 0) {
+                geometry.dispose();
+                return;
+            }
+            const name = `Tile ${String.fromCharCode(65 + Math.floor(i / tilesX))}${(i % tilesX) + 1}`;
+            parts.push({ name, geometry, color: settings.materialColor, placement: null });
+        });
+
+        if (pins) {
+            const { count, depth } = pins;
+            parts.push({ name: 'Pins', geometry: this.pins(count, depth - PIN_FIT, settings), color: settings.materialColor, placement: null });
+        }
+        return parts;
+    }
+
+    /**
+     * Image wrapped around `lampSides` flat panels, plus a base with
+     * grooves the panels stand in and a cavity for an LED puck light.
+     * Panels are built lying flat and placed upright for the preview.
+     */
+    public lampBox(heightmap: Float32Array, widthPx: number, heightPx: number, settings: ModelSettings): AssemblyPart[] {
+        const sides = Math.max(4, Math.min(8, Math.round(settings.lampSides)));
+        // The bottom frame edge is what stands in the groove
+        const frameWidth = Math.max(settings.frameWidth, LAMP_GROOVE_DEPTH + 1);
+        const panelSettings: ModelSettings = {
+            ...settings,
+            width: settings.width / sides,
+            frameWidth,
+            shape: 'flat',
+            curveAngle: 0,
+            lipWidth: 0,
+            hangingHoles: 0,
+            standSlots: false,
+        };
+
+        const thickness = settings.baseHeight + settings.frameDepth;
+        const grooveWidth = thickness + LAMP_FIT;
+        const panelWidth = panelSettings.width + frameWidth * 2;
+        const panelHeight = settings.height + frameWidth * 2;
+
+        // Groove centre lines form a regular polygon, a little longer than
+        // a panel per side so neighbours clear each other at the corners
+        const side = panelWidth + grooveWidth;
+        const apothem = side / (2 * Math.tan(Math.PI / sides));
+
+        const parts: AssemblyPart[] = [];
+        for (let k = 0; k < sides; k++) {
+            const x0 = Math.round((k * widthPx) / sides);
+            const x1 = Math.round(((k + 1) * widthPx) / sides);
+            const strip = new Float32Array((x1 - x0) * heightPx);
+            for (let y = 0; y < heightPx; y++) {
+                strip.set(heightmap.subarray(y * widthPx + x0, y * widthPx + x1), y * (x1 - x0));
+            }
+
+            // The caption goes on the first panel only
+            const geometry = geometryGenerator.generateMesh(strip, x1 - x0, heightPx, { ...panelSettings, text: k === 0 ? settings.text : '' });
+
+            // Stand up (image top to +Z, relief facing out), centre the wall
+            // on the groove and turn to side k, counter-clockwise from -Y
+            const angle = (2 * Math.PI * k) / sides;
+            const placement = new THREE.Matrix4()
+                .makeTranslation(apothem * Math.sin(angle), -apothem * Math.cos(angle), LAMP_BASE_THICKNESS - LAMP_GROOVE_DEPTH + panelHeight / 2)
+                .multiply(new THREE.Matrix4().makeRotationZ(angle))
+                .multiply(new THREE.Matrix4().makeRotationX(Math.PI / 2))
+                .multiply(new THREE.Matrix4().makeTranslation(0, 0, -thickness / 2));
+
+            parts.push({ name: `Panel ${k + 1}`, geometry, color: settings.materialColor, placement: placement.toArray() });
+        }
+
+        parts.push({
+            name: 'Base',
+            geometry: this.lampBase(sides, apothem, side, grooveWidth, settings),
+            color: settings.materialColor,
+            placement: null,
+        });
+        return parts;
+    }
+
+    /**
+     * Cell masks of each tile. Seams run straight between tiles, with a
+     * round-headed tab in the middle of each seam segment when `puzzle`;
+     * cells within half the clearance of a seam are left out.
+     */
+    private splitTiles(grid: PieceGrid, tilesX: number, tilesY: number, puzzle: boolean): GridPiece[] {
+        const { totalWidth, totalHeight, segsX, segsY, cellMask } = grid;
+        const tileW = totalWidth / tilesX;
+        const tileH = totalHeight / tilesY;
+        const radius = Math.min(MAX_TAB_RADIUS, Math.min(tileW, tileH) * TAB_SIZE);
+
+        // Tabs alternate direction so every tile has both tabs and sockets
+        const tabs: Tab[] = [];
+        if (puzzle) {
+            for (let col = 1; col < tilesX; col++) {
+                for (let row = 0; row < tilesY; row++) {
+                    const dir = (col + row) % 2 === 0 ? 1 : -1;
+                    const donor = row * tilesX + (dir === 1 ? col - 1 : col);
+                    tabs.push({ along: 'x', edge: col * tileW, centre: (row + 0.5) * tileH, dir, donor, radius });
+                }
+            }
+            for (let row = 1; row < tilesY; row++) {
+                for (let col = 0; col < tilesX; col++) {
+                    const dir = (col + row) % 2 === 0 ? -1 : 1;
+                    const donor = (dir === 1 ? row - 1 : row) * tilesX + col;
+                    tabs.push({ along: 'y', edge: row * tileH, centre: (col + 0.5) * tileW, dir, donor, radius });
+                }
+            }
+        }
+
+        const owner = (x: number, y: number) => {
+            for (const tab of tabs) {
+                if (this.inTab(tab, x, y)) return tab.donor;
+            }
+            const col = Math.max(0, Math.min(tilesX - 1, Math.floor(x / tileW)));
+            const row = Math.max(0, Math.min(tilesY - 1, Math.floor(y / tileH)));
+            return row * tilesX + col;
+        };
+
+        const masks = Array.from({ length: tilesX * tilesY }, () => new Uint8Array(segsX * segsY));
+        const dx = totalWidth / segsX;
+        const dy = totalHeight / segsY;
+        const gap = TILE_CLEARANCE / 2;
+
+        for (let cy = 0; cy < segsY; cy++) {
+            for (let cx = 0; cx < segsX; cx++) {
+                const cell = cy * segsX + cx;
+                if (cellMask && !cellMask[cell]) continue;
+
+                const x = (cx + 0.5) * dx;
+                const y = (cy + 0.5) * dy;
+                const tile = owner(x, y);
+                if (owner(x - gap, y) !== tile || owner(x + gap, y) !== tile || owner(x, y - gap) !== tile || owner(x, y + gap) !== tile) continue;
+                masks[tile][cell] = 1;
+            }
+        }
+
+        return masks.map(mask => ({ cellMask: mask }));
+    }
+
+    /**
+     * Whether (x, y) mm lies on the tab: a neck from the seam into the
+     * neighbour, ending in a round head wider than the neck.
+     */
+    private inTab(tab: Tab, x: number, y: number): boolean {
+        const u = ((tab.along === 'x' ? x : y) - tab.edge) * tab.dir; // Distance past the seam
+        const v = (tab.along === 'x' ? y : x) - tab.centre;
+        const headCentre = tab.radius * 1.2;
+        if (u < 0 || u > headCentre + tab.radius) return false;
+        return Math.abs(v) <= tab.radius * 0.45 && u <= headCentre || Math.hypot(u - headCentre, v) <= tab.radius;
+    }
+
+    /**
+     * Round pockets in the back, centred on each seam segment, all cut to
+     * the depth the thinnest one allows. Spots outside the part or too
+     * thin for a pin are skipped; null when no pin fits.
+     */
+    private pinPockets(grid: PieceGrid, tilesX: number, tilesY: number): { pocket: Float32Array; count: number; depth: number } | null {
+        const { totalWidth, totalHeight, segsX, segsY, cellMask, zTop, zBottom } = grid;
+        const tileW = totalWidth / tilesX;
+        const tileH = totalHeight / tilesY;
+        const dx = totalWidth / segsX;
+        const dy = totalHeight / segsY;
+        const gridWidth = segsX + 1;
+        const radius = PIN_DIAMETER / 2;
+
+        const spots: { x: number; y: number }[] = [];
+        for (let col = 1; col < tilesX; col++) {
+            for (let row = 0; row < tilesY; row++) spots.push({ x: col * tileW, y: (row + 0.5) * tileH });
+        }
+        for (let row = 1; row < tilesY; row++) {
+            for (let col = 0; col < tilesX; col++) spots.push({ x: (col + 0.5) * tileW, y: row * tileH });
+        }
+
+        // Thinnest wall over each spot (a margin wider than the pin); -1 if
+        // the spot runs off the part
+        const thinnest = (spot: { x: number; y: number }) => {
+            const reach = radius + Math.max(dx, dy);
+            let min = Infinity;
+            for (let y = Math.floor((spot.y - reach) / dy); y <= Math.ceil((spot.y + reach) / dy); y++) {
+                for (let x = Math.floor((spot.x - reach) / dx); x <= Math.ceil((spot.x + reach) / dx); x++) {
+                    if (Math.hypot(x * dx - spot.x, y * dy - spot.y) > reach) continue;
+                    if (x < 0 || x >= segsX || y < 0 || y >= segsY) return -1;
+                    if (cellMask && !cellMask[y * segsX + x]) return -1;
+                    const id = y * gridWidth + x;
+                    min = Math.min(min, zTop[id] - zBottom[id]);
+                }
+            }
+            return min;
+        };
+
+        const usable = spots
+            .map(spot => ({ spot, wall: thinnest(spot) - PIN_WALL }))
+            .filter(({ wall }) => wall >= PIN_MIN_DEPTH);
+        if (usable.length === 0) return null;
+
+        const depth = Math.min(PIN_MAX_DEPTH, ...usable.map(({ wall }) => wall));
+        const pocket = new Float32Array(gridWidth * (segsY + 1));
+        for (const { spot } of usable) {
+            for (let y = Math.max(0, Math.floor((spot.y - radius) / dy)); y <= Math.min(segsY, Math.ceil((spot.y + radius) / dy)); y++) {
+                for (let x = Math.max(0, Math.floor((spot.x - radius) / dx)); x <= Math.min(segsX, Math.ceil((spot.x + radius) / dx)); x++) {
+                    if (Math.hypot(x * dx - spot.x, y * dy - spot.y) <= radius) pocket[y * gridWidth + x] = depth;
+                }
+            }
+        }
+
+        return { pocket, count: usable.length, depth };
+    }
+
+    /**
+     * `count` pins of the given height in a row, to print alongside the tiles.
+     */
+    private pins(count: number, height: number, settings: ModelSettings): THREE.BufferGeometry {
+        const radius = (PIN_DIAMETER - PIN_FIT) / 2;
+        const pitch = PIN_DIAMETER + 2; // mm between pin centres
+        const width = count * pitch;
+        const segsX = Math.ceil(width * PIN_PX_PER_MM);
+        const segsY = Math.ceil(pitch * PIN_PX_PER_MM);
+        const dx = width / segsX;
+        const dy = pitch / segsY;
+
+        const mask = new Uint8Array(segsX * segsY);
+        for (let cy = 0; cy < segsY; cy++) {
+            for (let cx = 0; cx < segsX; cx++) {
+                const x = (cx + 0.5) * dx;
+                const centre = (Math.floor(x / pitch) + 0.5) * pitch;
+                if (Math.hypot(x - centre, (cy + 0.5) * dy - pitch / 2) <= radius) mask[cy * segsX + cx] = 1;
+            }
+        }
+
+        const vertices = (segsX + 1) * (segsY + 1);
+        return geometryGenerator.generateHeightfield(
+            new Float32Array(vertices),
+            new Float32Array(vertices).fill(height),
+            segsX, segsY, width, pitch, mask, settings
+        );
+    }
+
+    /**
+     * Polygon base: a groove ring for the panels, an LED cavity in the
+     * middle, a cable hole through its floor and a channel underneath
+     * running out below the first panel.
+     */
+    private lampBase(sides: number, apothem: number, side: number, grooveWidth: number, settings: ModelSettings): THREE.BufferGeometry {
+        const outerApothem = apothem + grooveWidth / 2 + LAMP_WALL;
+        const extent = (2 * outerApothem) / Math.cos(Math.PI / sides) + 2;
+        const segs = Math.ceil(extent * LAMP_PX_PER_MM);
+        const step = extent / segs;
+        const cavity = Math.min(settings.ledDiameter / 2, apothem - grooveWidth / 2 - LAMP_WALL);
+
+        const normals = Array.from({ length: sides }, (_, k) => {
+            const angle = (2 * Math.PI * k) / sides;
+            return { nx: Math.sin(angle), ny: -Math.cos(angle) };
+        });
+
+        // Mesh coordinates, centred, +Y up (grid row 0 is the top)
+        const toX = (x: number) => x * step - extent / 2;
+        const toY = (y: number) => extent / 2 - y * step;
+
+        const mask = new Uint8Array(segs * segs);
+        for (let cy = 0; cy < segs; cy++) {
+            for (let cx = 0; cx < segs; cx++) {
+                const x = toX(cx + 0.5);
+                const y = toY(cy + 0.5);
+                const inside = normals.every(({ nx, ny }) => x * nx + y * ny <= outerApothem);
+                if (inside && Math.hypot(x, y) > CABLE_WIDTH / 2) mask[cy * segs + cx] = 1;
+            }
+        }
+
+        const gridWidth = segs + 1;
+        const zTop = new Float32Array(gridWidth * gridWidth).fill(LAMP_BASE_THICKNESS);
+        const zBottom = new Float32Array(gridWidth * gridWidth);
+        for (let y = 0; y <= segs; y++) {
+            for (let x = 0; x <= segs; x++) {
+                const id = y * gridWidth + x;
+                const px = toX(x);
+                const py = toY(y);
+
+                const inGroove = normals.some(({ nx, ny }) =>
+                    Math.abs(px * nx + py * ny - apothem) <= grooveWidth / 2 &&
+                    Math.abs(px * -ny + py * nx) <= side / 2 + grooveWidth / 2);
+                if (inGroove) zTop[id] = LAMP_BASE_THICKNESS - LAMP_GROOVE_DEPTH;
+                if (Math.hypot(px, py) <= cavity) zTop[id] = LAMP_FLOOR;
+
+                if (Math.abs(px) <= CABLE_WIDTH / 2 && py <= 0) zBottom[id] = CABLE_HEIGHT;
+            }
+        }
+
+        return geometryGenerator.generateHeightfield(zBottom, zTop, segs, segs, extent, extent, mask, settings);
+    }
+}
+
+export const assemblyGenerator = new AssemblyGenerator();
@@ -0,0 +1,159 @@
+import type * as THREE from 'three';
+import type { CalibrationCurve, ModelSettings } from '../types';
+import { geometryGenerator } from './geometryGenerator';
+
+const STORAGE_KEY = 'studio-pro:lithophane-calibrations';
+
+// Step wedge tile layout
+const STEP_WIDTH = 10; // mm
+const TILE_HEIGHT = 20; // mm
+const PX_PER_MM = 2;
+
+// Resolution of the brightness -> thickness lookup table
+const LUT_SIZE = 1024;
+
+export class CalibrationManager {
+
+    /**
+     * Saved curves, oldest first. Unreadable storage yields an empty list.
+     */
+    public loadCurves(): CalibrationCurve[] {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+            const curves = raw ? JSON.parse(raw) : [];
+            return Array.isArray(curves) ? curves : [];
+        } catch (err) {
+            console.error('Could not read calibration curves', err);
+            return [];
+        }
+    }
+
+    /**
+     * Inserts or replaces (by id) a curve and returns the updated list.
+     */
+    public saveCurve(curve: CalibrationCurve): CalibrationCurve[] {
+        const curves = this.loadCurves().filter(c => c.id !== curve.id);
+        curves.push(curve);
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(curves));
+        return curves;
+    }
+
+    public deleteCurve(id: string): CalibrationCurve[] {
+        const curves = this.loadCurves().filter(c => c.id !== id);
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(curves));
+        return curves;
+    }
+
+    /**
+     * Evenly spaced step thicknesses from min to max, in mm.
+     */
+    public stepThicknesses(minThickness: number, maxThickness: number, steps: number): number[] {
+        return Array.from({ length: steps }, (_, i) =>
+            minThickness + ((maxThickness - minThickness) * i) / Math.max(1, steps - 1));
+    }
+
+    /**
+     * Flat test tile with one 10 mm wide step per thickness, thinnest on the left.
+     */
+    public generateStepWedge(thicknesses: number[], settings: ModelSettings): THREE.BufferGeometry {
+        const minThickness = Math.min(...thicknesses);
+        const range = Math.max(...thicknesses) - minThickness || 1;
+
+        const widthPx = thicknesses.length * STEP_WIDTH * PX_PER_MM;
+        const heightPx = TILE_HEIGHT * PX_PER_MM;
+        const heightmap = new Float32Array(widthPx * heightPx);
+
+        for (let y = 0; y < heightPx; y++) {
+            for (let x = 0; x < widthPx; x++) {
+                const step = Math.floor(x / (STEP_WIDTH * PX_PER_MM));
+                heightmap[y * widthPx + x] = (thicknesses[step] - minThickness) / range;
+            }
+        }
+
+        return geometryGenerator.generateMesh(heightmap, widthPx, heightPx, {
+            ...settings,
+            width: thicknesses.length * STEP_WIDTH,
+            height: TILE_HEIGHT,
+            baseHeight: minThickness,
+            depth: range,
+            maxDeviation: 0.01,
+            smoothing: false,
+            frameWidth: 0,
+            curveAngle: 0,
+            shape: 'flat',
+            text: '',
+            borderPattern: 'none',
+            hangingHoles: 0,
+            standSlots: false,
+        });
+    }
+
+    /**
+     * Remaps a normalized heightmap so printed brightness follows it linearly
+     * under this curve. 0 stays the thinnest (brightest) wall, 1 the thickest;
+     * in between, the thickness is chosen whose measured brightness lies at
+     * the same fraction between the two. Returns a new array.
+     */
+    public applyCurve(heightmap: Float32Array, curve: CalibrationCurve, minThickness: number, maxThickness: number): Float32Array {
+        const brightnessAt = this.interpolator(curve);
+        const range = maxThickness - minThickness;
+        const bright = brightnessAt(minThickness);
+        const dark = brightnessAt(maxThickness);
+
+        // Value -> normalized thickness, solved by bisection on the falling curve
+        const lut = new Float32Array(LUT_SIZE + 1);
+        for (let i = 0; i <= LUT_SIZE; i++) {
+            const target = bright + (dark - bright) * (i / LUT_SIZE);
+            let lo = 0;
+            let hi = 1;
+            for (let iter = 0; iter < 24; iter++) {
+                const mid = (lo + hi) / 2;
+                if (brightnessAt(minThickness + mid * range) > target) lo = mid;
+                else hi = mid;
+            }
+            lut[i] = (lo + hi) / 2;
+        }
+
+        const result = new Float32Array(heightmap.length);
+        for (let i = 0; i < heightmap.length; i++) {
+            const pos = Math.max(0, Math.min(1, heightmap[i])) * LUT_SIZE;
+            const i0 = Math.floor(pos);
+            const i1 = Math.min(LUT_SIZE, i0 + 1);
+            result[i] = lut[i0] + (lut[i1] - lut[i0]) * (pos - i0);
+        }
+        return result;
+    }
+
+    /**
+     * Piecewise-linear brightness(thickness) through the measured points,
+     * made non-increasing (measurement noise can't make thicker walls
+     * brighter) and held flat past the ends.
+     */
+    private interpolator(curve: CalibrationCurve): (thickness: number) => number {
+        const points = curve.thicknesses
+            .map((t, i) => ({ t, b: curve.brightness[i] }))
+            .filter(p => Number.isFinite(p.t) && Number.isFinite(p.b))
+            .sort((a, b) => a.t - b.t);
+
+        for (let i = 1; i < points.length; i++) {
+            points[i].b = Math.min(points[i].b, points[i - 1].b);
+        }
+
+        return (thickness: number) => {
+            if (points.length === 0) return 0;
+            if (thickness <= points[0].t) return points[0].b;
+
+            for (let i = 1; i < points.length; i++) {
+                const a = points[i - 1];
+                const b = points[i];
+                if (thickness <= b.t) {
+                    const f = b.t > a.t ? (thickness - a.t) / (b.t - a.t) : 1;
+                    return a.b + (b.b - a.b) * f;
+                }
+            }
+            return points[points.length - 1].b;
+        };
+    }
+}
+
+export const calibrationManager = new CalibrationManager();
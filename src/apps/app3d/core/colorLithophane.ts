@@ -0,0 +1,115 @@
+import type { ModelSettings } from '../types';
+import type { ExportObject } from './exporter';
+import { geometryGenerator } from './geometryGenerator';
+import type { RgbaImage } from './imageProcessor';
+
+/**
+ * Ink coverage per image pixel (0-1) for each colour filament.
+ */
+export interface ColorMaps {
+    cyan: Float32Array;
+    magenta: Float32Array;
+    yellow: Float32Array;
+}
+
+/**
+ * Filament layers from the bottom (back of the print) up.
+ */
+export const COLOR_LAYERS: { key: keyof ColorMaps; name: string; color: string }[] = [
+    { key: 'cyan', name: 'Cyan', color: '#00aeef' },
+    { key: 'magenta', name: 'Magenta', color: '#ec008c' },
+    { key: 'yellow', name: 'Yellow', color: '#fff200' },
+];
+
+export const WHITE_LAYER = { name: 'White', color: '#ffffff' };
+
+// Layers never reach zero thickness so every body stays a closed solid.
+const MIN_LAYER = 0.001; // mm
+
+export class ColorLithophane {
+
+    /**
+     * Splits RGBA pixels into cyan/magenta/yellow coverage. The grey
+     * component is removed (under-colour removal): the white relief already
+     * provides the tonal range, the inks only add the hue.
+     */
+    public separate(imageData: RgbaImage): ColorMaps {
+        const { width, height, data } = imageData;
+        const count = width * height;
+        const cyan = new Float32Array(count);
+        const magenta = new Float32Array(count);
+        const yellow = new Float32Array(count);
+
+        for (let i = 0; i < count; i++) {
+            // Transparent pixels get no ink, same as their zero height
+            if (data[i * 4 + 3] < 10) continue;
+
+            const c = 1 - data[i * 4] / 255;
+            const m = 1 - data[i * 4 + 1] / 255;
+            const y = 1 - data[i * 4 + 2] / 255;
+            const k = Math.min(c, m, y);
+
+            cyan[i] = c - k;
+            magenta[i] = m - k;
+            yellow[i] = y - k;
+        }
+
+        return { cyan, magenta, yellow };
+    }
+
+    /**
+     * Builds one body per filament, stacked from z = 0: cyan, magenta and
+     * yellow layers (thickness = coverage * colorLayerThickness), then the
+     * white lithophane relief on top. Bodies touch without overlapping.
+     */
+    public generateBodies(
+        heightmap: Float32Array,
+        colorMaps: ColorMaps,
+        widthPx: number,
+        heightPx: number,
+        settings: ModelSettings
+    ): ExportObject[] {
+        const { depth, baseHeight, frameDepth, colorLayerThickness } = settings;
+        const count = widthPx * heightPx;
+        const bodies: ExportObject[] = [];
+
+        let lower = new Float32Array(count);
+        let frameLower = 0;
+
+        for (const layer of COLOR_LAYERS) {
+            const coverage = colorMaps[layer.key];
+            const upper = new Float32Array(count);
+            for (let i = 0; i < count; i++) {
+                upper[i] = lower[i] + Math.max(MIN_LAYER, coverage[i] * colorLayerThickness);
+            }
+            const frameUpper = frameLower + MIN_LAYER;
+
+            bodies.push({
+                name: layer.name,
+                color: layer.color,
+                geometry: geometryGenerator.generateSlab(lower, upper, widthPx, heightPx, settings, frameLower, frameUpper),
+            });
+
+            lower = upper;
+            frameLower = frameUpper;
+        }
+
+        const relief = settings.smoothing && settings.smoothingIterations > 0
+            ? geometryGenerator.smoothHeightmap(heightmap, widthPx, heightPx, settings.smoothingIterations)
+            : heightmap;
+
+        const upper = new Float32Array(count);
+        for (let i = 0; i < count; i++) {
+            upper[i] = lower[i] + baseHeight + relief[i] * depth;
+        }
+
+        bodies.push({
+            ...WHITE_LAYER,
+            geometry: geometryGenerator.generateSlab(lower, upper, widthPx, heightPx, settings, frameLower, frameLower + baseHeight + frameDepth, true),
+        });
+
+        return bodies;
+    }
+}
+
+export const colorLithophane = new ColorLithophane();
@@ -0,0 +1,137 @@
+import { pngDecoder } from './png';
+
+/**
+ * Depth image at full precision: one value per pixel, 0 (far) to 1 (near),
+ * row 0 at the top.
+ */
+export interface DepthMap {
+    width: number;
+    height: number;
+    data: Float32Array;
+}
+
+export class DepthMapLoader {
+
+    /**
+     * Reads a depth image. 16-bit (and 8-bit) PNGs and PFM float maps keep
+     * their full precision; other formats go through the browser's decoder
+     * at 8 bits.
+     */
+    public async decode(file: Blob): Promise<DepthMap> {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+
+        if (pngDecoder.isPng(bytes)) return this.decodePng(bytes);
+        if (bytes[0] === 0x50 && (bytes[1] === 0x66 || bytes[1] === 0x46)) return this.decodePfm(bytes); // "Pf" / "PF"
+
+        const bitmap = await createImageBitmap(file);
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(bitmap, 0, 0);
+        bitmap.close();
+        const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+        const depth = new Float32Array(canvas.width * canvas.height);
+        for (let i = 0; i < depth.length; i++) {
+            depth[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+        }
+        return { width: canvas.width, height: canvas.height, data: depth };
+    }
+
+    /**
+     * Bilinear resample to width x height.
+     */
+    public resample(depth: DepthMap, width: number, height: number): Float32Array {
+        const result = new Float32Array(width * height);
+        const { data, width: sw, height: sh } = depth;
+
+        for (let y = 0; y < height; y++) {
+            const fy = Math.max(0, Math.min(sh - 1, ((y + 0.5) * sh) / height - 0.5));
+            const y0 = Math.floor(fy);
+            const y1 = Math.min(sh - 1, y0 + 1);
+            const ty = fy - y0;
+            for (let x = 0; x < width; x++) {
+                const fx = Math.max(0, Math.min(sw - 1, ((x + 0.5) * sw) / width - 0.5));
+                const x0 = Math.floor(fx);
+                const x1 = Math.min(sw - 1, x0 + 1);
+                const tx = fx - x0;
+                const top = data[y0 * sw + x0] * (1 - tx) + data[y0 * sw + x1] * tx;
+                const bottom = data[y1 * sw + x0] * (1 - tx) + data[y1 * sw + x1] * tx;
+                result[y * width + x] = top * (1 - ty) + bottom * ty;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 8-bit grayscale rendering, for previews.
+     */
+    public toImageData(depth: DepthMap): ImageData {
+        const image = new ImageData(depth.width, depth.height);
+        for (let i = 0; i < depth.data.length; i++) {
+            const v = Math.round(depth.data[i] * 255);
+            image.data[i * 4] = v;
+            image.data[i * 4 + 1] = v;
+            image.data[i * 4 + 2] = v;
+            image.data[i * 4 + 3] = 255;
+        }
+        return image;
+    }
+
+    private async decodePng(bytes: Uint8Array): Promise<DepthMap> {
+        const { width, height, maxSample, data } = await pngDecoder.decode(bytes);
+        const depth = new Float32Array(width * height);
+        for (let i = 0; i < depth.length; i++) {
+            // Alpha ignored; grey images have r = g = b
+            depth[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / maxSample;
+        }
+        return { width, height, data: depth };
+    }
+
+    /**
+     * Portable float map: text header, then 32-bit floats bottom row first.
+     * Values are normalized to 0-1 over their range.
+     */
+    private decodePfm(bytes: Uint8Array): DepthMap {
+        // Header: "Pf"/"PF", dimensions, scale (negative = little-endian), whitespace separated
+        let offset = 0;
+        const tokens: string[] = [];
+        while (tokens.length < 4 && offset < bytes.length) {
+            while (offset < bytes.length && /\s/.test(String.fromCharCode(bytes[offset]))) offset++;
+            let token = '';
+            while (offset < bytes.length && !/\s/.test(String.fromCharCode(bytes[offset]))) token += String.fromCharCode(bytes[offset++]);
+            tokens.push(token);
+        }
+        offset++; // Single whitespace before the data
+
+        const channels = tokens[0] === 'PF' ? 3 : 1;
+        const width = parseInt(tokens[1]);
+        const height = parseInt(tokens[2]);
+        const littleEndian = parseFloat(tokens[3]) < 0;
+        if (!(width > 0 && height > 0) || offset + width * height * channels * 4 > bytes.length) {
+            throw new Error('Damaged PFM file');
+        }
+
+        const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+        const depth = new Float32Array(width * height);
+        let min = Infinity, max = -Infinity;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const p = ((height - 1 - y) * width + x) * channels * 4;
+                const v = channels === 3
+                    ? 0.299 * view.getFloat32(p, littleEndian) + 0.587 * view.getFloat32(p + 4, littleEndian) + 0.114 * view.getFloat32(p + 8, littleEndian)
+                    : view.getFloat32(p, littleEndian);
+                const value = Number.isFinite(v) ? v : 0;
+                depth[y * width + x] = value;
+                if (value < min) min = value;
+                if (value > max) max = value;
+            }
+        }
+
+        const range = max - min || 1;
+        for (let i = 0; i < depth.length; i++) depth[i] = (depth[i] - min) / range;
+        return { width, height, data: depth };
+    }
+}
+
+export const depthMapLoader = new DepthMapLoader();
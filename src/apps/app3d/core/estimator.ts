@@ -0,0 +1,141 @@
+import type * as THREE from 'three';
+import type { ModelSettings } from '../types';
+
+export interface PrintEstimate {
+    volume: number; // mm³
+    filamentLength: number; // mm
+    weight: number; // g
+    layers: number;
+    seconds: number;
+}
+
+export interface CncEstimate {
+    seconds: number;
+    cutLength: number; // mm at feed rates
+    rapidLength: number; // mm at the rapid rate
+}
+
+/**
+ * Common filaments and their densities in g/cm³.
+ */
+export const FILAMENTS: { name: string; density: number }[] = [
+    { name: 'PLA', density: 1.24 },
+    { name: 'PETG', density: 1.27 },
+    { name: 'ABS', density: 1.04 },
+    { name: 'ASA', density: 1.07 },
+    { name: 'TPU', density: 1.21 },
+];
+
+// Extrusion width of a typical 0.4 mm nozzle
+const LINE_WIDTH = 0.45; // mm
+
+// Travel, retraction and layer change per layer
+const LAYER_OVERHEAD = 1.5; // s
+
+// Acceleration and slow-downs on short moves keep the average below the set speed
+const SPEED_EFFICIENCY = 0.7;
+
+export class PrintEstimator {
+
+    /**
+     * Enclosed volume in mm³ (sum of signed tetrahedra against the origin).
+     * Only meaningful for closed meshes.
+     */
+    public volume(geometry: THREE.BufferGeometry): number {
+        const position = geometry.attributes.position;
+        const index = geometry.index;
+        const count = index ? index.count : position.count;
+        let sum = 0;
+
+        for (let i = 0; i < count; i += 3) {
+            const a = index ? index.getX(i) : i;
+            const b = index ? index.getX(i + 1) : i + 1;
+            const c = index ? index.getX(i + 2) : i + 2;
+            const ax = position.getX(a), ay = position.getY(a), az = position.getZ(a);
+            const bx = position.getX(b), by = position.getY(b), bz = position.getZ(b);
+            const cx = position.getX(c), cy = position.getY(c), cz = position.getZ(c);
+            sum += ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx);
+        }
+
+        return Math.abs(sum) / 6;
+    }
+
+    /**
+     * Filament use and print time for the parts, each printed solid in the
+     * orientation it is exported in. Time is extruded volume over the
+     * volumetric rate plus a fixed cost per layer, so expect it to be
+     * within a slicer's figure by a margin, not to the minute.
+     */
+    public estimatePrint(geometries: THREE.BufferGeometry[], settings: ModelSettings): PrintEstimate {
+        const { filamentDensity, filamentDiameter, layerHeight, printSpeed } = settings;
+        const rate = Math.max(1e-6, printSpeed * SPEED_EFFICIENCY * LINE_WIDTH * layerHeight); // mm³/s
+
+        let volume = 0;
+        let layers = 0;
+        for (const geometry of geometries) {
+            if (!geometry.boundingBox) geometry.computeBoundingBox();
+            const { min, max } = geometry.boundingBox!;
+            volume += this.volume(geometry);
+            layers += Math.ceil((max.z - min.z) / Math.max(0.01, layerHeight));
+        }
+
+        const filamentArea = Math.PI * (filamentDiameter / 2) ** 2;
+        return {
+            volume,
+            filamentLength: volume / filamentArea,
+            weight: (volume / 1000) * filamentDensity,
+            layers,
+            seconds: volume / rate + layers * LAYER_OVERHEAD,
+        };
+    }
+
+    /**
+     * Run time of a G-code program: every move's length at its feed rate
+     * (G0 at `rapidRate`), both in mm/min. Ignores acceleration.
+     */
+    public estimateCnc(program: string, rapidRate: number): CncEstimate {
+        const position = { X: 0, Y: 0, Z: 0 };
+        let feed = 0;
+        let rapid = true;
+        let seconds = 0;
+        let cutLength = 0;
+        let rapidLength = 0;
+
+        for (const raw of program.split('\n')) {
+            const line = raw.replace(/\(.*?\)/g, '').trim().toUpperCase();
+            if (line === '') continue;
+
+            const target = { ...position };
+            let moved = false;
+            for (const [, letter, value] of line.matchAll(/([GXYZF])\s*(-?\d*\.?\d+)/g)) {
+                const n = parseFloat(value);
+                if (letter === 'G') {
+                    if (n === 0) rapid = true;
+                    else if (n === 1) rapid = false;
+                } else if (letter === 'F') {
+                    feed = n;
+                } else {
+                    target[letter as 'X' | 'Y' | 'Z'] = n;
+                    moved = true;
+                }
+            }
+            if (!moved) continue;
+
+            const distance = Math.hypot(target.X - position.X, target.Y - position.Y, target.Z - position.Z);
+            Object.assign(position, target);
+            if (distance === 0) continue;
+
+            if (rapid) {
+                rapidLength += distance;
+                seconds += (distance / Math.max(1, rapidRate)) * 60;
+            } else {
+                cutLength += distance;
+                seconds += (distance / Math.max(1, feed)) * 60;
+            }
+        }
+
+        return { seconds, cutLength, rapidLength };
+    }
+}
+
+export const printEstimator = new PrintEstimator();
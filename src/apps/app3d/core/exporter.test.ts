@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { stlExporter } from './exporter';
+import { geometryGenerator } from './geometryGenerator';
+import { defaultModelSettings } from '../store/defaults';
+
+const HEADER_BYTES = 80;
+const TRIANGLE_BYTES = 50; // Normal, three vertices (12 floats) and a 2-byte attribute
+
+const lithophane = () => {
+    const heightmap = Float32Array.from({ length: 6 * 4 }, (_, i) => (i % 5) / 4);
+    return geometryGenerator.generateMesh(heightmap, 6, 4, { ...defaultModelSettings, width: 30, height: 20, maxDeviation: 0 });
+};
+
+/**
+ * Minimal binary STL reader, independent of the exporter.
+ */
+const readStl = (buffer: ArrayBuffer) => {
+    const view = new DataView(buffer);
+    const count = view.getUint32(HEADER_BYTES, true);
+    const triangles = [];
+    for (let t = 0; t < count; t++) {
+        const offset = HEADER_BYTES + 4 + t * TRIANGLE_BYTES;
+        const floats = Array.from({ length: 12 }, (_, k) => view.getFloat32(offset + k * 4, true));
+        triangles.push({
+            normal: floats.slice(0, 3),
+            vertices: floats.slice(3),
+            attribute: view.getUint16(offset + 48, true),
+        });
+    }
+    return { count, triangles };
+};
+
+describe('STLExporter.parse', () => {
+    it('writes a header, the triangle count and 50 bytes per triangle', () => {
+        const geometry = lithophane();
+        const buffer = stlExporter.parse(geometry);
+        const triangles = geometry.index!.count / 3;
+
+        expect(buffer.byteLength).toBe(HEADER_BYTES + 4 + triangles * TRIANGLE_BYTES);
+        expect(new DataView(buffer).getUint32(HEADER_BYTES, true)).toBe(triangles);
+        expect(new Uint8Array(buffer, 0, HEADER_BYTES).every(b => b === 0)).toBe(true);
+    });
+
+    it('round-trips every triangle in index order with unit outward normals', () => {
+        const geometry = lithophane();
+        const expected = geometry.toNonIndexed().attributes.position;
+        const { count, triangles } = readStl(stlExporter.parse(geometry));
+
+        expect(count * 3).toBe(expected.count);
+        triangles.forEach(({ normal, vertices, attribute }, t) => {
+            for (let v = 0; v < 3; v++) {
+                expect(vertices[v * 3]).toBe(expected.getX(t * 3 + v));
+                expect(vertices[v * 3 + 1]).toBe(expected.getY(t * 3 + v));
+                expect(vertices[v * 3 + 2]).toBe(expected.getZ(t * 3 + v));
+            }
+
+            // The normal follows the counter-clockwise winding
+            const [a, b, c] = [0, 1, 2].map(v => new THREE.Vector3().fromArray(vertices, v * 3));
+            const face = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a)).normalize();
+            expect(Math.hypot(...normal)).toBeCloseTo(1, 5);
+            expect(face.dot(new THREE.Vector3().fromArray(normal))).toBeCloseTo(1, 5);
+            expect(attribute).toBe(0);
+        });
+    });
+
+    it('reads back with three.js STLLoader', () => {
+        const geometry = lithophane();
+        const loaded = new STLLoader().parse(stlExporter.parse(geometry));
+        const expected = geometry.toNonIndexed().attributes.position;
+
+        expect(loaded.attributes.position.count).toBe(expected.count);
+        expect(Array.from(loaded.attributes.position.array)).toEqual(Array.from(expected.array));
+    });
+
+    it('exports non-indexed geometry as is', () => {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0, 1, 0, 0, 0, 1, 0], 3));
+        const { count, triangles } = readStl(stlExporter.parse(geometry));
+
+        expect(count).toBe(1);
+        expect(triangles[0].vertices).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+        expect(triangles[0].normal).toEqual([0, 0, 1]);
+    });
+});
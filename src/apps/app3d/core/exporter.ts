@@ -1,4 +1,36 @@
 import * as THREE from 'three';
+import JSZip from 'jszip';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+/**
+ * One body of a multi-part export.
+ */
+export interface ExportObject {
+    name: string;
+    geometry: THREE.BufferGeometry;
+    color: string; // CSS hex, e.g. '#e2e8f0'
+}
+
+/**
+ * Returns the geometry as shared vertices + triangle indices, welding
+ * non-indexed input so formats that need connectivity (3MF, OBJ) get it.
+ */
+const toIndexed = (geometry: THREE.BufferGeometry): { positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute; index: ArrayLike<number> } => {
+    let geo = geometry;
+    if (!geo.index) {
+        geo = geometry.clone();
+        for (const name of Object.keys(geo.attributes)) {
+            if (name !== 'position') geo.deleteAttribute(name);
+        }
+        geo = mergeVertices(geo);
+    }
+    return { positions: geo.attributes.position, index: geo.index!.array };
+};
+
+const num = (n: number) => n.toFixed(4);
+
+const xmlEscape = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
 export class STLExporter {
 
@@ -69,3 +101,116 @@ export class STLExporter {
 }
 
 export const stlExporter = new STLExporter();
+
+export class ThreeMFExporter {
+
+    /**
+     * Builds a 3MF package (zipped XML). Geometry is in millimetres and every
+     * object references its own base material carrying the display colour.
+     */
+    public async parse(objects: ExportObject[]): Promise<Blob> {
+        const zip = new JSZip();
+
+        zip.file('[Content_Types].xml',
+            '<?xml version="1.0" encoding="UTF-8"?>\n' +
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>' +
+            '</Types>', { createFolders: false });
+
+        zip.file('_rels/.rels',
+            '<?xml version="1.0" encoding="UTF-8"?>\n' +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>' +
+            '</Relationships>', { createFolders: false });
+
+        zip.file('3D/3dmodel.model', this.buildModel(objects), { createFolders: false });
+
+        return zip.generateAsync({
+            type: 'blob',
+            mimeType: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml',
+            compression: 'DEFLATE',
+        });
+    }
+
+    private buildModel(objects: ExportObject[]): string {
+        const parts: string[] = [];
+        parts.push('<?xml version="1.0" encoding="UTF-8"?>\n');
+        parts.push('<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">\n');
+        parts.push('<metadata name="Application">Studio Pro</metadata>\n');
+        parts.push('<resources>\n');
+
+        // Base materials first (id 1), objects from id 2
+        parts.push('<basematerials id="1">\n');
+        for (const obj of objects) {
+            parts.push(`<base name="${xmlEscape(obj.name)}" displaycolor="${obj.color.toUpperCase()}FF"/>\n`);
+        }
+        parts.push('</basematerials>\n');
+
+        objects.forEach((obj, i) => {
+            const { positions, index } = toIndexed(obj.geometry);
+
+            parts.push(`<object id="${i + 2}" type="model" name="${xmlEscape(obj.name)}" pid="1" pindex="${i}">\n<mesh>\n<vertices>\n`);
+            for (let v = 0; v < positions.count; v++) {
+                parts.push(`<vertex x="${num(positions.getX(v))}" y="${num(positions.getY(v))}" z="${num(positions.getZ(v))}"/>\n`);
+            }
+            parts.push('</vertices>\n<triangles>\n');
+            for (let t = 0; t + 2 < index.length; t += 3) {
+                parts.push(`<triangle v1="${index[t]}" v2="${index[t + 1]}" v3="${index[t + 2]}"/>\n`);
+            }
+            parts.push('</triangles>\n</mesh>\n</object>\n');
+        });
+
+        parts.push('</resources>\n<build>\n');
+        objects.forEach((_, i) => parts.push(`<item objectid="${i + 2}"/>\n`));
+        parts.push('</build>\n</model>\n');
+
+        return parts.join('');
+    }
+}
+
+export const threeMFExporter = new ThreeMFExporter();
+
+export class OBJExporter {
+
+    /**
+     * Writes Wavefront OBJ with a companion MTL library. OBJ has no unit
+     * field; coordinates are millimetres, noted in the header comment.
+     */
+    public parse(objects: ExportObject[], mtlFileName: string): { obj: string; mtl: string } {
+        const obj: string[] = ['# Studio Pro lithophane', '# units: millimetres', `mtllib ${mtlFileName}`];
+        const mtl: string[] = ['# Studio Pro lithophane materials'];
+        let vertexOffset = 1; // OBJ indices are 1-based and global
+
+        objects.forEach((object, i) => {
+            const material = `material_${i}`;
+            const color = new THREE.Color(object.color).getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+            mtl.push('', `newmtl ${material}`, `Kd ${num(color.r)} ${num(color.g)} ${num(color.b)}`, 'Ka 0 0 0', 'Ks 0 0 0', 'd 1', 'illum 1');
+
+            const { positions, index } = toIndexed(object.geometry);
+            obj.push(`o ${object.name.replace(/\s+/g, '_')}`, `usemtl ${material}`);
+            for (let v = 0; v < positions.count; v++) {
+                obj.push(`v ${num(positions.getX(v))} ${num(positions.getY(v))} ${num(positions.getZ(v))}`);
+            }
+            for (let t = 0; t + 2 < index.length; t += 3) {
+                obj.push(`f ${index[t] + vertexOffset} ${index[t + 1] + vertexOffset} ${index[t + 2] + vertexOffset}`);
+            }
+            vertexOffset += positions.count;
+        });
+
+        return { obj: obj.join('\n') + '\n', mtl: mtl.join('\n') + '\n' };
+    }
+}
+
+export const objExporter = new OBJExporter();
+
+/**
+ * Saves a blob through a temporary download link.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+};
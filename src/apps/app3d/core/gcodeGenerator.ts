@@ -0,0 +1,161 @@
+import type { ModelSettings, GCodeSettings } from '../types';
+import type { SurfaceGrid } from './toolCompensation';
+import { toolCompensator } from './toolCompensation';
+
+interface ToolpathPoint {
+    x: number;
+    y: number;
+    z: number;
+}
+
+const fmt = (n: number) => n.toFixed(3);
+
+const toolNames: Record<GCodeSettings['toolType'], string> = {
+    flat: 'flat end mill',
+    ball: 'ball-nose end mill',
+    vbit: 'V-bit',
+};
+
+export class GCodeGenerator {
+
+    /**
+     * Generates raster roughing and finishing toolpaths for the lithophane relief.
+     * Machine origin is the lower-left corner of the part, Z0 is the top of the stock.
+     */
+    public generate(
+        heightmap: Float32Array,
+        widthPx: number,
+        heightPx: number,
+        model: ModelSettings,
+        gcode: GCodeSettings
+    ): string {
+        const surface = toolCompensator.buildSurfaceGrid(heightmap, widthPx, heightPx, model, gcode);
+        const tip = toolCompensator.toolTipSurface(surface, gcode);
+
+        let stockTop = -Infinity;
+        let lowest = Infinity;
+        for (let i = 0; i < surface.data.length; i++) {
+            if (surface.data[i] > stockTop) stockTop = surface.data[i];
+            if (tip.data[i] < lowest) lowest = tip.data[i];
+        }
+
+        const lines: string[] = [];
+        const totalWidth = model.width + model.frameWidth * 2;
+        const totalHeight = model.height + model.frameWidth * 2;
+
+        lines.push('(Studio Pro lithophane carving)');
+        lines.push(`(Part: ${fmt(totalWidth)} x ${fmt(totalHeight)} mm, stock thickness ${fmt(stockTop)} mm)`);
+        lines.push(`(Tool: ${fmt(gcode.toolDiameter)} mm ${toolNames[gcode.toolType]})`);
+        lines.push('(Origin: X0 Y0 = lower-left corner, Z0 = top of stock)');
+        lines.push('G21 (millimetres)');
+        lines.push('G90 (absolute positioning)');
+        lines.push('G17 (XY plane)');
+        lines.push(`G0 Z${fmt(gcode.safeHeight)}`);
+        lines.push(`M3 S${Math.round(gcode.spindleSpeed)}`);
+
+        // --- ROUGHING ---
+        // Step down in passDepth increments, clearing everything above the
+        // finished surface plus the stock allowance at each level.
+        const levels: number[] = [];
+        if (gcode.passDepth > 0) {
+            for (let z = stockTop - gcode.passDepth; z > lowest; z -= gcode.passDepth) {
+                levels.push(z);
+            }
+        }
+        levels.push(lowest);
+
+        const roughRows = this.rowIndices(surface, gcode.toolDiameter * gcode.stepOver);
+        let previousLevel = stockTop;
+
+        levels.forEach((level, pass) => {
+            lines.push(`(Roughing pass ${pass + 1}/${levels.length} at Z${fmt(level - stockTop)})`);
+
+            for (const row of roughRows) {
+                const y = surface.originY + row * surface.cellSize;
+                let segment: ToolpathPoint[] = [];
+
+                for (let col = 0; col < surface.cols; col++) {
+                    const target = tip.data[row * surface.cols + col] + gcode.stockToLeave;
+                    if (target < previousLevel) {
+                        segment.push({
+                            x: surface.originX + col * surface.cellSize,
+                            y,
+                            z: Math.max(target, level) - stockTop,
+                        });
+                    } else if (segment.length > 0) {
+                        this.emitSegment(lines, segment, gcode);
+                        segment = [];
+                    }
+                }
+                if (segment.length > 0) this.emitSegment(lines, segment, gcode);
+            }
+
+            previousLevel = level;
+        });
+
+        // --- FINISHING ---
+        // Zig-zag raster following the tool tip surface with no allowance.
+        lines.push('(Finishing pass)');
+        const finishRows = this.rowIndices(surface, gcode.toolDiameter * gcode.finishStepOver);
+
+        finishRows.forEach((row, i) => {
+            const y = surface.originY + row * surface.cellSize;
+            const segment: ToolpathPoint[] = [];
+
+            for (let c = 0; c < surface.cols; c++) {
+                const col = i % 2 === 0 ? c : surface.cols - 1 - c;
+                segment.push({
+                    x: surface.originX + col * surface.cellSize,
+                    y,
+                    z: tip.data[row * surface.cols + col] - stockTop,
+                });
+            }
+            this.emitSegment(lines, segment, gcode);
+        });
+
+        lines.push(`G0 Z${fmt(gcode.safeHeight)}`);
+        lines.push('M5');
+        lines.push('G0 X0 Y0');
+        lines.push('M30');
+
+        return lines.join('\n') + '\n';
+    }
+
+    private rowIndices(surface: SurfaceGrid, spacing: number): number[] {
+        const step = Math.max(1, Math.round(spacing / surface.cellSize));
+        const rows: number[] = [];
+        for (let row = 0; row < surface.rows; row += step) rows.push(row);
+        if (rows[rows.length - 1] !== surface.rows - 1) rows.push(surface.rows - 1);
+        return rows;
+    }
+
+    /**
+     * Retract, rapid to the segment start, plunge and feed along the points.
+     * Points lying on a straight line with their neighbours are dropped.
+     */
+    private emitSegment(lines: string[], points: ToolpathPoint[], gcode: GCodeSettings) {
+        const first = points[0];
+        const retract = `G0 Z${fmt(gcode.safeHeight)}`;
+        if (lines[lines.length - 1] !== retract) lines.push(retract);
+        lines.push(`G0 X${fmt(first.x)} Y${fmt(first.y)}`);
+        lines.push(`G1 Z${fmt(first.z)} F${Math.round(gcode.plungeRate)}`);
+
+        let feedSet = false;
+        for (let i = 1; i < points.length; i++) {
+            const p = points[i];
+            const next = points[i + 1];
+            if (next) {
+                const prev = points[i - 1];
+                const slopeIn = (p.z - prev.z) / ((p.x - prev.x) || 1);
+                const slopeOut = (next.z - p.z) / ((next.x - p.x) || 1);
+                if (Math.abs(slopeIn - slopeOut) < 1e-4) continue;
+            }
+            lines.push(`G1 X${fmt(p.x)} Z${fmt(p.z)}${feedSet ? '' : ` F${Math.round(gcode.feedRate)}`}`);
+            feedSet = true;
+        }
+
+        lines.push(retract);
+    }
+}
+
+export const gcodeGenerator = new GCodeGenerator();
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as THREE from 'three';
+import { geometryGenerator } from './geometryGenerator';
+import { meshValidator } from './meshValidator';
+import { ornaments } from './ornaments';
+import { defaultModelSettings } from '../store/defaults';
+import type { ModelSettings } from '../types';
+
+const W = 8;
+const H = 6;
+
+const settings = (overrides: Partial<ModelSettings> = {}): ModelSettings => ({
+    ...defaultModelSettings,
+    width: 40,
+    height: 30,
+    depth: 3,
+    baseHeight: 1,
+    maxDeviation: 0, // Full-resolution grid unless a test says otherwise
+    ...overrides,
+});
+
+// Diagonal ramp from 0 (top left) to 1 (bottom right)
+const ramp = () => Float32Array.from({ length: W * H }, (_, i) => ((i % W) + Math.floor(i / W)) / (W + H - 2));
+
+const bounds = (geometry: THREE.BufferGeometry) => {
+    geometry.computeBoundingBox();
+    return geometry.boundingBox!;
+};
+
+const expectWatertight = (geometry: THREE.BufferGeometry) => {
+    const report = meshValidator.validate(geometry);
+    expect(report.boundaryEdges).toBe(0);
+    expect(report.nonManifoldEdges).toBe(0);
+    expect(report.inconsistentEdges).toBe(0);
+    expect(report.degenerateTriangles).toBe(0);
+    expect(report.isWatertight).toBe(true);
+};
+
+describe('GeometryGenerator.generateMesh', () => {
+    it('builds a top and a bottom vertex per grid vertex', () => {
+        const geometry = geometryGenerator.generateMesh(ramp(), W, H, settings());
+
+        expect(geometry.attributes.position.count).toBe(2 * (W + 1) * (H + 1));
+        // Top and bottom: two triangles per cell each; walls: two per edge segment
+        expect(geometry.index!.count / 3).toBe(4 * W * H + 4 * (W + H));
+        expect(geometry.attributes.thickness.count).toBe(geometry.attributes.position.count);
+    });
+
+    it('spans width x height centred on the origin, base to full relief', () => {
+        const geometry = geometryGenerator.generateMesh(ramp(), W, H, settings());
+        const { min, max } = bounds(geometry);
+
+        expect(min.x).toBeCloseTo(-20);
+        expect(max.x).toBeCloseTo(20);
+        expect(min.y).toBeCloseTo(-15);
+        expect(max.y).toBeCloseTo(15);
+        expect(min.z).toBeCloseTo(0);
+        expect(max.z).toBeCloseTo(1 + 3); // baseHeight + depth at the brightest pixel
+    });
+
+    it('adds the frame around the image at frame height', () => {
+        const geometry = geometryGenerator.generateMesh(new Float32Array(W * H), W, H, settings({ frameWidth: 5, frameDepth: 2.5 }));
+        const { min, max } = bounds(geometry);
+
+        expect(max.x - min.x).toBeCloseTo(50);
+        expect(max.y - min.y).toBeCloseTo(40);
+        expect(max.z).toBeCloseTo(1 + 2.5);
+        expectWatertight(geometry);
+    });
+
+    it('is watertight on the full grid and the adaptive one', () => {
+        expectWatertight(geometryGenerator.generateMesh(ramp(), W, H, settings()));
+
+        // A flat image collapses into large cells under the adaptive grid
+        const flat = new Float32Array(W * H).fill(0.5);
+        const uniform = geometryGenerator.generateMesh(flat, W, H, settings());
+        const adaptive = geometryGenerator.generateMesh(flat, W, H, settings({ maxDeviation: 0.05 }));
+        expect(adaptive.index!.count).toBeLessThan(uniform.index!.count);
+        expectWatertight(adaptive);
+    });
+
+    it('wraps a curved panel onto a cylinder of radius width / angle', () => {
+        const curveAngle = 90;
+        const geometry = geometryGenerator.generateMesh(ramp(), W, H, settings({ curveAngle }));
+        const radius = 40 / ((curveAngle * Math.PI) / 180);
+        const position = geometry.attributes.position;
+        const thickness = geometry.attributes.thickness;
+
+        // Vertices alternate top, bottom; the axis runs along Y through z = -radius
+        for (let i = 0; i < position.count; i += 2) {
+            const top = Math.hypot(position.getX(i), position.getZ(i) + radius);
+            const bottom = Math.hypot(position.getX(i + 1), position.getZ(i + 1) + radius);
+            expect(bottom).toBeCloseTo(radius, 3);
+            expect(top - bottom).toBeCloseTo(thickness.getX(i), 3);
+        }
+        expectWatertight(geometry);
+    });
+
+    it('closes the seam of a cylinder lamp', () => {
+        const geometry = geometryGenerator.generateMesh(ramp(), W, H, settings({ shape: 'cylinder', lipWidth: 0 }));
+        const radius = 40 / (2 * Math.PI);
+        const position = geometry.attributes.position;
+
+        // The last column is the first one again
+        expect(position.count).toBe(2 * W * (H + 1));
+        for (let i = 1; i < position.count; i += 2) {
+            expect(Math.hypot(position.getX(i), position.getZ(i) + radius)).toBeCloseTo(radius, 3);
+        }
+        expectWatertight(geometry);
+    });
+
+    it('stays watertight with a lip, hanging holes and stand slots', () => {
+        expectWatertight(geometryGenerator.generateMesh(ramp(), W, H, settings({ shape: 'cylinder', lipWidth: 2, lipHeight: 10 })));
+
+        const holes = geometryGenerator.generateMesh(
+            new Float32Array(40 * 30).fill(0.3), 40, 30,
+            settings({ frameWidth: 4, hangingHoles: 2, holeDiameter: 4, standSlots: true })
+        );
+        expectWatertight(holes);
+    });
+
+    it('engraves text down to the minimum wall without raising thinner walls', () => {
+        // Text rasterising needs a canvas; cover the whole plate instead
+        const textCoverage = vi.spyOn(ornaments, 'textCoverage').mockImplementation((_s, gridWidth, gridHeight) =>
+            new Float32Array(gridWidth * gridHeight).fill(1));
+        try {
+            const engraved = (baseHeight: number, level: number) => bounds(geometryGenerator.generateMesh(
+                new Float32Array(W * H).fill(level), W, H,
+                settings({ baseHeight, text: 'A', textMode: 'engraved', textDepth: 1 })
+            )).max.z;
+
+            expect(engraved(1, 1)).toBeCloseTo(1 + 3 - 1);
+            expect(engraved(1, 0)).toBeCloseTo(0.6); // Stopped at the minimum wall
+            expect(engraved(0.3, 0)).toBeCloseTo(0.3); // Already thinner: left alone
+        } finally {
+            textCoverage.mockRestore();
+        }
+    });
+});
@@ -1,81 +1,503 @@
 import * as THREE from 'three';
 import type { ModelSettings } from '../types';
+import { shapeOutlines } from './outlines';
+import { ornaments, HOLE_MARGIN } from './ornaments';
+import type { Cutout } from './ornaments';
+
+// Thinnest wall left under engraved text
+const MIN_WALL = 0.6; // mm
+
+/**
+ * Vertex grid covering the image plus frame, in grid units. Grid vertices
+ * are cell corners: x = frameSegsX ... frameSegsX + widthPx cover the image.
+ */
+interface GridLayout {
+    totalWidth: number; // mm
+    totalHeight: number; // mm
+    frameSegsX: number;
+    frameSegsY: number;
+    totalSegsX: number;
+    totalSegsY: number;
+    gridWidth: number; // totalSegsX + 1
+    closedSeam: boolean; // Full turn: last column is the first one
+    cellMask: Uint8Array | null; // Outline shapes and cutouts: 1 = cell inside, totalSegsX x totalSegsY
+    frameDistance: Float32Array | null; // Outline shapes: mm from each vertex to the outline
+    frameBand: Uint8Array | null; // Outline shapes: 1 = vertex within frameWidth of the outline
+    cutouts: Cutout[]; // Hanging holes and stand slots
+}
+
+/**
+ * The model's vertex grid as handed to a piece splitter. Cells are
+ * segsX x segsY, row 0 at the top; heights are per vertex.
+ */
+export interface PieceGrid {
+    totalWidth: number; // mm
+    totalHeight: number; // mm
+    segsX: number;
+    segsY: number;
+    cellMask: Uint8Array | null; // Cells of the whole part (null = all)
+    zTop: Float32Array;
+    zBottom: Float32Array;
+}
+
+export interface GridPiece {
+    cellMask: Uint8Array; // 1 = cell belongs to this piece
+    pocket?: Float32Array; // mm cut up into the bottom at each vertex
+}
 
 export class GeometryGenerator {
 
+    /**
+     * Builds a closed solid: relief on top, flat (or cylindrical) base,
+     * side walls around the outline.
+     */
     public generateMesh(
         heightmap: Float32Array,
         widthPx: number,
         heightPx: number,
         settings: ModelSettings
     ): THREE.BufferGeometry {
+        const { layout, zTop, zBottom } = this.surfaces(heightmap, widthPx, heightPx, settings);
+        return this.buildSolid(zTop, zBottom, layout, settings);
+    }
+
+    /**
+     * Builds the model in pieces (tiles). `split` gets the full vertex grid
+     * and returns, per piece, the cells it keeps and optionally a pocket
+     * depth per vertex, cut up into the bottom surface.
+     */
+    public generatePieces(
+        heightmap: Float32Array,
+        widthPx: number,
+        heightPx: number,
+        settings: ModelSettings,
+        split: (grid: PieceGrid) => GridPiece[]
+    ): THREE.BufferGeometry[] {
+        const { layout, zTop, zBottom } = this.surfaces(heightmap, widthPx, heightPx, settings);
+        const pieces = split({
+            totalWidth: layout.totalWidth,
+            totalHeight: layout.totalHeight,
+            segsX: layout.totalSegsX,
+            segsY: layout.totalSegsY,
+            cellMask: layout.cellMask,
+            zTop,
+            zBottom,
+        });
+
+        return pieces.map(piece => {
+            let bottom = zBottom;
+            if (piece.pocket) {
+                bottom = zBottom.slice();
+                for (let i = 0; i < bottom.length; i++) bottom[i] += piece.pocket[i];
+            }
+            return this.buildSolid(zTop, bottom, { ...layout, cellMask: piece.cellMask }, settings);
+        });
+    }
+
+    /**
+     * Closed solid between two height fields given in mm per grid vertex
+     * ((segsX + 1) x (segsY + 1)) over a flat width x height mm area,
+     * keeping the cells set in `cellMask`. For generated parts such as a
+     * lamp base.
+     */
+    public generateHeightfield(
+        zBottom: Float32Array,
+        zTop: Float32Array,
+        segsX: number,
+        segsY: number,
+        width: number,
+        height: number,
+        cellMask: Uint8Array | null,
+        settings: ModelSettings
+    ): THREE.BufferGeometry {
+        const layout: GridLayout = {
+            totalWidth: width,
+            totalHeight: height,
+            frameSegsX: 0,
+            frameSegsY: 0,
+            totalSegsX: segsX,
+            totalSegsY: segsY,
+            gridWidth: segsX + 1,
+            closedSeam: false,
+            cellMask,
+            frameDistance: null,
+            frameBand: null,
+            cutouts: [],
+        };
+        return this.buildSolid(zTop, zBottom, layout, { ...settings, shape: 'flat', curveAngle: 0 });
+    }
 
-        const {
-            width, height, depth, baseHeight,
-            frameWidth, frameDepth, curveAngle
-        } = settings;
+    /**
+     * Top and bottom heights of the whole model on its vertex grid, with
+     * the cylinder lip and the ornaments applied.
+     */
+    private surfaces(heightmap: Float32Array, widthPx: number, heightPx: number, settings: ModelSettings) {
+        const { depth, baseHeight, frameDepth } = settings;
+        const layout = this.layout(widthPx, heightPx, settings);
+
+        // --- SMOOTHING ---
+        const finalHeightmap = settings.smoothing && settings.smoothingIterations > 0
+            ? this.smoothHeightmap(heightmap, widthPx, heightPx, settings.smoothingIterations)
+            : heightmap;
+
+        // --- HEIGHTS ---
+        const zTop = this.sampleGrid(layout, widthPx, heightPx, i => baseHeight + (finalHeightmap[i] * depth), baseHeight + frameDepth);
+        const zBottom = new Float32Array(zTop.length); // Base level 0
+
+        // Cylinder lamp: the base steps inward along the bottom edge to form a lip
+        if (settings.shape === 'cylinder' && settings.lipWidth > 0 && settings.lipHeight > 0) {
+            const { totalWidth, totalHeight, totalSegsY, gridWidth } = layout;
+            const lip = Math.min(settings.lipWidth, 0.9 * totalWidth / (2 * Math.PI)); // Stay clear of the axis
+            const dy = totalHeight / totalSegsY;
+            for (let y = 0; y <= totalSegsY; y++) {
+                if ((totalSegsY - y) * dy > settings.lipHeight + 1e-6) continue;
+                zBottom.fill(-lip, y * gridWidth, (y + 1) * gridWidth);
+            }
+        }
+
+        this.applyOrnaments(zTop, zBottom, layout, settings);
+
+        return { layout, zTop, zBottom };
+    }
+
+    /**
+     * Builds a closed solid between two height fields given in mm per image
+     * pixel (used for stacked multi-material layers). The frame region spans
+     * `frameLower` to `frameUpper`. Text and border patterns go on the slab
+     * built `withOrnaments` (the top one); all slabs get the cutouts.
+     */
+    public generateSlab(
+        lower: Float32Array,
+        upper: Float32Array,
+        widthPx: number,
+        heightPx: number,
+        settings: ModelSettings,
+        frameLower: number,
+        frameUpper: number,
+        withOrnaments = false
+    ): THREE.BufferGeometry {
+        const layout = this.layout(widthPx, heightPx, settings);
+        const zBottom = this.sampleGrid(layout, widthPx, heightPx, i => lower[i], frameLower);
+        const zTop = this.sampleGrid(layout, widthPx, heightPx, i => upper[i], frameUpper);
+        if (withOrnaments) this.applyOrnaments(zTop, zBottom, layout, settings);
+
+        return this.buildSolid(zTop, zBottom, layout, settings);
+    }
+
+    private layout(widthPx: number, heightPx: number, settings: ModelSettings): GridLayout {
+        const { width, height, frameWidth, curveAngle, shape } = settings;
+
+        // Outline shapes draw their frame as a band inside the outline
+        const outline = shapeOutlines.outlineFor(settings);
+        const rectFrame = outline ? 0 : frameWidth;
 
-        // 1. Calculate dimensions
         // The "Image" area is width x height.
         // The "Frame" adds to this.
-        const totalWidth = width + (frameWidth * 2);
-        const totalHeight = height + (frameWidth * 2);
+        const totalWidth = width + (rectFrame * 2);
+        const totalHeight = height + (rectFrame * 2);
 
-        // We need resolution for the frame too.
-        // Let's deduce pixels per mm from the image area?
-        // px/mm = widthPx / width
+        // Frame resolution follows the image: px/mm = widthPx / width
         const pxPerMmX = widthPx / width;
         const pxPerMmY = heightPx / height;
 
-        // Frame segments
-        const frameSegsX = Math.round(frameWidth * pxPerMmX) || 1;
-        const frameSegsY = Math.round(frameWidth * pxPerMmY) || 1;
+        // Frame segments (none when there is no frame)
+        const frameSegsX = rectFrame > 0 ? Math.max(1, Math.round(rectFrame * pxPerMmX)) : 0;
+        const frameSegsY = rectFrame > 0 ? Math.max(1, Math.round(rectFrame * pxPerMmY)) : 0;
 
         // Total segments
         // Top/Bottom frame + Image
         const totalSegsX = widthPx + (frameSegsX * 2);
         const totalSegsY = heightPx + (frameSegsY * 2);
 
-        // --- SMOOTHING ---
-        let finalHeightmap = heightmap;
-        if (settings.smoothing && settings.smoothingIterations > 0) {
-            finalHeightmap = new Float32Array(heightmap); // Copy
-            const w = widthPx;
-            const h = heightPx;
-
-            for (let iter = 0; iter < settings.smoothingIterations; iter++) {
-                const source = new Float32Array(finalHeightmap); // Snapshot of previous pass
-
-                for (let y = 0; y < h; y++) {
-                    for (let x = 0; x < w; x++) {
-                        let sum = 0;
-                        let count = 0;
-
-                        // 3x3 Box Blur
-                        for (let ky = -1; ky <= 1; ky++) {
-                            for (let kx = -1; kx <= 1; kx++) {
-                                const nx = x + kx;
-                                const ny = y + ky;
-
-                                if (nx >= 0 && nx < w && ny >= 0 && ny < h) {
-                                    sum += source[ny * w + nx];
-                                    count++;
-                                }
-                            }
-                        }
+        const outlineMask = outline ? shapeOutlines.rasterize(outline, totalSegsX, totalSegsY) : null;
+        const frameDistance = outlineMask && frameWidth > 0
+            ? this.frameDistance(outlineMask, totalSegsX, totalSegsY, totalWidth / totalSegsX, totalHeight / totalSegsY)
+            : null;
+
+        // Holes and slots need an open edge, so none on closed shapes
+        const closedSeam = shape === 'cylinder' || shape === 'sphere' || curveAngle >= 360;
+        const cutouts = closedSeam ? [] : this.cutouts(outlineMask, totalSegsX, totalSegsY, totalWidth, totalHeight, settings);
+
+        let cellMask = outlineMask;
+        if (cutouts.length > 0) {
+            cellMask = outlineMask ? outlineMask.slice() : new Uint8Array(totalSegsX * totalSegsY).fill(1);
+            ornaments.applyCutouts(cellMask, cutouts, totalSegsX, totalSegsY, totalWidth / totalSegsX, totalHeight / totalSegsY);
+        }
+
+        return {
+            totalWidth,
+            totalHeight,
+            frameSegsX,
+            frameSegsY,
+            totalSegsX,
+            totalSegsY,
+            gridWidth: totalSegsX + 1,
+            closedSeam,
+            cellMask,
+            frameDistance,
+            frameBand: frameDistance && Uint8Array.from(frameDistance, d => d <= frameWidth ? 1 : 0),
+            cutouts,
+        };
+    }
 
-                        finalHeightmap[y * w + x] = sum / count;
+    /**
+     * Hanging holes and stand slots placed against the part's top and bottom
+     * edge (the outline's, if any).
+     */
+    private cutouts(
+        outlineMask: Uint8Array | null,
+        segsX: number,
+        segsY: number,
+        totalWidth: number,
+        totalHeight: number,
+        settings: ModelSettings
+    ): Cutout[] {
+        const dx = totalWidth / segsX;
+        const dy = totalHeight / segsY;
+        const column = (x: number) => Math.max(0, Math.min(segsX - 1, Math.floor(x / dx)));
+
+        const topEdge = (x: number) => {
+            if (!outlineMask) return 0;
+            const cx = column(x);
+            for (let cy = 0; cy < segsY; cy++) if (outlineMask[cy * segsX + cx]) return cy * dy;
+            return 0;
+        };
+        const bottomEdge = (x: number) => {
+            if (!outlineMask) return totalHeight;
+            const cx = column(x);
+            for (let cy = segsY - 1; cy >= 0; cy--) if (outlineMask[cy * segsX + cx]) return (cy + 1) * dy;
+            return totalHeight;
+        };
+
+        return ornaments.cutouts(settings, totalWidth, topEdge, bottomEdge);
+    }
+
+    /**
+     * Text, border pattern and the solid ring around hanging holes, applied
+     * to the top surface.
+     */
+    private applyOrnaments(zTop: Float32Array, zBottom: Float32Array, layout: GridLayout, settings: ModelSettings) {
+        const { totalWidth, totalHeight, frameSegsX, frameSegsY, totalSegsX, totalSegsY, gridWidth, frameDistance, cutouts } = layout;
+        const dx = totalWidth / totalSegsX;
+        const dy = totalHeight / totalSegsY;
+        const { frameWidth, borderPattern, borderPatternDepth } = settings;
+
+        // Border pattern on the frame. Rectangular frames are measured from
+        // the nearest side; outline frames along the angle around the centre.
+        const hasFrame = frameDistance !== null || frameSegsX > 0;
+        if (borderPattern !== 'none' && borderPatternDepth > 0 && frameWidth > 0 && hasFrame) {
+            const meanRadius = (totalWidth + totalHeight) / 4;
+            for (let y = 0; y <= totalSegsY; y++) {
+                for (let x = 0; x <= totalSegsX; x++) {
+                    const id = y * gridWidth + x;
+                    const px = x * dx;
+                    const py = y * dy;
+                    let d: number;
+                    let s: number;
+
+                    if (frameDistance) {
+                        d = frameDistance[id];
+                        s = Math.atan2(py - totalHeight / 2, px - totalWidth / 2) * meanRadius;
+                    } else {
+                        const inImage = x >= frameSegsX && x <= totalSegsX - frameSegsX && y >= frameSegsY && y <= totalSegsY - frameSegsY;
+                        if (inImage) continue;
+                        const side = Math.min(px, totalWidth - px);
+                        const end = Math.min(py, totalHeight - py);
+                        d = Math.min(side, end);
+                        s = side < end ? py : px;
                     }
+
+                    zTop[id] += borderPatternDepth * ornaments.patternHeight(borderPattern, d, s, frameWidth);
                 }
             }
         }
 
-        const geometry = new THREE.BufferGeometry();
-        const vertices: number[] = [];
-        const indices: number[] = [];
+        const coverage = ornaments.textCoverage(settings, gridWidth, totalSegsY + 1, dx, dy);
+        if (coverage && settings.textDepth > 0) {
+            for (let i = 0; i < coverage.length; i++) {
+                if (coverage[i] === 0) continue;
+                zTop[i] = settings.textMode === 'raised'
+                    ? zTop[i] + settings.textDepth * coverage[i]
+                    // Engraving stops at the minimum wall, and never raises a wall already thinner than that
+                    : Math.min(zTop[i], Math.max(zBottom[i] + MIN_WALL, zTop[i] - settings.textDepth * coverage[i]));
+            }
+        }
+
+        // Holes are hung from: keep a full-thickness ring around them
+        const ringTop = settings.baseHeight + settings.frameDepth;
+        for (const cutout of cutouts) {
+            if (cutout.shape !== 'circle') continue;
+            for (let y = 0; y <= totalSegsY; y++) {
+                for (let x = 0; x <= totalSegsX; x++) {
+                    const id = y * gridWidth + x;
+                    if (ornaments.contains(cutout, x * dx, y * dy, HOLE_MARGIN)) zTop[id] = Math.max(zTop[id], ringTop);
+                }
+            }
+        }
+    }
+
+    /**
+     * Distance in mm from each grid vertex to the outside of the mask
+     * (two-pass chamfer distance transform).
+     */
+    private frameDistance(mask: Uint8Array, segsX: number, segsY: number, dx: number, dy: number): Float32Array {
+        const gridWidth = segsX + 1;
+        const count = gridWidth * (segsY + 1);
+        const dist = new Float32Array(count).fill(Infinity);
+        const diag = Math.hypot(dx, dy);
+
+        const inside = (cx: number, cy: number) =>
+            cx >= 0 && cx < segsX && cy >= 0 && cy < segsY && mask[cy * segsX + cx] === 1;
+
+        // Vertices on the outline (touching an outside cell) are distance 0
+        for (let y = 0; y <= segsY; y++) {
+            for (let x = 0; x <= segsX; x++) {
+                if (!inside(x - 1, y - 1) || !inside(x, y - 1) || !inside(x - 1, y) || !inside(x, y)) {
+                    dist[y * gridWidth + x] = 0;
+                }
+            }
+        }
+
+        const relax = (id: number, x: number, y: number, ox: number, oy: number, cost: number) => {
+            const nx = x + ox, ny = y + oy;
+            if (nx < 0 || nx > segsX || ny < 0 || ny > segsY) return;
+            const d = dist[ny * gridWidth + nx] + cost;
+            if (d < dist[id]) dist[id] = d;
+        };
+
+        for (let y = 0; y <= segsY; y++) {
+            for (let x = 0; x <= segsX; x++) {
+                const id = y * gridWidth + x;
+                relax(id, x, y, -1, 0, dx);
+                relax(id, x, y, 0, -1, dy);
+                relax(id, x, y, -1, -1, diag);
+                relax(id, x, y, 1, -1, diag);
+            }
+        }
+        for (let y = segsY; y >= 0; y--) {
+            for (let x = segsX; x >= 0; x--) {
+                const id = y * gridWidth + x;
+                relax(id, x, y, 1, 0, dx);
+                relax(id, x, y, 0, 1, dy);
+                relax(id, x, y, 1, 1, diag);
+                relax(id, x, y, -1, 1, diag);
+            }
+        }
+
+        return dist;
+    }
+
+    /**
+     * One Z value per grid vertex: nearest image pixel inside the image area
+     * (sharp step at its edge), `frameValue` outside it and in the outline's frame band.
+     */
+    private sampleGrid(
+        layout: GridLayout,
+        widthPx: number,
+        heightPx: number,
+        pixelValue: (index: number) => number,
+        frameValue: number
+    ): Float32Array {
+        const { frameSegsX, frameSegsY, totalSegsX, totalSegsY, gridWidth, closedSeam, frameBand } = layout;
+        const grid = new Float32Array(gridWidth * (totalSegsY + 1));
+
+        for (let y = 0; y <= totalSegsY; y++) {
+            for (let x = 0; x <= totalSegsX; x++) {
+                const imgX = (closedSeam && x === totalSegsX ? 0 : x) - frameSegsX;
+                const imgY = y - frameSegsY;
+
+                let zVal = frameValue;
+
+                const inBand = frameBand !== null && frameBand[y * gridWidth + x] === 1;
+
+                if (!inBand && imgX >= 0 && imgX <= widthPx && imgY >= 0 && imgY <= heightPx) {
+                    const sx = Math.min(imgX, widthPx - 1);
+                    const sy = Math.min(imgY, heightPx - 1);
+                    zVal = pixelValue(sy * widthPx + sx);
+                }
+
+                grid[y * gridWidth + x] = zVal;
+            }
+        }
+
+        return grid;
+    }
+
+    /**
+     * Triangulates the top surface, mirrors it for the bottom, wraps the
+     * outline with side walls and places everything flat, on the curve or
+     * on the sphere.
+     */
+    private buildSolid(
+        zTop: Float32Array,
+        zBottom: Float32Array,
+        layout: GridLayout,
+        settings: ModelSettings
+    ): THREE.BufferGeometry {
+        const { totalWidth, totalHeight, totalSegsX, totalSegsY, gridWidth, closedSeam, cellMask } = layout;
+        const isSphere = settings.shape === 'sphere';
+        // A cylinder lamp is always a full turn
+        const curveAngle = settings.shape === 'cylinder' ? 360 : settings.curveAngle;
+
+        // Curvature calculation
+        const isCurved = !isSphere && curveAngle > 0;
+
+        // --- TRIANGULATION ---
+        // Cells are [x, y, size] squares in grid units; a full-resolution mesh
+        // is every 1x1 cell, the adaptive one merges cells within maxDeviation.
+        const cells = settings.maxDeviation > 0
+            ? this.adaptiveCells([zTop, zBottom], totalSegsX, totalSegsY, settings.maxDeviation, cellMask)
+            : this.uniformCells(totalSegsX, totalSegsY, cellMask);
+
+        // Mark every grid vertex that a cell corner (or fan center) uses
+        const used = new Uint8Array(zTop.length);
+        for (let i = 0; i < cells.length; i += 3) {
+            const x0 = cells[i], y0 = cells[i + 1], size = cells[i + 2];
+            used[y0 * gridWidth + x0] = 1;
+            used[y0 * gridWidth + x0 + size] = 1;
+            used[(y0 + size) * gridWidth + x0] = 1;
+            used[(y0 + size) * gridWidth + x0 + size] = 1;
+        }
+
+        // Top-surface triangles as grid vertex ids, counter-clockwise seen from +Z
+        const topTris: number[] = [];
+        const perimeter: number[] = [];
+
+        for (let i = 0; i < cells.length; i += 3) {
+            const x0 = cells[i], y0 = cells[i + 1], size = cells[i + 2];
+            const x1 = x0 + size, y1 = y0 + size;
+
+            // t3 - t4
+            // |  / |
+            // t1 - t2
+            // (Y is flipped, so counter-clockwise seen from +Z is t1-t4-t2)
+            const t1 = y0 * gridWidth + x0;
+            const t2 = y0 * gridWidth + x1;
+            const t3 = y1 * gridWidth + x0;
+            const t4 = y1 * gridWidth + x1;
+
+            // Collect the cell outline including vertices of smaller neighbours
+            perimeter.length = 0;
+            for (let x = x0; x < x1; x++) if (used[y0 * gridWidth + x]) perimeter.push(y0 * gridWidth + x);
+            for (let y = y0; y < y1; y++) if (used[y * gridWidth + x1]) perimeter.push(y * gridWidth + x1);
+            for (let x = x1; x > x0; x--) if (used[y1 * gridWidth + x]) perimeter.push(y1 * gridWidth + x);
+            for (let y = y1; y > y0; y--) if (used[y * gridWidth + x0]) perimeter.push(y * gridWidth + x0);
+
+            if (perimeter.length === 4) {
+                topTris.push(t1, t4, t2);
+                topTris.push(t1, t3, t4);
+            } else {
+                // T-junctions with finer neighbours: fan around the cell center
+                const center = (y0 + size / 2) * gridWidth + (x0 + size / 2);
+                used[center] = 1;
+                for (let k = 0; k < perimeter.length; k++) {
+                    topTris.push(center, perimeter[(k + 1) % perimeter.length], perimeter[k]);
+                }
+            }
+        }
 
         // --- VERTICES ---
-        // We generate a flat grid first, then curve it if needed.
+        // We lay out a flat grid, then curve it if needed.
 
         // Center point for flat plane
         const xOffset = -totalWidth / 2;
@@ -84,115 +506,90 @@ export class GeometryGenerator {
         const dx = totalWidth / totalSegsX;
         const dy = totalHeight / totalSegsY;
 
-        // Curvature calculation
-        const isCurved = curveAngle > 0;
         const thetaTotal = (curveAngle * Math.PI) / 180;
         // Radius R = ArcLength / Theta
         // ArcLength is totalWidth
         const radius = isCurved ? totalWidth / thetaTotal : 0;
 
+        // Sphere: width is the equator, rows run from the top pole down to
+        // the opening around the bottom pole
+        const sphereRadius = totalWidth / (2 * Math.PI);
+        const latitudeSpan = Math.PI - (Math.max(5, settings.sphereOpening) * Math.PI) / 180;
+
         // Generate Top and Bottom Surface
         // We need both because we are making a solid.
+        const geometry = new THREE.BufferGeometry();
+        const vertices: number[] = [];
+        const thickness: number[] = []; // Wall thickness at each vertex, for the transmitted-light preview
+        const indices: number[] = [];
 
-        // Arrays to store vertex indices for faces
-        // topGrid[y][x] = index
-        const topGrid: number[] = new Array((totalSegsY + 1) * (totalSegsX + 1));
-        const botGrid: number[] = new Array((totalSegsY + 1) * (totalSegsX + 1));
+        // Grid vertex id -> mesh vertex index
+        const topGrid = new Int32Array(zTop.length).fill(-1);
+        const botGrid = new Int32Array(zTop.length).fill(-1);
+
+        // The seam column and the top pole row are stand-ins for the vertex
+        // they coincide with; make sure that one exists.
+        if (closedSeam) {
+            for (let y = 0; y <= totalSegsY; y++) {
+                if (used[y * gridWidth + totalSegsX]) used[y * gridWidth] = 1;
+            }
+        }
+        if (isSphere) used[0] = 1;
 
         let vIndex = 0;
 
         for (let y = 0; y <= totalSegsY; y++) {
             for (let x = 0; x <= totalSegsX; x++) {
+                const id = y * gridWidth + x;
+                if (!used[id]) continue;
+                if (closedSeam && x === totalSegsX) continue;
+                if (isSphere && y === 0 && x > 0) continue;
+
                 // Flat coords
                 const xFlat = xOffset + (x * dx);
                 const yFlat = yOffset + (totalSegsY - y) * dy; // Flip Y
-
-                // Calculate Heights
-
-                // Note: getReliefZ uses cell coords (0..totalSegs-1), vertex coords are (0..totalSegs).
-                // We should sample somewhat carefully or just nearest.
-                // Actually, for vertex (x,y), we should probably blend or just pick. 
-                // Let's pick the cell (x,y) but clamp max.
-
-                // Better: Vertices are corners. 
-                // If we are in frame, height is known.
-                // If in image, sample image. 
-                // Ideally we interpolate image filter. But 'nearest' is okay for now.
-                // Correction: grid points x=0..totalSegsX. 
-                // Image samples 0..widthPx. x corresponds to frameSegsX ... frameSegsX+widthPx
-
-                let zVal = baseHeight + frameDepth; // Default frame
-
-                const imgX = x - frameSegsX;
-                const imgY = y - frameSegsY;
-
-                if (imgX >= 0 && imgX <= widthPx && imgY >= 0 && imgY <= heightPx) {
-                    // Inside image area (or edge)
-                    // Boundary check
-                    const sx = Math.min(imgX, widthPx - 1);
-                    const sy = Math.min(imgY, heightPx - 1);
-                    const val = finalHeightmap[sy * widthPx + sx];
-
-                    // If it's strictly inside, use val.
-                    // If it's on the border of image/frame, what do we do?
-                    // Logic: Image area z is base + val*depth.
-                    // Frame area z is base + frameDepth.
-                    // We want a sharp transition or smooth? Sharp is expected for frames.
-                    // But vertices are shared.
-
-                    // Simple logic: If inside image bounds, use image height.
-                    // If on explicit frame area, use frame height.
-
-                    // Let's treat the transition carefully.
-                    // If x is exactly frameSegsX, it's the edge.
-                    if (frameWidth > 0 && (imgX < 0 || imgX > widthPx || imgY < 0 || imgY > heightPx)) {
-                        // Should be covered by outer if, but for safety
-                        zVal = baseHeight + frameDepth;
-                    } else {
-                        zVal = baseHeight + (val * depth);
-                    }
-                } else {
-                    // Frame
-                    zVal = baseHeight + frameDepth;
-                }
+                const zVal = zTop[id];
+                const zBase = zBottom[id];
 
                 // Apply Curvature
                 let px, py, pz, bx, by, bz;
 
-                if (isCurved) {
-                    // Wrap around Y axis
-                    // xFlat maps to angle
-                    // center xFlat=0 -> angle=0
-                    // range -totalWidth/2 .. +totalWidth/2
+                if (isSphere) {
+                    // Longitude around Y from x, latitude from y
+                    const lon = (xFlat / totalWidth) * Math.PI * 2;
+                    const lat = Math.PI / 2 - (y / totalSegsY) * latitudeSpan;
+                    const nx = Math.cos(lat) * Math.sin(lon);
+                    const ny = Math.sin(lat);
+                    const nz = Math.cos(lat) * Math.cos(lon);
 
-                    const angle = (xFlat / totalWidth) * thetaTotal;
+                    const rTop = sphereRadius + zVal;
+                    const rBot = sphereRadius + zBase;
 
-                    // Radius differs for Top and Bottom to keep thickness?
-                    // Visual thickness = zVal.
-                    // So radius_top = radius + zVal
-                    // radius_bot = radius (or radius + 0)
+                    px = rTop * nx;
+                    py = rTop * ny;
+                    pz = rTop * nz;
 
-                    // Standard lithophane curve: "Cylinder" is the base.
-                    // Relief sticks out.
+                    bx = rBot * nx;
+                    by = rBot * ny;
+                    bz = rBot * nz;
 
-                    const rTop = radius + zVal;
-                    const rBot = radius; // Base level 0
+                } else if (isCurved) {
+                    // Wrap around Y axis: xFlat maps to angle, center xFlat=0 -> angle=0.
+                    // The base sits on the cylinder, the relief sticks out of it.
+                    const angle = (xFlat / totalWidth) * thetaTotal;
 
-                    // Z is forward (towards viewer). 
-                    // In 3D: x = r sin(theta), z = r cos(theta)
+                    const rTop = radius + zVal;
+                    const rBot = radius + zBase;
 
+                    // Z is forward (towards viewer): x = r sin(theta), z = r cos(theta),
+                    // offset back by radius so the part is centered.
                     px = rTop * Math.sin(angle);
                     py = yFlat;
-                    pz = rTop * Math.cos(angle);
-
-                    // Center curve? 
-                    // z will be around radius. We might want to offset it back by radius so center is at 0,0,0
-                    pz -= radius;
+                    pz = rTop * Math.cos(angle) - radius;
 
                     bx = rBot * Math.sin(angle);
                     by = yFlat;
-                    bz = rBot * Math.cos(angle);
-                    bz -= radius;
+                    bz = rBot * Math.cos(angle) - radius;
 
                 } else {
                     px = xFlat;
@@ -201,84 +598,230 @@ export class GeometryGenerator {
 
                     bx = xFlat;
                     by = yFlat;
-                    bz = 0;
+                    bz = zBase;
                 }
 
                 // Push Top Vertex
                 vertices.push(px, py, pz);
-                topGrid[y * (totalSegsX + 1) + x] = vIndex++;
+                thickness.push(zVal - zBase);
+                topGrid[id] = vIndex++;
 
                 // Push Bottom Vertex
                 vertices.push(bx, by, bz);
-                botGrid[y * (totalSegsX + 1) + x] = vIndex++;
+                thickness.push(zVal - zBase);
+                botGrid[id] = vIndex++;
+            }
+        }
+
+        for (let y = 0; y <= totalSegsY; y++) {
+            if (closedSeam) {
+                topGrid[y * gridWidth + totalSegsX] = topGrid[y * gridWidth];
+                botGrid[y * gridWidth + totalSegsX] = botGrid[y * gridWidth];
             }
         }
+        if (isSphere) {
+            topGrid.fill(topGrid[0], 1, gridWidth);
+            botGrid.fill(botGrid[0], 1, gridWidth);
+        }
 
         // --- FACES ---
-        // Generate quads/tris
-        for (let y = 0; y < totalSegsY; y++) {
-            for (let x = 0; x < totalSegsX; x++) {
-                const width1 = totalSegsX + 1;
-
-                // Top Surface
-                const t1 = topGrid[y * width1 + x];
-                const t2 = topGrid[y * width1 + (x + 1)];
-                const t3 = topGrid[(y + 1) * width1 + x];
-                const t4 = topGrid[(y + 1) * width1 + (x + 1)];
-
-                // t3 - t4
-                // |  / |
-                // t1 - t2
-
-                indices.push(t1, t2, t4);
-                indices.push(t1, t4, t3);
-
-                // Bottom Surface (reverse winding)
-                const b1 = botGrid[y * width1 + x];
-                const b2 = botGrid[y * width1 + (x + 1)];
-                const b3 = botGrid[(y + 1) * width1 + x];
-                const b4 = botGrid[(y + 1) * width1 + (x + 1)];
-
-                indices.push(b1, b4, b2);
-                indices.push(b1, b3, b4);
-
-                // Sides
-                // Left (x=0)
-                if (x === 0) {
-                    indices.push(b1, t1, t3); // b1-t1-t3
-                    indices.push(b1, t3, b3);
-                }
+        // Triangles that collapsed onto the pole are dropped
+        const pushTri = (a: number, b: number, c: number) => {
+            if (a !== b && b !== c && a !== c) indices.push(a, b, c);
+        };
 
-                // Right (x=totalSegsX-1) next loop
-                // Careful, we iterate segments.
-                // Right edge of this segment is x+1
-                if (x === totalSegsX - 1) {
-                    indices.push(b2, t4, t2); // b2-t4-t2
-                    indices.push(b2, b4, t4);
-                }
+        for (let i = 0; i < topTris.length; i += 3) {
+            const a = topTris[i], b = topTris[i + 1], c = topTris[i + 2];
+
+            // Top Surface
+            pushTri(topGrid[a], topGrid[b], topGrid[c]);
+
+            // Bottom Surface (reverse winding)
+            pushTri(botGrid[a], botGrid[c], botGrid[b]);
+        }
+
+        // Sides: a wall on every unit edge between an inside and an outside
+        // cell. Cells next to the outline are 1x1, so every edge vertex is used.
+        const inside = (cx: number, cy: number) => {
+            if (cy < 0 || cy >= totalSegsY) return false;
+            if (closedSeam) cx = (cx + totalSegsX) % totalSegsX;
+            else if (cx < 0 || cx >= totalSegsX) return false;
+            return !cellMask || cellMask[cy * totalSegsX + cx] === 1;
+        };
 
-                // Top Edge (y=0)
-                if (y === 0) {
-                    // b1, b2, t1, t2
-                    indices.push(b1, t2, t1);
-                    indices.push(b1, b2, t2);
+        const lastColumn = closedSeam ? totalSegsX - 1 : totalSegsX;
+        for (let y = 0; y < totalSegsY; y++) {
+            for (let x = 0; x <= lastColumn; x++) {
+                const v1 = y * gridWidth + x, v3 = (y + 1) * gridWidth + x;
+                const right = inside(x, y), left = inside(x - 1, y);
+
+                if (right && !left) {
+                    // Left side of the part
+                    pushTri(botGrid[v1], topGrid[v3], topGrid[v1]);
+                    pushTri(botGrid[v1], botGrid[v3], topGrid[v3]);
+                } else if (left && !right) {
+                    // Right side
+                    pushTri(botGrid[v1], topGrid[v1], topGrid[v3]);
+                    pushTri(botGrid[v1], topGrid[v3], botGrid[v3]);
                 }
+            }
+        }
 
-                // Bottom Edge (y=totalSegsY-1)
-                if (y === totalSegsY - 1) {
-                    // b3, b4, t3, t4
-                    indices.push(b3, t3, t4);
-                    indices.push(b3, t4, b4);
+        for (let y = 0; y <= totalSegsY; y++) {
+            for (let x = 0; x < totalSegsX; x++) {
+                const e1 = y * gridWidth + x, e2 = e1 + 1;
+                const below = inside(x, y), above = inside(x, y - 1);
+
+                if (below && !above) {
+                    // Top edge
+                    pushTri(botGrid[e1], topGrid[e1], topGrid[e2]);
+                    pushTri(botGrid[e1], topGrid[e2], botGrid[e2]);
+                } else if (above && !below) {
+                    // Bottom edge
+                    pushTri(botGrid[e1], topGrid[e2], topGrid[e1]);
+                    pushTri(botGrid[e1], botGrid[e2], topGrid[e2]);
                 }
             }
         }
 
         geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+        geometry.setAttribute('thickness', new THREE.Float32BufferAttribute(thickness, 1));
         geometry.setIndex(indices);
         geometry.computeVertexNormals();
 
         return geometry;
     }
+
+    private uniformCells(segsX: number, segsY: number, cellMask: Uint8Array | null): number[] {
+        const cells: number[] = [];
+        for (let y = 0; y < segsY; y++) {
+            for (let x = 0; x < segsX; x++) {
+                if (!cellMask || cellMask[y * segsX + x]) cells.push(x, y, 1);
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Error-bounded quadtree over the height grids. A square is kept whole when
+     * its two triangles stay within `tolerance` mm of every grid height inside
+     * it, on every grid; otherwise it splits. Squares on the outline always split down to 1x1
+     * so the side walls match the surface edge vertex for vertex; with a cell
+     * mask, so do squares touching an outside cell.
+     */
+    private adaptiveCells(grids: Float32Array[], segsX: number, segsY: number, tolerance: number, cellMask: Uint8Array | null): number[] {
+        const gridWidth = segsX + 1;
+        const cells: number[] = [];
+
+        // Summed-area table of inside cells, (segsX + 1) x (segsY + 1)
+        const sat = new Uint32Array(gridWidth * (segsY + 1));
+        if (cellMask) {
+            for (let y = 0; y < segsY; y++) {
+                for (let x = 0; x < segsX; x++) {
+                    sat[(y + 1) * gridWidth + x + 1] = cellMask[y * segsX + x]
+                        + sat[y * gridWidth + x + 1] + sat[(y + 1) * gridWidth + x] - sat[y * gridWidth + x];
+                }
+            }
+        }
+
+        // Inside cells in [xa, xb) x [ya, yb), clamped to the grid
+        const insideCount = (xa: number, ya: number, xb: number, yb: number) => {
+            xa = Math.max(0, xa); ya = Math.max(0, ya);
+            xb = Math.min(segsX, xb); yb = Math.min(segsY, yb);
+            if (xa >= xb || ya >= yb) return 0;
+            return sat[yb * gridWidth + xb] - sat[ya * gridWidth + xb] - sat[yb * gridWidth + xa] + sat[ya * gridWidth + xa];
+        };
+
+        let rootSize = 1;
+        while (rootSize < Math.max(segsX, segsY)) rootSize *= 2;
+
+        const withinTolerance = (x0: number, y0: number, size: number) =>
+            grids.every(zGrid => planarWithin(zGrid, x0, y0, size));
+
+        const planarWithin = (zGrid: Float32Array, x0: number, y0: number, size: number) => {
+            const z00 = zGrid[y0 * gridWidth + x0];
+            const z10 = zGrid[y0 * gridWidth + x0 + size];
+            const z01 = zGrid[(y0 + size) * gridWidth + x0];
+            const z11 = zGrid[(y0 + size) * gridWidth + x0 + size];
+
+            for (let j = 0; j <= size; j++) {
+                const v = j / size;
+                for (let i = 0; i <= size; i++) {
+                    const u = i / size;
+                    // Same diagonal (00-11) as the two emitted triangles
+                    const z = u >= v
+                        ? z00 + u * (z10 - z00) + v * (z11 - z10)
+                        : z00 + v * (z01 - z00) + u * (z11 - z01);
+                    if (Math.abs(z - zGrid[(y0 + j) * gridWidth + x0 + i]) > tolerance) return false;
+                }
+            }
+            return true;
+        };
+
+        const visit = (x0: number, y0: number, size: number) => {
+            if (x0 >= segsX || y0 >= segsY) return;
+
+            if (cellMask && insideCount(x0, y0, x0 + size, y0 + size) === 0) return;
+
+            if (size === 1) {
+                cells.push(x0, y0, 1);
+                return;
+            }
+
+            const clipped = x0 + size > segsX || y0 + size > segsY;
+            const onOutline = x0 === 0 || y0 === 0 || x0 + size === segsX || y0 + size === segsY
+                || (cellMask !== null && insideCount(x0 - 1, y0 - 1, x0 + size + 1, y0 + size + 1) !== (size + 2) * (size + 2));
+
+            if (!clipped && !onOutline && withinTolerance(x0, y0, size)) {
+                cells.push(x0, y0, size);
+                return;
+            }
+
+            const half = size / 2;
+            visit(x0, y0, half);
+            visit(x0 + half, y0, half);
+            visit(x0, y0 + half, half);
+            visit(x0 + half, y0 + half, half);
+        };
+
+        visit(0, 0, rootSize);
+        return cells;
+    }
+
+    /**
+     * Repeated 3x3 box blur of the heightmap. Returns a new array.
+     */
+    public smoothHeightmap(heightmap: Float32Array, w: number, h: number, iterations: number): Float32Array {
+        const result = new Float32Array(heightmap); // Copy
+
+        for (let iter = 0; iter < iterations; iter++) {
+            const source = new Float32Array(result); // Snapshot of previous pass
+
+            for (let y = 0; y < h; y++) {
+                for (let x = 0; x < w; x++) {
+                    let sum = 0;
+                    let count = 0;
+
+                    // 3x3 Box Blur
+                    for (let ky = -1; ky <= 1; ky++) {
+                        for (let kx = -1; kx <= 1; kx++) {
+                            const nx = x + kx;
+                            const ny = y + ky;
+
+                            if (nx >= 0 && nx < w && ny >= 0 && ny < h) {
+                                sum += source[ny * w + nx];
+                                count++;
+                            }
+                        }
+                    }
+
+                    result[y * w + x] = sum / count;
+                }
+            }
+        }
+
+        return result;
+    }
 }
 
 export const geometryGenerator = new GeometryGenerator();
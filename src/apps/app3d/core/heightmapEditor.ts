@@ -0,0 +1,194 @@
+export type BrushTool = 'raise' | 'lower' | 'smooth' | 'flatten' | 'mask' | 'unmask';
+
+export interface BrushSettings {
+    tool: BrushTool;
+    radius: number; // heightmap px
+    strength: number; // 0-1
+    flattenLevel: number; // 0-1, target height of the flatten brush
+}
+
+/**
+ * Hand edits on top of the processed heightmap. Kept as an offset layer so
+ * they survive changes to the image settings.
+ */
+export interface HeightmapEdits {
+    width: number;
+    height: number;
+    delta: Float32Array; // Added to the processed heightmap
+    mask: Uint8Array; // 0-255, masked pixels are protected from height brushes
+}
+
+// Height change of one raise/lower dab at full strength
+const DAB_STEP = 0.05;
+
+export class HeightmapEditor {
+
+    public createEdits(width: number, height: number): HeightmapEdits {
+        return {
+            width,
+            height,
+            delta: new Float32Array(width * height),
+            mask: new Uint8Array(width * height),
+        };
+    }
+
+    public cloneEdits(edits: HeightmapEdits): HeightmapEdits {
+        return { ...edits, delta: edits.delta.slice(), mask: edits.mask.slice() };
+    }
+
+    /**
+     * The processed heightmap with the edits applied, clamped to 0-1.
+     */
+    public compose(base: Float32Array, edits: HeightmapEdits): Float32Array {
+        const result = new Float32Array(base.length);
+        for (let i = 0; i < base.length; i++) {
+            result[i] = Math.max(0, Math.min(1, base[i] + edits.delta[i]));
+        }
+        return result;
+    }
+
+    /**
+     * Edits scaled (nearest neighbour) to a new heightmap size, e.g. after
+     * the resolution changed.
+     */
+    public resample(edits: HeightmapEdits, width: number, height: number): HeightmapEdits {
+        const result = this.createEdits(width, height);
+        for (let y = 0; y < height; y++) {
+            const sy = Math.min(edits.height - 1, Math.floor((y + 0.5) * edits.height / height));
+            for (let x = 0; x < width; x++) {
+                const sx = Math.min(edits.width - 1, Math.floor((x + 0.5) * edits.width / width));
+                result.delta[y * width + x] = edits.delta[sy * edits.width + sx];
+                result.mask[y * width + x] = edits.mask[sy * edits.width + sx];
+            }
+        }
+        return result;
+    }
+
+    public isEmpty(edits: HeightmapEdits): boolean {
+        return edits.delta.every(v => v === 0) && edits.mask.every(v => v === 0);
+    }
+
+    /**
+     * Edited height at a pixel, for the flatten brush's pick.
+     */
+    public sample(base: Float32Array, edits: HeightmapEdits, x: number, y: number): number {
+        const px = Math.max(0, Math.min(edits.width - 1, Math.round(x)));
+        const py = Math.max(0, Math.min(edits.height - 1, Math.round(y)));
+        const i = py * edits.width + px;
+        return Math.max(0, Math.min(1, base[i] + edits.delta[i]));
+    }
+
+    /**
+     * Paints dabs from `from` to `to`, spaced a quarter radius apart.
+     * Modifies `edits` in place.
+     */
+    public stroke(
+        base: Float32Array,
+        edits: HeightmapEdits,
+        from: { x: number; y: number },
+        to: { x: number; y: number },
+        brush: BrushSettings
+    ) {
+        const distance = Math.hypot(to.x - from.x, to.y - from.y);
+        const dabs = Math.max(1, Math.ceil(distance / Math.max(1, brush.radius / 4)));
+        for (let i = 1; i <= dabs; i++) {
+            const t = i / dabs;
+            this.dab(base, edits, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, brush);
+        }
+    }
+
+    /**
+     * One brush stamp with a smooth falloff to the rim. Modifies `edits` in place.
+     */
+    public dab(base: Float32Array, edits: HeightmapEdits, cx: number, cy: number, brush: BrushSettings) {
+        const { width, height, delta, mask } = edits;
+        const r = Math.max(1, brush.radius);
+        const x0 = Math.max(0, Math.floor(cx - r));
+        const x1 = Math.min(width - 1, Math.ceil(cx + r));
+        const y0 = Math.max(0, Math.floor(cy - r));
+        const y1 = Math.min(height - 1, Math.ceil(cy + r));
+        if (x0 > x1 || y0 > y1) return;
+
+        const blurred = brush.tool === 'smooth' ? this.blurRegion(base, edits, x0, y0, x1, y1, Math.max(1, Math.round(r / 6))) : null;
+        const regionW = x1 - x0 + 1;
+
+        for (let y = y0; y <= y1; y++) {
+            for (let x = x0; x <= x1; x++) {
+                const d = Math.hypot(x - cx, y - cy) / r;
+                if (d >= 1) continue;
+
+                const falloff = (1 - d * d) * (1 - d * d);
+                const i = y * width + x;
+
+                if (brush.tool === 'mask' || brush.tool === 'unmask') {
+                    const change = 255 * brush.strength * falloff;
+                    mask[i] = brush.tool === 'mask'
+                        ? Math.min(255, mask[i] + change)
+                        : Math.max(0, mask[i] - change);
+                    continue;
+                }
+
+                const weight = brush.strength * falloff * (1 - mask[i] / 255);
+                if (weight <= 0) continue;
+
+                const value = base[i] + delta[i];
+                let next = value;
+                switch (brush.tool) {
+                    case 'raise': next = value + DAB_STEP * weight; break;
+                    case 'lower': next = value - DAB_STEP * weight; break;
+                    case 'flatten': next = value + (brush.flattenLevel - value) * weight; break;
+                    case 'smooth': next = value + (blurred![(y - y0) * regionW + (x - x0)] - value) * weight; break;
+                }
+                // Keep the layer within what the heightmap can show
+                delta[i] = Math.max(0, Math.min(1, next)) - base[i];
+            }
+        }
+    }
+
+    /**
+     * Box blur of the edited heights in a region (separable, edge-clamped).
+     */
+    private blurRegion(base: Float32Array, edits: HeightmapEdits, x0: number, y0: number, x1: number, y1: number, k: number): Float32Array {
+        const { width, height, delta } = edits;
+        // Pad by the kernel so the region's edge pixels see real neighbours
+        const px0 = Math.max(0, x0 - k);
+        const px1 = Math.min(width - 1, x1 + k);
+        const py0 = Math.max(0, y0 - k);
+        const py1 = Math.min(height - 1, y1 + k);
+        const pw = px1 - px0 + 1;
+        const ph = py1 - py0 + 1;
+
+        const values = new Float32Array(pw * ph);
+        for (let y = 0; y < ph; y++) {
+            for (let x = 0; x < pw; x++) {
+                const i = (py0 + y) * width + px0 + x;
+                values[y * pw + x] = base[i] + delta[i];
+            }
+        }
+
+        const horizontal = new Float32Array(pw * ph);
+        for (let y = 0; y < ph; y++) {
+            for (let x = 0; x < pw; x++) {
+                let sum = 0;
+                for (let j = -k; j <= k; j++) sum += values[y * pw + Math.max(0, Math.min(pw - 1, x + j))];
+                horizontal[y * pw + x] = sum / (2 * k + 1);
+            }
+        }
+
+        const regionW = x1 - x0 + 1;
+        const result = new Float32Array(regionW * (y1 - y0 + 1));
+        for (let y = y0; y <= y1; y++) {
+            for (let x = x0; x <= x1; x++) {
+                let sum = 0;
+                for (let j = -k; j <= k; j++) {
+                    const sy = Math.max(0, Math.min(ph - 1, y - py0 + j));
+                    sum += horizontal[sy * pw + x - px0];
+                }
+                result[(y - y0) * regionW + (x - x0)] = sum / (2 * k + 1);
+            }
+        }
+        return result;
+    }
+}
+
+export const heightmapEditor = new HeightmapEditor();
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { imageFilters, FILTER_DEFINITIONS } from './imageFilters';
+import { imageProcessor } from './imageProcessor';
+import { projectManager, PROJECT_VERSION } from './projectFile';
+import type { ProjectManifest } from './projectFile';
+import { defaultImageSettings } from '../store/defaults';
+import type { ImageFilter, ImageFilterType } from '../types';
+
+// One pixel per grey level in `values`
+const greys = (values: number[]) => {
+    const data = new Uint8ClampedArray(values.length * 4);
+    values.forEach((v, i) => data.set([v, v, v, 255], i * 4));
+    return data;
+};
+
+const run = (type: ImageFilterType, params: Record<string, number>, values: number[]) => {
+    const data = greys(values);
+    imageFilters.apply(imageFilters.create(type, params), data, values.length, 1);
+    return values.map((_, i) => data[i * 4]);
+};
+
+const ramp = Array.from({ length: 256 }, (_, v) => v);
+
+describe('ImageFilters stack editing', () => {
+    it('creates filters with the default parameters', () => {
+        const filter = imageFilters.create('unsharpMask', { amount: 150 });
+        expect(filter).toMatchObject({ type: 'unsharpMask', enabled: true, params: { radius: 2, amount: 150, threshold: 0 } });
+        expect(Object.keys(filter.params)).toEqual(FILTER_DEFINITIONS.unsharpMask.params.map(([key]) => key));
+    });
+
+    it('moves and duplicates filters', () => {
+        const [a, b, c] = (['blur', 'sharpen', 'levels'] as ImageFilterType[]).map(type => imageFilters.create(type));
+        expect(imageFilters.move([a, b, c], 2, -2).map(f => f.type)).toEqual(['levels', 'blur', 'sharpen']);
+        expect(imageFilters.move([a, b, c], 2, 1)).toEqual([a, b, c]);
+
+        const copy = imageFilters.duplicate(b);
+        expect(copy.id).not.toBe(b.id);
+        expect(copy.params).toEqual(b.params);
+        expect(copy.params).not.toBe(b.params);
+    });
+});
+
+describe('ImageFilters.apply', () => {
+    it('stretches levels between the black and white points', () => {
+        expect(run('levels', { black: 50, white: 200 }, [0, 50, 125, 200, 255])).toEqual([0, 0, 128, 255, 255]);
+    });
+
+    it('leaves the image alone with the default curve and bends it smoothly otherwise', () => {
+        expect(run('curves', {}, ramp)).toEqual(ramp);
+
+        const lifted = run('curves', { midtones: 170 }, ramp);
+        expect(lifted[128]).toBe(170);
+        expect([lifted[0], lifted[255]]).toEqual([0, 255]);
+        for (let v = 1; v < 256; v++) expect(lifted[v]).toBeGreaterThanOrEqual(lifted[v - 1]);
+    });
+
+    it('spreads a low-contrast image with CLAHE', () => {
+        const width = 32, height = 32;
+        const data = new Uint8ClampedArray(width * height * 4);
+        for (let i = 0; i < width * height; i++) {
+            const v = 100 + ((i % width) * 20) / width; // 100-119 across
+            data.set([v, v, v, 255], i * 4);
+        }
+        imageFilters.apply(imageFilters.create('clahe', { tiles: 2, clipLimit: 10 }), data, width, height);
+
+        const row = Array.from({ length: width }, (_, x) => data[(16 * width + x) * 4]);
+        expect(Math.max(...row) - Math.min(...row)).toBeGreaterThan(100);
+    });
+
+    it('sharpens edges with an unsharp mask above the threshold only', () => {
+        const step = [...Array(8).fill(60), ...Array(8).fill(180)];
+        const sharpened = run('unsharpMask', { radius: 1, amount: 100 }, step);
+        expect(sharpened[7]).toBeLessThan(60);
+        expect(sharpened[8]).toBeGreaterThan(180);
+        expect(sharpened[0]).toBe(60);
+
+        const noise = [100, 104, 100, 104, 100, 104, 100, 104];
+        expect(run('unsharpMask', { radius: 1, amount: 200, threshold: 10 }, noise)).toEqual(noise);
+    });
+
+    it('gives different results in a different order', () => {
+        const width = 12, height = 12;
+        const source = new Uint8ClampedArray(width * height * 4);
+        for (let i = 0; i < width * height; i++) {
+            const v = (i % width < 6 ? 70 : 170) + (i % 7 === 0 ? 60 : 0); // Edge plus specks
+            source.set([v, v, v, 255], i * 4);
+        }
+        const stack = [imageFilters.create('sharpen', { amount: 6 }), imageFilters.create('noiseReduction', { strength: 3 })];
+        const apply = (filters: ImageFilter[]) => {
+            const image = { width, height, data: source.slice() };
+            imageProcessor.processPixels(image, { ...defaultImageSettings, filters });
+            return image.data;
+        };
+
+        expect(apply(stack)).not.toEqual(apply([...stack].reverse()));
+    });
+});
+
+describe('ImageFilters.upgradeSettings', () => {
+    it('turns the fixed adjustments into a stack that gives the same image', () => {
+        const legacy = { invert: true, brightness: 20, contrast: 30, gamma: 1.5, noiseReduction: 0, sharpen: 0, blur: 0, grayscale: true };
+        const settings = { ...defaultImageSettings, ...imageFilters.upgradeSettings(legacy) };
+        expect(settings.filters.map(f => f.type)).toEqual(['brightness', 'contrast', 'gamma']);
+
+        // The old fixed order: brightness, contrast, invert, gamma, clamped once at the end
+        const factor = (259 * (30 + 255)) / (255 * (259 - 30));
+        const expected = ramp.map(v => {
+            const inverted = 255 - (factor * (v + 20 - 128) + 128);
+            return Math.round(255 * Math.pow(Math.min(1, Math.max(0, inverted / 255)), 1 / 1.5));
+        });
+
+        const image = { width: 256, height: 1, data: greys(ramp) };
+        imageProcessor.processPixels(image, settings);
+        // Rounding between filters shows up a few times larger where gamma is steep, near black
+        ramp.forEach(v => expect(Math.abs(image.data[v * 4] - expected[v])).toBeLessThanOrEqual(expected[v] < 16 ? 5 : 2));
+    });
+
+    it('keeps current stacks and drops unknown filters', () => {
+        const blur = imageFilters.create('blur', { radius: 3 });
+        const upgraded = imageFilters.upgradeSettings({
+            invert: false,
+            filters: [blur, { id: 'x', type: 'posterize', enabled: true, params: {} }, { ...blur, id: undefined, params: {} }],
+        });
+
+        expect(upgraded.filters).toHaveLength(2);
+        expect(upgraded.filters![0]).toEqual(blur);
+        expect(upgraded.filters![1].params).toEqual({ radius: 2 });
+        expect(typeof upgraded.filters![1].id).toBe('string');
+    });
+
+    it('fills in missing background fields', () => {
+        const upgraded = imageFilters.upgradeSettings({ filters: [], background: { mode: 'flatten', level: 20 } });
+        expect(upgraded.background).toEqual({ ...defaultImageSettings.background, mode: 'flatten', level: 20 });
+        expect(imageFilters.upgradeSettings({ filters: [] })).not.toHaveProperty('background');
+    });
+
+    it('migrates version 1 projects', () => {
+        const manifest = projectManager.migrate({
+            format: 'studio-pro-lithophane',
+            version: 1,
+            savedAt: '2025-01-01T00:00:00.000Z',
+            imageSettings: { invert: false, sharpen: 4, blur: 1, contrast: 0, brightness: 0, gamma: 1, noiseReduction: 0, grayscale: true },
+            modelSettings: {},
+            gcodeSettings: {},
+            image: null,
+            calibrationCurve: null,
+        } as ProjectManifest);
+
+        expect(manifest.version).toBe(PROJECT_VERSION);
+        expect((manifest.imageSettings.filters as ImageFilter[]).map(f => [f.type, f.params])).toEqual([
+            ['sharpen', { amount: 4 }],
+            ['blur', { radius: 1 }],
+        ]);
+        expect(manifest.imageSettings).not.toHaveProperty('sharpen');
+    });
+});
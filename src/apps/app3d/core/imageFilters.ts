@@ -0,0 +1,415 @@
+import type { ImageFilter, ImageFilterType, ImageSettings } from '../types';
+import { defaultImageSettings } from '../store/defaults';
+
+// [key, label, min, max, step, default]
+export type FilterParam = [string, string, number, number, number, number];
+
+export interface FilterDefinition {
+    label: string;
+    params: FilterParam[];
+}
+
+export const FILTER_DEFINITIONS: Record<ImageFilterType, FilterDefinition> = {
+    brightness: { label: 'Brightness', params: [['amount', 'Amount', -100, 100, 1, 0]] },
+    contrast: { label: 'Contrast', params: [['amount', 'Amount', -100, 100, 1, 0]] },
+    gamma: { label: 'Gamma', params: [['gamma', 'Gamma', 0.1, 3, 0.05, 1]] },
+    levels: {
+        label: 'Levels',
+        params: [
+            ['black', 'Black Point', 0, 254, 1, 0],
+            ['white', 'White Point', 1, 255, 1, 255],
+            ['gamma', 'Midtones', 0.1, 3, 0.05, 1],
+        ],
+    },
+    curves: {
+        // Output at inputs 64, 128 and 192 of a smooth curve from black to white
+        label: 'Curves',
+        params: [
+            ['shadows', 'Shadows', 0, 255, 1, 64],
+            ['midtones', 'Midtones', 0, 255, 1, 128],
+            ['highlights', 'Highlights', 0, 255, 1, 192],
+        ],
+    },
+    clahe: {
+        label: 'Local Contrast (CLAHE)',
+        params: [
+            ['tiles', 'Tiles', 2, 16, 1, 8],
+            ['clipLimit', 'Clip Limit', 1, 10, 0.5, 2.5],
+        ],
+    },
+    noiseReduction: { label: 'Noise Reduction', params: [['strength', 'Strength', 1, 10, 1, 3]] },
+    sharpen: { label: 'Sharpen', params: [['amount', 'Amount', 1, 10, 1, 3]] },
+    unsharpMask: {
+        label: 'Unsharp Mask',
+        params: [
+            ['radius', 'Radius (px)', 0.5, 10, 0.5, 2],
+            ['amount', 'Amount (%)', 0, 300, 5, 100],
+            ['threshold', 'Threshold', 0, 50, 1, 0],
+        ],
+    },
+    blur: { label: 'Blur', params: [['radius', 'Radius (px)', 0.5, 20, 0.5, 2]] },
+};
+
+const FILTER_TYPES = Object.keys(FILTER_DEFINITIONS) as ImageFilterType[];
+
+// Inputs of the adjustable curve points
+const CURVE_INPUTS = [0, 64, 128, 192, 255];
+
+/**
+ * The image filter stack: building, editing and applying it. Filters work
+ * on RGBA pixels in place, one after the other, each clamping its result
+ * to 0-255.
+ */
+export class ImageFilters {
+
+    /**
+     * A new enabled filter with the default parameters, overridden by `params`.
+     */
+    public create(type: ImageFilterType, params: Record<string, number> = {}): ImageFilter {
+        const defaults = Object.fromEntries(FILTER_DEFINITIONS[type].params.map(([key, , , , , value]) => [key, value]));
+        return { id: this.newId(), type, enabled: true, params: { ...defaults, ...params } };
+    }
+
+    public duplicate(filter: ImageFilter): ImageFilter {
+        return { ...filter, id: this.newId(), params: { ...filter.params } };
+    }
+
+    /**
+     * The stack with the filter at `index` moved by `offset` places.
+     */
+    public move(filters: ImageFilter[], index: number, offset: number): ImageFilter[] {
+        const target = index + offset;
+        if (target < 0 || target >= filters.length) return filters;
+        const next = filters.slice();
+        const [filter] = next.splice(index, 1);
+        next.splice(target, 0, filter);
+        return next;
+    }
+
+    /**
+     * Image settings as saved: the current shape with unknown filters
+     * dropped, or the fixed fields of before the filter stack (brightness,
+     * contrast, invert, gamma, noise reduction, sharpen, blur, applied in
+     * that order) as the stack that gives the same image. Missing background
+     * fields take their defaults.
+     */
+    public upgradeSettings(saved: Record<string, unknown> | undefined): Partial<ImageSettings> {
+        if (!saved) return {};
+        const { invert, grayscale, filters, background } = saved;
+        const settings: Partial<ImageSettings> = {};
+        if (typeof invert === 'boolean') settings.invert = invert;
+        if (typeof grayscale === 'boolean') settings.grayscale = grayscale;
+        if (background && typeof background === 'object') {
+            settings.background = { ...defaultImageSettings.background, ...background };
+        }
+
+        if (Array.isArray(filters)) {
+            settings.filters = filters
+                .filter((f): f is ImageFilter => typeof f?.type === 'string' && FILTER_TYPES.includes(f.type))
+                .map(f => ({
+                    id: typeof f.id === 'string' ? f.id : this.newId(),
+                    type: f.type,
+                    enabled: f.enabled !== false,
+                    params: { ...this.create(f.type).params, ...f.params },
+                }));
+            return settings;
+        }
+
+        const value = (key: string, neutral: number) => typeof saved[key] === 'number' ? saved[key] as number : neutral;
+        const stack: ImageFilter[] = [];
+        // Invert now comes first; brightness after it works the other way round
+        const brightness = value('brightness', 0) * (invert === true ? -1 : 1);
+        if (brightness !== 0) stack.push(this.create('brightness', { amount: brightness }));
+        if (value('contrast', 0) !== 0) stack.push(this.create('contrast', { amount: value('contrast', 0) }));
+        if (value('gamma', 1) !== 1) stack.push(this.create('gamma', { gamma: value('gamma', 1) }));
+        if (value('noiseReduction', 0) > 0) stack.push(this.create('noiseReduction', { strength: value('noiseReduction', 0) }));
+        if (value('sharpen', 0) > 0) stack.push(this.create('sharpen', { amount: value('sharpen', 0) }));
+        if (value('blur', 0) > 0) stack.push(this.create('blur', { radius: value('blur', 0) }));
+        settings.filters = stack;
+        return settings;
+    }
+
+    /**
+     * Runs one filter over the pixels in place.
+     */
+    public apply(filter: ImageFilter, data: Uint8ClampedArray, width: number, height: number) {
+        const param = (key: string) => filter.params[key] ?? FILTER_DEFINITIONS[filter.type].params.find(p => p[0] === key)![5];
+
+        switch (filter.type) {
+            case 'brightness': {
+                const amount = param('amount');
+                return this.applyLut(data, v => v + amount);
+            }
+            case 'contrast': {
+                const contrast = param('amount');
+                const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+                return this.applyLut(data, v => factor * (v - 128) + 128);
+            }
+            case 'gamma': {
+                const gamma = Math.max(0.01, param('gamma'));
+                return this.applyLut(data, v => 255 * Math.pow(v / 255, 1 / gamma));
+            }
+            case 'levels': {
+                const black = param('black');
+                const white = Math.max(black + 1, param('white'));
+                const gamma = Math.max(0.01, param('gamma'));
+                return this.applyLut(data, v => 255 * Math.pow(Math.min(1, Math.max(0, (v - black) / (white - black))), 1 / gamma));
+            }
+            case 'curves': {
+                const curve = this.monotoneCurve(CURVE_INPUTS, [0, param('shadows'), param('midtones'), param('highlights'), 255]);
+                return this.applyLut(data, curve);
+            }
+            case 'clahe':
+                return this.clahe(data, width, height, Math.round(param('tiles')), param('clipLimit'));
+            case 'noiseReduction':
+                return this.median(data, width, height, Math.ceil(param('strength') / 3));
+            case 'sharpen':
+                return this.sharpen(data, width, height, param('amount') / 10);
+            case 'unsharpMask':
+                return this.unsharpMask(data, width, height, param('radius'), param('amount') / 100, param('threshold'));
+            case 'blur':
+                return this.gaussianBlur(data, width, height, param('radius'));
+        }
+    }
+
+    /**
+     * Maps R, G and B through a 256-entry table built from `map`; alpha is kept.
+     */
+    private applyLut(data: Uint8ClampedArray, map: (value: number) => number) {
+        const lut = new Uint8ClampedArray(256);
+        for (let v = 0; v < 256; v++) lut[v] = map(v);
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = lut[data[i]];
+            data[i + 1] = lut[data[i + 1]];
+            data[i + 2] = lut[data[i + 2]];
+        }
+    }
+
+    /**
+     * Piecewise cubic through the points without overshoot (Fritsch–Carlson).
+     */
+    private monotoneCurve(xs: number[], ys: number[]): (x: number) => number {
+        const n = xs.length;
+        const slopes = xs.slice(1).map((x, k) => (ys[k + 1] - ys[k]) / (x - xs[k]));
+        const tangents = xs.map((_, k) => {
+            if (k === 0) return slopes[0];
+            if (k === n - 1) return slopes[n - 2];
+            return slopes[k - 1] * slopes[k] <= 0 ? 0 : (slopes[k - 1] + slopes[k]) / 2;
+        });
+        for (let k = 0; k < n - 1; k++) {
+            if (slopes[k] === 0) {
+                tangents[k] = tangents[k + 1] = 0;
+                continue;
+            }
+            const a = tangents[k] / slopes[k], b = tangents[k + 1] / slopes[k];
+            const h = Math.hypot(a, b);
+            if (h > 3) {
+                tangents[k] = (3 / h) * a * slopes[k];
+                tangents[k + 1] = (3 / h) * b * slopes[k];
+            }
+        }
+
+        return (x: number) => {
+            let k = 0;
+            while (k < n - 2 && x > xs[k + 1]) k++;
+            const dx = xs[k + 1] - xs[k];
+            const t = (x - xs[k]) / dx;
+            const t2 = t * t, t3 = t2 * t;
+            return (2 * t3 - 3 * t2 + 1) * ys[k] + (t3 - 2 * t2 + t) * dx * tangents[k]
+                + (-2 * t3 + 3 * t2) * ys[k + 1] + (t3 - t2) * dx * tangents[k + 1];
+        };
+    }
+
+    /**
+     * Contrast-limited adaptive histogram equalization on the luminance:
+     * an equalizing curve per tile, clipped at `clipLimit` times the mean
+     * bin, blended bilinearly between tile centres. Colour channels move
+     * with the luminance.
+     */
+    private clahe(data: Uint8ClampedArray, width: number, height: number, tiles: number, clipLimit: number) {
+        const tilesX = Math.max(1, Math.min(tiles, width));
+        const tilesY = Math.max(1, Math.min(tiles, height));
+        const luminance = new Uint8Array(width * height);
+        for (let i = 0; i < luminance.length; i++) {
+            luminance[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+        }
+
+        const luts = new Float32Array(tilesX * tilesY * 256);
+        const histogram = new Float32Array(256);
+        for (let ty = 0; ty < tilesY; ty++) {
+            const y0 = Math.floor((ty * height) / tilesY), y1 = Math.floor(((ty + 1) * height) / tilesY);
+            for (let tx = 0; tx < tilesX; tx++) {
+                const x0 = Math.floor((tx * width) / tilesX), x1 = Math.floor(((tx + 1) * width) / tilesX);
+                histogram.fill(0);
+                for (let y = y0; y < y1; y++) {
+                    for (let x = x0; x < x1; x++) histogram[luminance[y * width + x]]++;
+                }
+
+                // Clip the peaks and spread what was cut off over all levels
+                const count = (x1 - x0) * (y1 - y0);
+                const limit = Math.max(1, (clipLimit * count) / 256);
+                let excess = 0;
+                for (let v = 0; v < 256; v++) {
+                    if (histogram[v] > limit) {
+                        excess += histogram[v] - limit;
+                        histogram[v] = limit;
+                    }
+                }
+
+                const lut = (ty * tilesX + tx) * 256;
+                let sum = 0;
+                for (let v = 0; v < 256; v++) {
+                    sum += histogram[v] + excess / 256;
+                    luts[lut + v] = (sum / count) * 255;
+                }
+            }
+        }
+
+        // Position between the tile centres, clamped at the borders
+        const cell = (position: number, size: number, count: number) => {
+            const g = Math.min(count - 1, Math.max(0, ((position + 0.5) * count) / size - 0.5));
+            const i0 = Math.floor(g);
+            return [i0, Math.min(count - 1, i0 + 1), g - i0];
+        };
+
+        for (let y = 0; y < height; y++) {
+            const [ty0, ty1, fy] = cell(y, height, tilesY);
+            for (let x = 0; x < width; x++) {
+                const [tx0, tx1, fx] = cell(x, width, tilesX);
+                const i = y * width + x;
+                const v = luminance[i];
+                const top = luts[(ty0 * tilesX + tx0) * 256 + v] * (1 - fx) + luts[(ty0 * tilesX + tx1) * 256 + v] * fx;
+                const bottom = luts[(ty1 * tilesX + tx0) * 256 + v] * (1 - fx) + luts[(ty1 * tilesX + tx1) * 256 + v] * fx;
+                const shift = top * (1 - fy) + bottom * fy - v;
+
+                data[i * 4] += shift;
+                data[i * 4 + 1] += shift;
+                data[i * 4 + 2] += shift;
+            }
+        }
+    }
+
+    /**
+     * 3x3 median, `iterations` times. Border pixels are kept.
+     */
+    private median(data: Uint8ClampedArray, width: number, height: number, iterations: number) {
+        const values = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+        for (let iter = 0; iter < iterations; iter++) {
+            const copy = new Uint8ClampedArray(data);
+            for (let y = 1; y < height - 1; y++) {
+                for (let x = 1; x < width - 1; x++) {
+                    const idx = (y * width + x) * 4;
+                    for (let c = 0; c < 3; c++) {
+                        let k = 0;
+                        for (let ky = -1; ky <= 1; ky++) {
+                            for (let kx = -1; kx <= 1; kx++) values[k++] = copy[((y + ky) * width + (x + kx)) * 4 + c];
+                        }
+                        values.sort((a, b) => a - b);
+                        data[idx + c] = values[4];
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Laplacian sharpening (center 1 + 4a, neighbours -a). Border pixels are kept.
+     */
+    private sharpen(data: Uint8ClampedArray, width: number, height: number, amount: number) {
+        const copy = new Uint8ClampedArray(data);
+        const wCenter = 1 + 4 * amount;
+        const wNeighbor = -amount;
+
+        for (let y = 1; y < height - 1; y++) {
+            for (let x = 1; x < width - 1; x++) {
+                const idx = (y * width + x) * 4;
+                const idxTop = idx - width * 4;
+                const idxBottom = idx + width * 4;
+
+                for (let c = 0; c < 3; c++) {
+                    data[idx + c] = copy[idx + c] * wCenter +
+                        (copy[idxTop + c] + copy[idxBottom + c] + copy[idx - 4 + c] + copy[idx + 4 + c]) * wNeighbor;
+                }
+            }
+        }
+    }
+
+    /**
+     * Adds `amount` times the difference to a blurred copy where it is at
+     * least `threshold` (so flat, noisy areas stay untouched).
+     */
+    private unsharpMask(data: Uint8ClampedArray, width: number, height: number, radius: number, amount: number, threshold: number) {
+        const blurred = new Uint8ClampedArray(data);
+        this.gaussianBlur(blurred, width, height, radius);
+
+        for (let i = 0; i < data.length; i++) {
+            if (i % 4 === 3) continue;
+            const difference = data[i] - blurred[i];
+            if (Math.abs(difference) >= threshold) data[i] = data[i] + amount * difference;
+        }
+    }
+
+    /**
+     * Gaussian-like blur (three box passes) with standard deviation
+     * `radius` px, like the canvas blur() filter but with clamped edges.
+     */
+    private gaussianBlur(data: Uint8ClampedArray, width: number, height: number, radius: number) {
+        if (radius <= 0) return;
+
+        const channel = new Float32Array(width * height);
+        for (let c = 0; c < 4; c++) {
+            for (let i = 0; i < channel.length; i++) channel[i] = data[i * 4 + c];
+            this.blurValues(channel, width, height, radius);
+            for (let i = 0; i < channel.length; i++) data[i * 4 + c] = channel[i];
+        }
+    }
+
+    /**
+     * The same blur on one value per pixel (a heightmap or a mask), in place.
+     */
+    public blurValues(values: Float32Array, width: number, height: number, radius: number) {
+        if (radius <= 0) return;
+
+        // Box widths whose three passes approximate the Gaussian
+        const ideal = Math.sqrt((12 * radius * radius) / 3 + 1);
+        let lower = Math.floor(ideal);
+        if (lower % 2 === 0) lower--;
+        const m = Math.round((12 * radius * radius - 3 * lower * lower - 12 * lower - 9) / (-4 * lower - 4));
+        const boxes = [0, 1, 2].map(i => ((i < m ? lower : lower + 2) - 1) / 2);
+
+        const temp = new Float32Array(width * height);
+        for (const r of boxes) {
+            if (r <= 0) continue;
+            this.boxPass(values, temp, width, height, r, true);
+            this.boxPass(temp, values, width, height, r, false);
+        }
+    }
+
+    /**
+     * Running-sum box average of radius r along rows or columns, edges clamped.
+     */
+    private boxPass(src: Float32Array, dst: Float32Array, width: number, height: number, r: number, horizontal: boolean) {
+        const lines = horizontal ? height : width;
+        const length = horizontal ? width : height;
+        const step = horizontal ? 1 : width;
+        const norm = 1 / (2 * r + 1);
+
+        for (let line = 0; line < lines; line++) {
+            const start = horizontal ? line * width : line;
+            const at = (k: number) => src[start + Math.max(0, Math.min(length - 1, k)) * step];
+            let sum = 0;
+            for (let k = -r; k <= r; k++) sum += at(k);
+            for (let k = 0; k < length; k++) {
+                dst[start + k * step] = sum * norm;
+                sum += at(k + r + 1) - at(k - r);
+            }
+        }
+    }
+
+    private newId(): string {
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+}
+
+export const imageFilters = new ImageFilters();
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { imageProcessor } from './imageProcessor';
+import type { RgbaImage } from './imageProcessor';
+import { imageFilters } from './imageFilters';
+import { defaultImageSettings } from '../store/defaults';
+import type { ImageSettings, ImageFilterType } from '../types';
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => [number, number, number, number?]): RgbaImage => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const [r, g, b, a = 255] = pixel(x, y);
+            data.set([r, g, b, a], (y * width + x) * 4);
+        }
+    }
+    return { width, height, data };
+};
+
+const grey = (width: number, height: number, value: number) => image(width, height, () => [value, value, value]);
+
+const filtered = (source: RgbaImage, overrides: Partial<ImageSettings>) => {
+    imageProcessor.processPixels(source, { ...defaultImageSettings, ...overrides });
+    return source;
+};
+
+// A one-filter stack
+const only = (type: ImageFilterType, params: Record<string, number>): Partial<ImageSettings> => ({
+    filters: [imageFilters.create(type, params)],
+});
+
+const red = (img: RgbaImage, x: number, y: number) => img.data[(y * img.width + x) * 4];
+
+describe('ImageProcessor.processPixels', () => {
+    it('leaves the pixels alone without filters', () => {
+        const source = image(4, 4, (x, y) => [x * 60, y * 60, 30]);
+        const before = source.data.slice();
+        filtered(source, { grayscale: false });
+        expect(source.data).toEqual(before);
+    });
+
+    it('converts to luminance and keeps alpha', () => {
+        const result = filtered(image(1, 1, () => [255, 0, 0, 77]), {});
+        expect(Array.from(result.data)).toEqual([76, 76, 76, 77]);
+    });
+
+    it('applies brightness, contrast, invert and gamma as point operations', () => {
+        expect(red(filtered(grey(1, 1, 100), only('brightness', { amount: 20 })), 0, 0)).toBe(120);
+        expect(red(filtered(grey(1, 1, 10), only('brightness', { amount: -20 })), 0, 0)).toBe(0);
+        expect(red(filtered(grey(1, 1, 40), { invert: true }), 0, 0)).toBe(215);
+
+        // Contrast pivots around mid grey
+        expect(red(filtered(grey(1, 1, 128), only('contrast', { amount: 80 })), 0, 0)).toBe(128);
+        expect(red(filtered(grey(1, 1, 160), only('contrast', { amount: 80 })), 0, 0)).toBeGreaterThan(160);
+        expect(red(filtered(grey(1, 1, 96), only('contrast', { amount: 80 })), 0, 0)).toBeLessThan(96);
+
+        // Gamma 2 lifts the midtones: 255 * (64 / 255) ^ (1 / 2)
+        expect(red(filtered(grey(1, 1, 64), only('gamma', { gamma: 2 })), 0, 0)).toBe(128);
+        expect(red(filtered(grey(1, 1, 255), only('gamma', { gamma: 2 })), 0, 0)).toBe(255);
+    });
+
+    it('inverts before the filters and skips disabled ones', () => {
+        const brighten = imageFilters.create('brightness', { amount: 20 });
+        expect(red(filtered(grey(1, 1, 100), { invert: true, filters: [brighten] }), 0, 0)).toBe(175);
+        expect(red(filtered(grey(1, 1, 100), { filters: [{ ...brighten, enabled: false }] }), 0, 0)).toBe(100);
+    });
+
+    it('removes an isolated speck with noise reduction', () => {
+        const source = image(5, 5, (x, y) => x === 2 && y === 2 ? [255, 255, 255] : [50, 50, 50]);
+        expect(red(filtered(source, only('noiseReduction', { strength: 1 })), 2, 2)).toBe(50);
+    });
+
+    it('sharpens edges but not flat areas', () => {
+        expect(filtered(grey(5, 5, 90), only('sharpen', { amount: 10 })).data.every((v, i) => v === (i % 4 === 3 ? 255 : 90))).toBe(true);
+
+        // Vertical step from 50 to 150 between columns 2 and 3
+        const step = filtered(image(6, 3, x => x < 3 ? [50, 50, 50] : [150, 150, 150]), only('sharpen', { amount: 10 }));
+        expect(red(step, 2, 1)).toBeLessThan(50);
+        expect(red(step, 3, 1)).toBeGreaterThan(150);
+    });
+
+    it('blurs symmetrically without darkening the edges', () => {
+        expect(filtered(grey(7, 7, 200), only('blur', { radius: 2 })).data.every((v, i) => v === (i % 4 === 3 ? 255 : 200))).toBe(true);
+
+        const dot = filtered(image(13, 13, (x, y) => x === 6 && y === 6 ? [255, 255, 255] : [0, 0, 0]), only('blur', { radius: 2 }));
+        expect(red(dot, 6, 6)).toBeLessThan(255);
+        expect(red(dot, 6, 6)).toBeGreaterThan(red(dot, 8, 6));
+        expect(red(dot, 8, 6)).toBeGreaterThan(0);
+        expect(red(dot, 4, 6)).toBe(red(dot, 8, 6));
+        expect(red(dot, 6, 4)).toBe(red(dot, 6, 8));
+    });
+});
+
+describe('ImageProcessor.resizePixels', () => {
+    it('area-averages down to the maximum resolution, keeping the aspect ratio', () => {
+        const checker = image(8, 4, (x, y) => (x + y) % 2 ? [255, 255, 255] : [0, 0, 0]);
+        const small = imageProcessor.resizePixels(checker, 4);
+
+        expect([small.width, small.height]).toEqual([4, 2]);
+        expect(Array.from(small.data.subarray(0, 4))).toEqual([128, 128, 128, 255]);
+    });
+
+    it('returns a copy when the image already fits', () => {
+        const source = grey(3, 2, 10);
+        const copy = imageProcessor.resizePixels(source, 16);
+        expect(copy.data).not.toBe(source.data);
+        expect(copy.data).toEqual(source.data);
+    });
+});
+
+describe('ImageProcessor.generateHeightmap', () => {
+    it('maps luminance to 0-1 and transparent pixels to 0', () => {
+        const heightmap = imageProcessor.generateHeightmap(image(3, 1, x => x === 1 ? [0, 0, 0] : [255, 255, 255, x === 2 ? 0 : 255]));
+        expect(heightmap[0]).toBeCloseTo(1, 5);
+        expect(heightmap[1]).toBe(0);
+        expect(heightmap[2]).toBe(0);
+    });
+});
@@ -1,25 +1,46 @@
 import type { ImageSettings } from '../types';
+import { imageFilters, FILTER_DEFINITIONS } from './imageFilters';
 
 export const PROCESSOR_CONSTANTS = {
     MAX_WIDTH: 4096, // Limit processing resolution for performance
     MAX_HEIGHT: 4096,
 };
 
+/**
+ * RGBA pixels, 4 bytes per pixel, row 0 at the top. ImageData fits, and so
+ * does a buffer decoded without a DOM.
+ */
+export interface RgbaImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
 export class ImageProcessor {
-    private canvas: HTMLCanvasElement;
-    private ctx: CanvasRenderingContext2D;
-
-    constructor() {
-        this.canvas = document.createElement('canvas');
-        const context = this.canvas.getContext('2d', { willReadFrequently: true });
-        if (!context) throw new Error('Could not get canvas context');
-        this.ctx = context;
+    private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+
+    /**
+     * Working canvas, created on first use so the pixel-only methods also
+     * run where there is no canvas at all (Node).
+     */
+    private context() {
+        if (!this.canvas || !this.ctx) {
+            // Inside a worker there is no DOM: fall back to an OffscreenCanvas
+            this.canvas = typeof document !== 'undefined'
+                ? document.createElement('canvas')
+                : new OffscreenCanvas(1, 1);
+            const context = this.canvas.getContext('2d', { willReadFrequently: true });
+            if (!context) throw new Error('Could not get canvas context');
+            this.ctx = context as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+        }
+        return { canvas: this.canvas, ctx: this.ctx };
     }
 
     /**
-     * Loads an image from a File object
+     * Loads an image from a File (or any image Blob)
      */
-    public async loadImage(file: File): Promise<HTMLImageElement> {
+    public async loadImage(file: Blob): Promise<HTMLImageElement> {
         return new Promise((resolve, reject) => {
             const img = new Image();
             const url = URL.createObjectURL(file);
@@ -41,180 +62,113 @@ export class ImageProcessor {
     /**
      * Processes the image with the given settings and returns ImageData
      */
-    public processImage(img: HTMLImageElement, settings: ImageSettings, maxResolution: number = 2048): ImageData {
-        // Resize logic to keep performance up or match quality setting
-        let { width, height } = img;
-
-        if (width > maxResolution || height > maxResolution) {
-            const ratio = Math.min(maxResolution / width, maxResolution / height);
-            width = Math.floor(width * ratio);
-            height = Math.floor(height * ratio);
-        }
-
-        this.canvas.width = width;
-        this.canvas.height = height;
-
-        // Draw original image
-        this.ctx.filter = 'none';
-        this.ctx.drawImage(img, 0, 0, width, height);
-
-        // Get pixel data
-        const imageData = this.ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        // Manual processing for better control than CSS filters
-        this.applyFilters(data, settings, width, height);
-
-        // Put back to canvas to apply blur if needed (easier with context filter)
-        this.ctx.putImageData(imageData, 0, 0);
-
-        if (settings.blur > 0) {
-            this.ctx.filter = `blur(${settings.blur}px)`;
-            this.ctx.drawImage(this.canvas, 0, 0);
-            return this.ctx.getImageData(0, 0, width, height);
-        }
-
+    public processImage(
+        img: HTMLImageElement | ImageBitmap,
+        settings: ImageSettings,
+        maxResolution: number = 2048,
+        onProgress?: (stage: string, progress: number) => void
+    ): ImageData {
+        const imageData = this.resizeImage(img, maxResolution);
+        this.processPixels(imageData, settings, onProgress);
         return imageData;
     }
 
-    private applyFilters(data: Uint8ClampedArray, settings: ImageSettings, width: number, height: number) {
-        const { invert, contrast, brightness, grayscale, sharpen, gamma, noiseReduction } = settings;
+    /**
+     * Applies the image settings to the pixels in place: grayscale and
+     * invert, then the enabled filters in stack order. Needs no canvas.
+     */
+    public processPixels(image: RgbaImage, settings: ImageSettings, onProgress?: (stage: string, progress: number) => void) {
+        const { width, height, data } = image;
 
-        // Contrast factor
-        const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+        onProgress?.('Filtering image', 0.1);
+        this.applyTone(data, settings);
 
-        // 1. Point operations (Brightness, Contrast, Invert, Grayscale, Gamma)
-        for (let i = 0; i < data.length; i += 4) {
-            let r = data[i];
-            let g = data[i + 1];
-            let b = data[i + 2];
-            // a = data[i + 3]
-
-            // Grayscale (Luminance)
-            if (grayscale) {
-                const avg = 0.299 * r + 0.587 * g + 0.114 * b;
-                r = g = b = avg;
-            }
+        const active = settings.filters.filter(filter => filter.enabled);
+        active.forEach((filter, i) => {
+            onProgress?.(FILTER_DEFINITIONS[filter.type].label, 0.1 + (0.5 * i) / active.length);
+            imageFilters.apply(filter, data, width, height);
+        });
+    }
 
-            // Brightness
-            r += brightness;
-            g += brightness;
-            b += brightness;
+    /**
+     * Draws the unfiltered image scaled to fit maxResolution and returns its pixels.
+     * Leaves the image on the working canvas.
+     */
+    public resizeImage(img: HTMLImageElement | ImageBitmap, maxResolution: number = 2048): ImageData {
+        const { canvas, ctx } = this.context();
 
-            // Contrast
-            r = factor * (r - 128) + 128;
-            g = factor * (g - 128) + 128;
-            b = factor * (b - 128) + 128;
+        // Resize logic to keep performance up or match quality setting
+        const { width, height } = this.fitSize(img.width, img.height, maxResolution);
 
-            // Invert
-            if (invert) {
-                r = 255 - r;
-                g = 255 - g;
-                b = 255 - b;
-            }
+        canvas.width = width;
+        canvas.height = height;
 
-            // Gamma Correction
-            if (gamma !== 1.0 && gamma > 0) {
-                r = 255 * Math.pow(r / 255, 1 / gamma);
-                g = 255 * Math.pow(g / 255, 1 / gamma);
-                b = 255 * Math.pow(b / 255, 1 / gamma);
-            }
+        // Draw original image
+        ctx.filter = 'none';
+        ctx.drawImage(img, 0, 0, width, height);
 
-            // Clamp
-            data[i] = Math.max(0, Math.min(255, r));
-            data[i + 1] = Math.max(0, Math.min(255, g));
-            data[i + 2] = Math.max(0, Math.min(255, b));
-        }
+        return ctx.getImageData(0, 0, width, height);
+    }
 
-        // 2. Noise Reduction (Median Filter) - if noiseReduction > 0
-        if (noiseReduction > 0) {
-            // Amount determines radius or strength?
-            // Let's use it as radius/strength mix.
-            // For simplicity/performance in JS, let's stick to 3x3 median.
-            // If noiseReduction is high, maybe repeat it?
-
-            const iterations = Math.ceil(noiseReduction / 3);
-
-            for (let iter = 0; iter < iterations; iter++) {
-                const copy = new Uint8ClampedArray(data);
-                const w = width;
-                const h = height;
-
-                for (let y = 1; y < h - 1; y++) {
-                    for (let x = 1; x < w - 1; x++) {
-                        const idx = (y * w + x) * 4;
-
-                        // Collect 3x3 neighborhood for each channel
-                        const rVals = [];
-                        const gVals = [];
-                        const bVals = [];
-
-                        for (let ky = -1; ky <= 1; ky++) {
-                            for (let kx = -1; kx <= 1; kx++) {
-                                const nIdx = ((y + ky) * w + (x + kx)) * 4;
-                                rVals.push(copy[nIdx]);
-                                gVals.push(copy[nIdx + 1]);
-                                bVals.push(copy[nIdx + 2]);
-                            }
-                        }
-
-                        rVals.sort((a, b) => a - b);
-                        gVals.sort((a, b) => a - b);
-                        bVals.sort((a, b) => a - b);
-
-                        data[idx] = rVals[4]; // Median
-                        data[idx + 1] = gVals[4];
-                        data[idx + 2] = bVals[4];
+    /**
+     * Pixel-only counterpart of resizeImage: a copy scaled down (area
+     * average) to fit maxResolution.
+     */
+    public resizePixels(image: RgbaImage, maxResolution: number = 2048): RgbaImage {
+        const { width: sw, height: sh, data: src } = image;
+        const { width, height } = this.fitSize(sw, sh, maxResolution);
+        if (width === sw && height === sh) return { width, height, data: src.slice() };
+
+        const data = new Uint8ClampedArray(width * height * 4);
+        const sum = [0, 0, 0, 0];
+        for (let y = 0; y < height; y++) {
+            const y0 = Math.floor((y * sh) / height);
+            const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * sh) / height));
+            for (let x = 0; x < width; x++) {
+                const x0 = Math.floor((x * sw) / width);
+                const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * sw) / width));
+                sum.fill(0);
+                for (let sy = y0; sy < y1; sy++) {
+                    for (let sx = x0; sx < x1; sx++) {
+                        const i = (sy * sw + sx) * 4;
+                        sum[0] += src[i];
+                        sum[1] += src[i + 1];
+                        sum[2] += src[i + 2];
+                        sum[3] += src[i + 3];
                     }
                 }
+                const count = (y1 - y0) * (x1 - x0);
+                const o = (y * width + x) * 4;
+                for (let c = 0; c < 4; c++) data[o + c] = sum[c] / count;
             }
         }
+        return { width, height, data };
+    }
 
-        // 3. Convolution (Sharpen) - Only if sharpen > 0
-        // We do this after point ops. It's expensive (O(N)).
-        if (sharpen > 0) {
-            // Simple sharpen kernel
-            //  0 -1  0
-            // -1  5 -1
-            //  0 -1  0
-            // adjusted by amount.
-
-            // Amount 0-10. 
-            // mix original with sharpened.
-
-            const w = width;
-            const h = height;
-            const copy = new Uint8ClampedArray(data); // Need copy of source
-
-            const amount = sharpen / 10.0; // 0 to 1 scaling roughly
-
-            // Weights
-            // Center = 1 + 4*amount
-            // Neighbor = -amount
-
-            const wCenter = 1 + 4 * amount;
-            const wNeighbor = -amount;
-
-            for (let y = 0; y < h; y++) {
-                for (let x = 0; x < w; x++) {
-                    const idx = (y * w + x) * 4;
-
-                    // Skip edges for simplicity
-                    if (x === 0 || x === w - 1 || y === 0 || y === h - 1) continue;
-
-                    const idxTop = ((y - 1) * w + x) * 4;
-                    const idxBottom = ((y + 1) * w + x) * 4;
-                    const idxLeft = (y * w + (x - 1)) * 4;
-                    const idxRight = (y * w + (x + 1)) * 4;
+    private fitSize(width: number, height: number, maxResolution: number) {
+        if (width > maxResolution || height > maxResolution) {
+            const ratio = Math.min(maxResolution / width, maxResolution / height);
+            return { width: Math.floor(width * ratio), height: Math.floor(height * ratio) };
+        }
+        return { width, height };
+    }
 
-                    for (let c = 0; c < 3; c++) { // R, G, B
-                        const val =
-                            copy[idx + c] * wCenter +
-                            (copy[idxTop + c] + copy[idxBottom + c] + copy[idxLeft + c] + copy[idxRight + c]) * wNeighbor;
+    /**
+     * Luminance and negative, per pixel.
+     */
+    private applyTone(data: Uint8ClampedArray, settings: ImageSettings) {
+        const { grayscale, invert } = settings;
+        if (!grayscale && !invert) return;
 
-                        data[idx + c] = Math.min(255, Math.max(0, val));
-                    }
-                }
+        for (let i = 0; i < data.length; i += 4) {
+            if (grayscale) {
+                const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+                data[i] = data[i + 1] = data[i + 2] = luminance;
+            }
+            if (invert) {
+                data[i] = 255 - data[i];
+                data[i + 1] = 255 - data[i + 1];
+                data[i + 2] = 255 - data[i + 2];
             }
         }
     }
@@ -223,7 +177,7 @@ export class ImageProcessor {
      * Generates a heightmap (array of Z values) from ImageData
      * Returns a Float32Array where values are 0-1 (normalized height)
      */
-    public generateHeightmap(imageData: ImageData): Float32Array {
+    public generateHeightmap(imageData: RgbaImage): Float32Array {
         const { width, height, data } = imageData;
         const heightmap = new Float32Array(width * height);
 
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { imageStats } from './imageStats';
+
+describe('ImageStats', () => {
+    it('counts luminance levels', () => {
+        const data = new Uint8ClampedArray([
+            0, 0, 0, 255,
+            255, 255, 255, 255,
+            255, 0, 0, 255, // Red: 0.299 * 255
+            255, 255, 255, 0,
+        ]);
+        const histogram = imageStats.luminanceHistogram({ width: 4, height: 1, data });
+
+        expect(histogram[0]).toBe(1);
+        expect(histogram[76]).toBe(1);
+        expect(histogram[255]).toBe(2);
+        expect(histogram.reduce((a, b) => a + b, 0)).toBe(4);
+    });
+
+    it('reports and tints the heights pinned at either limit', () => {
+        const heightmap = Float32Array.from([0, 0.001, 0.5, 0.999, 1, 0.3, 0.3, 0.3]);
+
+        expect(imageStats.clipping(heightmap)).toEqual({ low: 2 / 8, high: 2 / 8 });
+        expect(imageStats.clipping(new Float32Array(0))).toEqual({ low: 0, high: 0 });
+
+        const overlay = imageStats.clippingOverlay(heightmap);
+        const alpha = Array.from({ length: 8 }, (_, i) => overlay[i * 4 + 3]);
+        expect(alpha.map(a => a > 0)).toEqual([true, true, false, true, true, false, false, false]);
+        expect(overlay[2]).toBeGreaterThan(overlay[0]); // Blue at the minimum
+        expect(overlay[4 * 4]).toBeGreaterThan(overlay[4 * 4 + 2]); // Red at the maximum
+    });
+
+    it('turns a height into the printed thickness', () => {
+        const settings = { baseHeight: 0.8, depth: 2.4 };
+        expect(imageStats.thickness(0, settings)).toBeCloseTo(0.8);
+        expect(imageStats.thickness(0.5, settings)).toBeCloseTo(2);
+        expect(imageStats.thickness(1.2, settings)).toBeCloseTo(3.2);
+    });
+});
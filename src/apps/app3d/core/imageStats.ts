@@ -0,0 +1,69 @@
+import type { ModelSettings } from '../types';
+import type { RgbaImage } from './imageProcessor';
+
+// Heights this close to 0 or 1 print at the thickness limit
+const CLIP_TOLERANCE = 0.5 / 255;
+
+/**
+ * Share (0-1) of the heightmap pinned at either thickness limit, where
+ * detail is lost.
+ */
+export interface ClippingReport {
+    low: number; // At the minimum thickness
+    high: number; // At the maximum thickness
+}
+
+// Overlay tints, RGBA
+const LOW_TINT = [56, 189, 248, 170];
+const HIGH_TINT = [239, 68, 68, 170];
+
+/**
+ * Numbers behind the before/after comparison: histograms, clipping and
+ * the printed thickness of a pixel.
+ */
+export class ImageStats {
+
+    /**
+     * Pixel count per luminance level (0-255).
+     */
+    public luminanceHistogram(image: RgbaImage): Uint32Array {
+        const { data } = image;
+        const histogram = new Uint32Array(256);
+        for (let i = 0; i < data.length; i += 4) {
+            histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+        }
+        return histogram;
+    }
+
+    public clipping(heightmap: Float32Array): ClippingReport {
+        let low = 0, high = 0;
+        for (let i = 0; i < heightmap.length; i++) {
+            if (heightmap[i] <= CLIP_TOLERANCE) low++;
+            else if (heightmap[i] >= 1 - CLIP_TOLERANCE) high++;
+        }
+        const count = Math.max(1, heightmap.length);
+        return { low: low / count, high: high / count };
+    }
+
+    /**
+     * Clipped pixels tinted (blue at the minimum, red at the maximum
+     * thickness), the rest transparent.
+     */
+    public clippingOverlay(heightmap: Float32Array): Uint8ClampedArray {
+        const data = new Uint8ClampedArray(heightmap.length * 4);
+        for (let i = 0; i < heightmap.length; i++) {
+            if (heightmap[i] <= CLIP_TOLERANCE) data.set(LOW_TINT, i * 4);
+            else if (heightmap[i] >= 1 - CLIP_TOLERANCE) data.set(HIGH_TINT, i * 4);
+        }
+        return data;
+    }
+
+    /**
+     * Printed thickness in mm for a height (0-1), before mesh smoothing.
+     */
+    public thickness(height: number, settings: Pick<ModelSettings, 'baseHeight' | 'depth'>): number {
+        return settings.baseHeight + Math.max(0, Math.min(1, height)) * settings.depth;
+    }
+}
+
+export const imageStats = new ImageStats();
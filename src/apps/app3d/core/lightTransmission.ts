@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import type { ModelSettings } from '../types';
+import { geometryGenerator } from './geometryGenerator';
+
+// Warm white LED backlight
+const LIGHT_COLOR: [number, number, number] = [1.0, 0.96, 0.9];
+
+// Transmittance is linear light; screens (and photos) are sRGB encoded
+const toSrgb = (v: number) => v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+export class LightTransmission {
+
+    /**
+     * Fraction of light passing through `thickness` mm of filament (Beer–Lambert).
+     */
+    public transmittance(thickness: number, attenuation: number): number {
+        return Math.exp(-attenuation * thickness);
+    }
+
+    /**
+     * Transmitted brightness relative to the thinnest wall the model can
+     * have (baseHeight), so the brightest possible spot shows as white.
+     */
+    public relativeBrightness(thickness: number, settings: Pick<ModelSettings, 'baseHeight' | 'attenuation'>): number {
+        return this.transmittance(Math.max(0, thickness - settings.baseHeight), settings.attenuation);
+    }
+
+    /**
+     * Brightest-to-darkest ratio between the thinnest and thickest relief.
+     */
+    public contrastRatio(settings: ModelSettings): number {
+        return 1 / this.transmittance(settings.depth, settings.attenuation);
+    }
+
+    /**
+     * Simulated photo of the backlit print, one pixel per heightmap pixel.
+     */
+    public simulatePhoto(heightmap: Float32Array, widthPx: number, heightPx: number, settings: ModelSettings): ImageData {
+        const relief = settings.smoothing && settings.smoothingIterations > 0
+            ? geometryGenerator.smoothHeightmap(heightmap, widthPx, heightPx, settings.smoothingIterations)
+            : heightmap;
+
+        const image = new ImageData(widthPx, heightPx);
+        const { data } = image;
+
+        for (let i = 0; i < relief.length; i++) {
+            // Everything above the base is extra thickness
+            const brightness = this.transmittance(relief[i] * settings.depth, settings.attenuation);
+            data[i * 4] = 255 * toSrgb(brightness * LIGHT_COLOR[0]);
+            data[i * 4 + 1] = 255 * toSrgb(brightness * LIGHT_COLOR[1]);
+            data[i * 4 + 2] = 255 * toSrgb(brightness * LIGHT_COLOR[2]);
+            data[i * 4 + 3] = 255;
+        }
+
+        return image;
+    }
+
+    /**
+     * Per-vertex transmitted light colour from the geometry's `thickness`
+     * attribute. Returns null for geometry without one.
+     */
+    public vertexColors(geometry: THREE.BufferGeometry, settings: Pick<ModelSettings, 'baseHeight' | 'attenuation'>): THREE.BufferAttribute | null {
+        const thickness = geometry.getAttribute('thickness');
+        if (!thickness) return null;
+
+        const colors = new Float32Array(thickness.count * 3);
+        for (let i = 0; i < thickness.count; i++) {
+            const brightness = this.relativeBrightness(thickness.getX(i), settings);
+            colors[i * 3] = brightness * LIGHT_COLOR[0];
+            colors[i * 3 + 1] = brightness * LIGHT_COLOR[1];
+            colors[i * 3 + 2] = brightness * LIGHT_COLOR[2];
+        }
+
+        return new THREE.BufferAttribute(colors, 3);
+    }
+}
+
+export const lightTransmission = new LightTransmission();
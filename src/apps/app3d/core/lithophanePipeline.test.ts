@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { lithophanePipeline } from './lithophanePipeline';
+import { BUILT_IN_PRESETS } from './presets';
+
+const gradient = (width: number, height: number) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const x = i % width, y = Math.floor(i / width);
+        data.set([x * 4, y * 4, (x + y) * 2, 255], i * 4);
+    }
+    return { width, height, data };
+};
+
+describe('lithophanePipeline', () => {
+    // Runs in Node: every built-in preset has to work without a DOM
+    it.each(BUILT_IN_PRESETS.map(preset => [preset.name, preset] as const))('builds the %s preset', async (_, preset) => {
+        const output = await lithophanePipeline.run(
+            gradient(64, 48),
+            preset.imageSettings,
+            { ...preset.modelSettings, resolution: 64 },
+            'stl',
+            'test'
+        );
+        expect(output.data.length).toBeGreaterThan(84);
+    });
+});
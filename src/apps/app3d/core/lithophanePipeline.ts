@@ -0,0 +1,188 @@
+import JSZip from 'jszip';
+import type { CalibrationCurve, ImageSettings, ModelSettings } from '../types';
+import type { RgbaImage } from './imageProcessor';
+import { imageProcessor } from './imageProcessor';
+import { geometryGenerator } from './geometryGenerator';
+import { colorLithophane } from './colorLithophane';
+import type { ColorMaps } from './colorLithophane';
+import { calibrationManager } from './calibration';
+import { depthMapLoader } from './depthMap';
+import type { DepthMap } from './depthMap';
+import { assemblyGenerator } from './assembly';
+import type { AssemblyPart } from './assembly';
+import { subjectSegmenter } from './segmentation';
+import { stlExporter, threeMFExporter } from './exporter';
+
+/**
+ * Calibrated luminance -> thickness mapping over the model's range.
+ */
+export interface CalibrationMapping {
+    curve: CalibrationCurve;
+    minThickness: number;
+    maxThickness: number;
+}
+
+export interface HeightmapOptions {
+    depth?: DepthMap | null; // Heights come from this instead of the image's luminance
+    calibration?: CalibrationMapping | null;
+    subjectImage?: RgbaImage | null; // Unfiltered pixels at heightmap size, for the background treatment
+}
+
+/**
+ * The image at working resolution after filtering, and what the model is
+ * built from.
+ */
+export interface ProcessedImage {
+    image: RgbaImage;
+    heightmap: Float32Array;
+    width: number;
+    height: number;
+    colorMaps: ColorMaps | null; // Colour mode only
+}
+
+export type OutputFormat = 'stl' | '3mf';
+
+export interface OutputFile {
+    name: string;
+    data: Uint8Array;
+}
+
+type Progress = (stage: string, progress: number) => void;
+
+/**
+ * The whole image -> model pipeline on plain buffers: RGBA pixels and
+ * settings in, STL or 3MF bytes out. Nothing here needs a DOM, so it runs
+ * in the pipeline worker and in Node alike; only caption text needs an
+ * OffscreenCanvas.
+ */
+export class LithophanePipeline {
+
+    /**
+     * Scales the pixels to the model resolution, filters them and derives
+     * the heightmap (plus ink coverage in colour mode). The input is not
+     * modified.
+     */
+    public process(
+        source: RgbaImage,
+        imageSettings: ImageSettings,
+        modelSettings: ModelSettings,
+        options: HeightmapOptions = {},
+        onProgress?: Progress
+    ): ProcessedImage {
+        const image = imageProcessor.resizePixels(source, modelSettings.resolution);
+        // Inks come from the unfiltered colours, the relief from the filtered image
+        const colorMaps = modelSettings.colorMode === 'cmyw' ? colorLithophane.separate(image) : null;
+        // So is the subject mask
+        const subjectImage = imageSettings.background.mode !== 'keep' ? { ...image, data: image.data.slice() } : null;
+
+        imageProcessor.processPixels(image, imageSettings, onProgress);
+        onProgress?.('Building heightmap', 0.7);
+        const heightmap = this.heightmap(image, imageSettings, { ...options, subjectImage });
+
+        return { image, heightmap, width: image.width, height: image.height, colorMaps };
+    }
+
+    /**
+     * Heights (0-1) of a filtered image, or of the depth map resampled to
+     * its size, with the calibration applied to photos. Given the unfiltered
+     * image, the background outside the subject is then treated as set.
+     */
+    public heightmap(filtered: RgbaImage, imageSettings: ImageSettings, options: HeightmapOptions = {}): Float32Array {
+        const { subjectImage } = options;
+        const heightmap = this.baseHeightmap(filtered, imageSettings, options);
+
+        if (subjectImage && imageSettings.background.mode !== 'keep') {
+            const mask = subjectSegmenter.mask(subjectImage, imageSettings.background);
+            subjectSegmenter.applyBackground(heightmap, mask, filtered.width, filtered.height, imageSettings.background);
+        }
+        return heightmap;
+    }
+
+    private baseHeightmap(filtered: RgbaImage, imageSettings: ImageSettings, options: HeightmapOptions): Float32Array {
+        const { depth, calibration } = options;
+
+        if (depth) {
+            // Depth maps are geometry already: only resampled (and optionally inverted)
+            const heightmap = depthMapLoader.resample(depth, filtered.width, filtered.height);
+            if (imageSettings.invert) {
+                for (let i = 0; i < heightmap.length; i++) heightmap[i] = 1 - heightmap[i];
+            }
+            return heightmap;
+        }
+
+        const heightmap = imageProcessor.generateHeightmap(filtered);
+        if (!calibration) return heightmap;
+        return calibrationManager.applyCurve(heightmap, calibration.curve, calibration.minThickness, calibration.maxThickness);
+    }
+
+    /**
+     * The printable parts: one per filament in colour mode, the tiles or
+     * lamp box parts, or the single model.
+     */
+    public build(
+        heightmap: Float32Array,
+        width: number,
+        height: number,
+        modelSettings: ModelSettings,
+        colorMaps: ColorMaps | null = null
+    ): AssemblyPart[] {
+        if (typeof OffscreenCanvas === 'undefined' && modelSettings.text.trim() !== '') {
+            throw new Error('Caption text needs OffscreenCanvas, which this runtime does not have');
+        }
+
+        if (colorMaps) {
+            return colorLithophane.generateBodies(heightmap, colorMaps, width, height, modelSettings)
+                .map(body => ({ ...body, placement: null }));
+        }
+        if (modelSettings.assembly === 'tiles') return assemblyGenerator.tiles(heightmap, width, height, modelSettings);
+        if (modelSettings.assembly === 'lampbox') return assemblyGenerator.lampBox(heightmap, width, height, modelSettings);
+
+        const geometry = geometryGenerator.generateMesh(heightmap, width, height, modelSettings);
+        return [{ name: 'Lithophane', geometry, color: modelSettings.materialColor, placement: null }];
+    }
+
+    /**
+     * Encodes the parts as one file named after `baseName`: a 3MF with every
+     * part, a single STL, or a ZIP of one STL per part.
+     */
+    public async export(parts: AssemblyPart[], format: OutputFormat, baseName: string): Promise<OutputFile> {
+        if (format === '3mf') {
+            const blob = await threeMFExporter.parse(parts);
+            return { name: `${baseName}.3mf`, data: new Uint8Array(await blob.arrayBuffer()) };
+        }
+        if (parts.length === 1) {
+            return { name: `${baseName}.stl`, data: new Uint8Array(stlExporter.parse(parts[0].geometry)) };
+        }
+
+        const zip = new JSZip();
+        parts.forEach(({ name, geometry }) => {
+            zip.file(`${baseName}_${name.toLowerCase().replace(/\s+/g, '_')}.stl`, stlExporter.parse(geometry));
+        });
+        return { name: `${baseName}_stl.zip`, data: await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }) };
+    }
+
+    /**
+     * Image to file in one go.
+     */
+    public async run(
+        source: RgbaImage,
+        imageSettings: ImageSettings,
+        modelSettings: ModelSettings,
+        format: OutputFormat,
+        baseName: string,
+        options: HeightmapOptions = {},
+        onProgress?: Progress
+    ): Promise<OutputFile> {
+        const { heightmap, width, height, colorMaps } = this.process(source, imageSettings, modelSettings, options, onProgress);
+        onProgress?.('Building mesh', 0.8);
+        const parts = this.build(heightmap, width, height, modelSettings, colorMaps);
+        onProgress?.('Exporting', 0.95);
+        try {
+            return await this.export(parts, format, baseName);
+        } finally {
+            parts.forEach(part => part.geometry.dispose());
+        }
+    }
+}
+
+export const lithophanePipeline = new LithophanePipeline();
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import JSZip from 'jszip';
+import { meshImporter } from './meshImporter';
+import { stlExporter, threeMFExporter } from './exporter';
+import { meshValidator } from './meshValidator';
+
+const cube = () => new THREE.BoxGeometry(20, 10, 4);
+
+const triangleCount = (geometry: THREE.BufferGeometry) => (geometry.index ?? geometry.attributes.position).count / 3;
+
+const size = (geometry: THREE.BufferGeometry) => meshImporter.dimensions(geometry).toArray().map(v => Math.round(v * 1000) / 1000);
+
+const threeMF = async (model: string) => {
+    const zip = new JSZip();
+    zip.file('3D/3dmodel.model', model);
+    return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+const TETRAHEDRON_3MF = (unit: string, items: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${unit}" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+<resources>
+<object id="1" type="model"><mesh>
+<vertices><vertex x="0" y="0" z="0"/><vertex x="1" y="0" z="0"/><vertex x="0" y="1" z="0"/><vertex x="0" y="0" z="1"/></vertices>
+<triangles><triangle v1="0" v2="2" v3="1"/><triangle v1="0" v2="1" v3="3"/><triangle v1="0" v2="3" v3="2"/><triangle v1="1" v2="2" v3="3"/></triangles>
+</mesh></object>
+<object id="2" type="model"><components><component objectid="1" transform="2 0 0 0 2 0 0 0 2 10 0 0"/></components></object>
+</resources>
+<build>${items}</build>
+</model>`;
+
+describe('MeshImporter', () => {
+    it('picks the format from the file extension', () => {
+        expect(meshImporter.formatOf('part.STL')).toBe('stl');
+        expect(meshImporter.formatOf('scan.v2.obj')).toBe('obj');
+        expect(meshImporter.formatOf('plate.3mf')).toBe('3mf');
+        expect(meshImporter.formatOf('photo.png')).toBeNull();
+    });
+
+    it('reads back binary STL from the exporter', () => {
+        const geometry = meshImporter.parseStl(stlExporter.parse(cube()));
+
+        expect(triangleCount(geometry)).toBe(12);
+        expect(size(geometry)).toEqual([20, 10, 4]);
+        expect(meshValidator.validate(geometry).isWatertight).toBe(true);
+    });
+
+    it('reads binary STL whose header starts with "solid"', () => {
+        const buffer = stlExporter.parse(cube());
+        new Uint8Array(buffer).set(new TextEncoder().encode('solid exported by CAD'));
+        expect(triangleCount(meshImporter.parseStl(buffer))).toBe(12);
+    });
+
+    it('reads ASCII STL', () => {
+        const text = `solid tri
+  facet normal 0 0 1
+    outer loop
+      vertex 0 0 0
+      vertex 5 0 0
+      vertex 0 3e0 1.5
+    endloop
+  endfacet
+endsolid tri`;
+        const geometry = meshImporter.parseStl(new TextEncoder().encode(text).buffer);
+
+        expect(triangleCount(geometry)).toBe(1);
+        expect(Array.from(geometry.attributes.position.array)).toEqual([0, 0, 0, 5, 0, 0, 0, 3, 1.5]);
+    });
+
+    it('rejects truncated binary STL', () => {
+        const buffer = stlExporter.parse(cube()).slice(0, 300);
+        expect(() => meshImporter.parseStl(buffer)).toThrow(/truncated/);
+    });
+
+    it('reads OBJ polygons, slash references and negative indices', () => {
+        const geometry = meshImporter.parseObj(`# quad and a triangle
+o part
+v 0 0 0
+v 2 0 0
+v 2 2 0
+v 0 2 0
+vt 0 0
+f 1/1 2/1 3/1 4/1
+v 1 1 3
+f -5//1 -4//1 -1//1
+`);
+
+        expect(triangleCount(geometry)).toBe(3);
+        expect(Array.from(geometry.index!.array)).toEqual([0, 1, 2, 0, 2, 3, 0, 1, 4]);
+        expect(size(geometry)).toEqual([2, 2, 3]);
+        expect(() => meshImporter.parseObj('v 0 0 0\nf 1 2 3\n')).toThrow(/missing vertex/);
+    });
+
+    it('reads back 3MF from the exporter, all objects merged', async () => {
+        const second = cube().translate(40, 0, 0);
+        const blob = await threeMFExporter.parse([
+            { name: 'A', geometry: cube(), color: '#ffffff' },
+            { name: 'B', geometry: second, color: '#000000' },
+        ]);
+        const geometry = await meshImporter.parse3mf(await blob.arrayBuffer());
+
+        expect(triangleCount(geometry)).toBe(24);
+        expect(size(geometry)).toEqual([60, 10, 4]);
+    });
+
+    it('applies 3MF component and item transforms and the model unit', async () => {
+        const geometry = await meshImporter.parse3mf(await threeMF(TETRAHEDRON_3MF('centimeter', '<item objectid="2" transform="1 0 0 0 1 0 0 0 1 0 0 5"/>')));
+        geometry.computeBoundingBox();
+        const { min, max } = geometry.boundingBox!;
+
+        // Scaled 2x and moved 10 along X by the component, 5 up Z by the item, then cm -> mm
+        expect(min.toArray()).toEqual([100, 0, 50]);
+        expect(max.toArray()).toEqual([120, 20, 70]);
+        expect(meshValidator.validate(geometry).isWatertight).toBe(true);
+    });
+
+    it('loads a file and refuses empty meshes', async () => {
+        const mesh = await meshImporter.load(new Blob([stlExporter.parse(cube())]), 'Customer Part.stl');
+        expect(mesh.name).toBe('Customer Part');
+        expect(mesh.format).toBe('stl');
+
+        await expect(meshImporter.load(new Blob(['v 0 0 0\n']), 'points.obj')).rejects.toThrow(/no triangles/);
+        await expect(meshImporter.load(new Blob(['']), 'model.step')).rejects.toThrow(/Unsupported/);
+    });
+
+    it('scales a copy uniformly to the given width', () => {
+        const original = cube();
+        const scaled = meshImporter.scaleToWidth(original, 100);
+
+        expect(size(scaled)).toEqual([100, 50, 20]);
+        expect(size(original)).toEqual([20, 10, 4]);
+    });
+});
@@ -0,0 +1,251 @@
+import * as THREE from 'three';
+import JSZip from 'jszip';
+
+export type MeshFormat = 'stl' | 'obj' | '3mf';
+
+/**
+ * A mesh read from a file, in millimetres with +Z up like the generated
+ * models. Multi-object files are merged into one geometry.
+ */
+export interface ImportedMesh {
+    name: string; // File name without the extension
+    format: MeshFormat;
+    geometry: THREE.BufferGeometry;
+}
+
+const STL_HEADER_BYTES = 80;
+const STL_TRIANGLE_BYTES = 50;
+
+// 3MF model units in mm
+const THREE_MF_UNITS: Record<string, number> = {
+    micron: 0.001,
+    millimeter: 1,
+    centimeter: 10,
+    inch: 25.4,
+    foot: 304.8,
+    meter: 1000,
+};
+
+/**
+ * 3MF affine transform ("m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32",
+ * row vectors) as a Matrix4.
+ */
+const parseTransform = (text: string | undefined): THREE.Matrix4 => {
+    const matrix = new THREE.Matrix4();
+    const m = text?.trim().split(/\s+/).map(Number);
+    if (!m || m.length !== 12 || m.some(Number.isNaN)) return matrix;
+    return matrix.set(
+        m[0], m[3], m[6], m[9],
+        m[1], m[4], m[7], m[10],
+        m[2], m[5], m[8], m[11],
+        0, 0, 0, 1
+    );
+};
+
+/**
+ * Attributes of an XML start tag, e.g. `<vertex x="1" y="2" z="3"/>`.
+ */
+const attributes = (tag: string): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (const [, name, value] of tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) result[name] = value;
+    return result;
+};
+
+interface ThreeMFObject {
+    positions: number[];
+    indices: number[];
+    components: { objectId: string; transform: THREE.Matrix4 }[];
+}
+
+/**
+ * Reads STL (ASCII or binary), OBJ and 3MF meshes for inspection and
+ * re-export. Parsing is string and buffer work only, so it also runs in
+ * workers and Node.
+ */
+export class MeshImporter {
+
+    public formatOf(fileName: string): MeshFormat | null {
+        const extension = fileName.toLowerCase().split('.').pop();
+        return extension === 'stl' || extension === 'obj' || extension === '3mf' ? extension : null;
+    }
+
+    public async load(file: Blob, fileName: string): Promise<ImportedMesh> {
+        const format = this.formatOf(fileName);
+        if (!format) throw new Error('Unsupported mesh format; use STL, OBJ or 3MF');
+
+        const buffer = await file.arrayBuffer();
+        const geometry = format === 'stl' ? this.parseStl(buffer)
+            : format === 'obj' ? this.parseObj(new TextDecoder().decode(buffer))
+                : await this.parse3mf(buffer);
+
+        if ((geometry.index ?? geometry.attributes.position).count === 0) {
+            geometry.dispose();
+            throw new Error('The file contains no triangles');
+        }
+        return { name: fileName.replace(/\.[^.]+$/, ''), format, geometry };
+    }
+
+    /**
+     * Binary or ASCII STL as a non-indexed geometry. Files starting with
+     * "solid" are binary anyway when their size matches the triangle count
+     * (some exporters write that header).
+     */
+    public parseStl(buffer: ArrayBuffer): THREE.BufferGeometry {
+        const bytes = new Uint8Array(buffer);
+        const isBinarySize = buffer.byteLength >= STL_HEADER_BYTES + 4 &&
+            buffer.byteLength === STL_HEADER_BYTES + 4 + new DataView(buffer).getUint32(STL_HEADER_BYTES, true) * STL_TRIANGLE_BYTES;
+        const looksAscii = new TextDecoder().decode(bytes.subarray(0, 5)).toLowerCase() === 'solid';
+
+        return isBinarySize || !looksAscii ? this.parseBinaryStl(buffer) : this.parseAsciiStl(new TextDecoder().decode(bytes));
+    }
+
+    private parseBinaryStl(buffer: ArrayBuffer): THREE.BufferGeometry {
+        if (buffer.byteLength < STL_HEADER_BYTES + 4) throw new Error('STL file is too short');
+
+        const view = new DataView(buffer);
+        const count = view.getUint32(STL_HEADER_BYTES, true);
+        if (buffer.byteLength < STL_HEADER_BYTES + 4 + count * STL_TRIANGLE_BYTES) throw new Error('STL file is truncated');
+
+        const positions = new Float32Array(count * 9);
+        for (let t = 0; t < count; t++) {
+            const offset = STL_HEADER_BYTES + 4 + t * STL_TRIANGLE_BYTES + 12; // Skip the normal
+            for (let k = 0; k < 9; k++) positions[t * 9 + k] = view.getFloat32(offset + k * 4, true);
+        }
+        return this.toGeometry(positions, null);
+    }
+
+    private parseAsciiStl(text: string): THREE.BufferGeometry {
+        const positions: number[] = [];
+        for (const [, x, y, z] of text.matchAll(/vertex\s+(\S+)\s+(\S+)\s+(\S+)/gi)) {
+            positions.push(parseFloat(x), parseFloat(y), parseFloat(z));
+        }
+        if (positions.length % 9 !== 0 || positions.some(Number.isNaN)) throw new Error('ASCII STL is damaged');
+        return this.toGeometry(new Float32Array(positions), null);
+    }
+
+    /**
+     * Wavefront OBJ: vertices and faces of every object and group, polygons
+     * fanned into triangles. Texture coordinates and normals are ignored.
+     */
+    public parseObj(text: string): THREE.BufferGeometry {
+        const positions: number[] = [];
+        const indices: number[] = [];
+
+        for (const raw of text.split('\n')) {
+            const line = raw.trim();
+            if (line.startsWith('v ')) {
+                const [x, y, z] = line.slice(2).trim().split(/\s+/).map(Number);
+                positions.push(x, y, z);
+            } else if (line.startsWith('f ')) {
+                const vertexCount = positions.length / 3;
+                const face = line.slice(2).trim().split(/\s+/).map(ref => {
+                    const i = parseInt(ref.split('/')[0]);
+                    return i < 0 ? vertexCount + i : i - 1; // Negative = relative to the end
+                });
+                if (face.some(i => Number.isNaN(i) || i < 0 || i >= vertexCount)) throw new Error(`OBJ face refers to a missing vertex: ${line}`);
+                for (let k = 1; k + 1 < face.length; k++) indices.push(face[0], face[k], face[k + 1]);
+            }
+        }
+
+        if (positions.some(Number.isNaN)) throw new Error('OBJ vertex list is damaged');
+        return this.toGeometry(new Float32Array(positions), indices);
+    }
+
+    /**
+     * 3MF package: every build item (with its components and transforms)
+     * merged into one geometry, scaled from the model's unit to mm.
+     */
+    public async parse3mf(buffer: ArrayBuffer): Promise<THREE.BufferGeometry> {
+        const zip = await JSZip.loadAsync(buffer);
+
+        // The root model is the one the package relationships point at
+        const rels = await zip.file('_rels/.rels')?.async('string');
+        const target = rels?.match(/Target="\/?([^"]+\.model)"/)?.[1];
+        const modelFile = (target && zip.file(target)) || zip.file(/\.model$/i)[0];
+        if (!modelFile) throw new Error('3MF package has no model');
+
+        const xml = await modelFile.async('string');
+        const unit = attributes(xml.match(/<model\b[^>]*>/)?.[0] ?? '').unit ?? 'millimeter';
+        const scale = THREE_MF_UNITS[unit] ?? 1;
+
+        const objects = new Map<string, ThreeMFObject>();
+        for (const [, objectTag, body] of xml.matchAll(/(<object\b[^>]*>)([\s\S]*?)<\/object>/g)) {
+            const object: ThreeMFObject = { positions: [], indices: [], components: [] };
+            for (const [tag] of body.matchAll(/<vertex\b[^>]*>/g)) {
+                const { x, y, z } = attributes(tag);
+                object.positions.push(parseFloat(x), parseFloat(y), parseFloat(z));
+            }
+            for (const [tag] of body.matchAll(/<triangle\b[^>]*>/g)) {
+                const { v1, v2, v3 } = attributes(tag);
+                object.indices.push(parseInt(v1), parseInt(v2), parseInt(v3));
+            }
+            for (const [tag] of body.matchAll(/<component\b[^>]*>/g)) {
+                const { objectid, transform } = attributes(tag);
+                object.components.push({ objectId: objectid, transform: parseTransform(transform) });
+            }
+            objects.set(attributes(objectTag).id, object);
+        }
+
+        const positions: number[] = [];
+        const indices: number[] = [];
+        const point = new THREE.Vector3();
+
+        const place = (id: string, transform: THREE.Matrix4, depth: number) => {
+            const object = objects.get(id);
+            if (!object) throw new Error(`3MF refers to a missing object ${id}`);
+            if (depth > 16) throw new Error('3MF components nest too deeply');
+
+            const offset = positions.length / 3;
+            for (let v = 0; v < object.positions.length; v += 3) {
+                point.fromArray(object.positions, v).applyMatrix4(transform).multiplyScalar(scale);
+                positions.push(point.x, point.y, point.z);
+            }
+            for (const i of object.indices) {
+                if (Number.isNaN(i) || i < 0 || i >= object.positions.length / 3) throw new Error(`3MF object ${id} has a bad triangle`);
+                indices.push(offset + i);
+            }
+            for (const component of object.components) {
+                place(component.objectId, transform.clone().multiply(component.transform), depth + 1);
+            }
+        };
+
+        const items = [...xml.matchAll(/<item\b[^>]*>/g)].map(([tag]) => attributes(tag));
+        for (const item of items) place(item.objectid, parseTransform(item.transform), 0);
+
+        if (positions.some(Number.isNaN)) throw new Error('3MF vertex list is damaged');
+        return this.toGeometry(new Float32Array(positions), indices);
+    }
+
+    /**
+     * Size of the mesh's bounding box in mm.
+     */
+    public dimensions(geometry: THREE.BufferGeometry): THREE.Vector3 {
+        geometry.computeBoundingBox();
+        return geometry.boundingBox!.getSize(new THREE.Vector3());
+    }
+
+    /**
+     * A copy scaled uniformly so that it is `width` mm wide (along X).
+     */
+    public scaleToWidth(geometry: THREE.BufferGeometry, width: number): THREE.BufferGeometry {
+        const current = this.dimensions(geometry).x;
+        if (current <= 0) throw new Error('The mesh has no width');
+
+        const scaled = geometry.clone();
+        const factor = width / current;
+        scaled.scale(factor, factor, factor);
+        scaled.computeBoundingBox();
+        return scaled;
+    }
+
+    private toGeometry(positions: Float32Array, indices: number[] | null): THREE.BufferGeometry {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        if (indices) geometry.setIndex(indices);
+        geometry.computeVertexNormals();
+        geometry.computeBoundingBox();
+        return geometry;
+    }
+}
+
+export const meshImporter = new MeshImporter();
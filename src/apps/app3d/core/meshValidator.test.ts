@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { meshValidator } from './meshValidator';
+
+const box = (x: number, y = 0, z = 0) => new THREE.BoxGeometry(10, 10, 10, 4, 4, 4).translate(x, y, z);
+
+describe('MeshValidator self-intersections', () => {
+    it('finds the triangles where two shells cross', () => {
+        const report = meshValidator.validate(mergeGeometries([box(0), box(5, 3.3, 1.7)]), { checkSelfIntersections: true });
+
+        expect(report.selfIntersectionCheck).toBe('done');
+        expect(report.selfIntersections).toBeGreaterThan(0);
+    });
+
+    it('finds none on a closed shell or on shells apart', () => {
+        const options = { checkSelfIntersections: true };
+        expect(meshValidator.validate(box(0), options).selfIntersections).toBe(0);
+        expect(meshValidator.validate(mergeGeometries([box(0), box(20)]), options).selfIntersections).toBe(0);
+    });
+
+    it('skips meshes over the size limit', () => {
+        const report = meshValidator.validate(box(0), { checkSelfIntersections: true, maxIntersectionTriangles: 10 });
+
+        expect(report.selfIntersectionCheck).toBe('too-large');
+        expect(report.selfIntersections).toBeNull();
+        expect(meshValidator.validate(box(0)).selfIntersectionCheck).toBe('off');
+    });
+});
@@ -0,0 +1,484 @@
+import * as THREE from 'three';
+
+export interface MeshReport {
+    triangleCount: number;
+    vertexCount: number; // after welding coincident positions
+    degenerateTriangles: number;
+    duplicateTriangles: number; // same three vertices (e.g. internal walls)
+    boundaryEdges: number; // edges used by a single triangle (open holes)
+    nonManifoldEdges: number; // edges shared by more than two triangles
+    inconsistentEdges: number; // neighbours with opposite winding (flipped normals)
+    insideOut: boolean; // closed shell with normals pointing inward
+    selfIntersections: number | null; // triangles involved; null = check skipped
+    selfIntersectionCheck: 'done' | 'off' | 'too-large' | 'failed';
+    isWatertight: boolean;
+}
+
+export interface ValidateOptions {
+    checkSelfIntersections?: boolean;
+    maxIntersectionTriangles?: number; // skip the (expensive) check above this
+}
+
+/**
+ * Welded, index-only view of a mesh used by the checks and the repair.
+ */
+interface WeldedMesh {
+    positions: Float32Array;
+    triangles: Uint32Array; // 3 indices per triangle
+}
+
+const WELD_PRECISION = 1e4; // 0.1 µm grid for merging coincident vertices
+const MAX_INTERSECTION_TRIANGLES = 250000; // Default size limit; a few seconds at most
+const MAX_GRID_CELLS = 256; // Along the longest side, for the self-intersection broad phase
+
+export class MeshValidator {
+
+    public validate(geometry: THREE.BufferGeometry, options: ValidateOptions = {}): MeshReport {
+        const mesh = this.weld(geometry);
+        const { positions, triangles } = mesh;
+        const triangleCount = triangles.length / 3;
+
+        let degenerateTriangles = 0;
+        const valid: number[] = [];
+        for (let t = 0; t < triangleCount; t++) {
+            if (this.isDegenerate(mesh, t)) degenerateTriangles++;
+            else valid.push(t);
+        }
+
+        const seen = new Set<string>();
+        let duplicateTriangles = 0;
+        for (const t of valid) {
+            const key = this.triangleKey(triangles, t);
+            if (seen.has(key)) duplicateTriangles++;
+            else seen.add(key);
+        }
+
+        const edges = this.buildEdges(triangles, valid);
+        let boundaryEdges = 0;
+        let nonManifoldEdges = 0;
+        let inconsistentEdges = 0;
+        for (const edge of edges.values()) {
+            if (edge.count === 1) boundaryEdges++;
+            else if (edge.count > 2) nonManifoldEdges++;
+            else if (edge.balance !== 0) inconsistentEdges++;
+        }
+
+        const isClosed = boundaryEdges === 0 && nonManifoldEdges === 0;
+        const insideOut = isClosed && inconsistentEdges === 0 && this.signedVolume(mesh, valid) < 0;
+
+        let selfIntersections: number | null = null;
+        let selfIntersectionCheck: MeshReport['selfIntersectionCheck'] = 'off';
+        const limit = options.maxIntersectionTriangles ?? MAX_INTERSECTION_TRIANGLES;
+        if (options.checkSelfIntersections && valid.length > limit) {
+            selfIntersectionCheck = 'too-large';
+        } else if (options.checkSelfIntersections) {
+            // The rest of the report is still worth having if this check fails
+            try {
+                selfIntersections = this.countSelfIntersections(mesh, valid);
+                selfIntersectionCheck = 'done';
+            } catch (err) {
+                console.error('Self-intersection check failed', err);
+                selfIntersectionCheck = 'failed';
+            }
+        }
+
+        return {
+            triangleCount,
+            vertexCount: positions.length / 3,
+            degenerateTriangles,
+            duplicateTriangles,
+            boundaryEdges,
+            nonManifoldEdges,
+            inconsistentEdges,
+            insideOut,
+            selfIntersections,
+            selfIntersectionCheck,
+            isWatertight: isClosed && inconsistentEdges === 0 && duplicateTriangles === 0 && !insideOut,
+        };
+    }
+
+    public hasIssues(report: MeshReport): boolean {
+        return !report.isWatertight || report.degenerateTriangles > 0 || (report.selfIntersections ?? 0) > 0;
+    }
+
+    /**
+     * Welds coincident vertices, removes degenerate and duplicate triangles
+     * (pairs of opposite duplicates are internal walls and are dropped
+     * entirely), makes winding consistent, orients every shell outward and
+     * closes remaining boundary loops. Returns a new indexed geometry.
+     */
+    public repair(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+        const mesh = this.weld(geometry);
+        const { triangles } = mesh;
+        const triangleCount = triangles.length / 3;
+
+        // 1. Degenerate + duplicate removal
+        const byKey = new Map<string, number[]>();
+        for (let t = 0; t < triangleCount; t++) {
+            if (this.isDegenerate(mesh, t)) continue;
+            const key = this.triangleKey(triangles, t);
+            const list = byKey.get(key);
+            if (list) list.push(t);
+            else byKey.set(key, [t]);
+        }
+
+        const kept: number[] = [];
+        for (const list of byKey.values()) {
+            if (list.length === 1) {
+                kept.push(list[0]);
+                continue;
+            }
+            // Opposite-winding pairs cancel out, same-winding copies collapse to one
+            const forward = list.filter(t => this.sameWinding(triangles, t, list[0]));
+            const backward = list.length - forward.length;
+            if (forward.length !== backward) kept.push(forward.length > backward ? list[0] : list.find(t => !forward.includes(t))!);
+        }
+
+        let tris: number[] = [];
+        for (const t of kept) tris.push(triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]);
+
+        // 2. Consistent winding and outward orientation
+        tris = this.orient(mesh.positions, tris);
+
+        // 3. Close remaining holes
+        const positions = Array.from(mesh.positions);
+        this.fillHoles(positions, tris);
+
+        const repaired = new THREE.BufferGeometry();
+        repaired.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        repaired.setIndex(tris);
+        repaired.computeVertexNormals();
+        return repaired;
+    }
+
+    private weld(geometry: THREE.BufferGeometry): WeldedMesh {
+        const source = geometry.attributes.position;
+        const index = geometry.index;
+        const lookup = new Map<string, number>();
+        const remap = new Uint32Array(source.count);
+        const positions: number[] = [];
+
+        for (let i = 0; i < source.count; i++) {
+            const x = source.getX(i), y = source.getY(i), z = source.getZ(i);
+            const key = `${Math.round(x * WELD_PRECISION)},${Math.round(y * WELD_PRECISION)},${Math.round(z * WELD_PRECISION)}`;
+            let id = lookup.get(key);
+            if (id === undefined) {
+                id = positions.length / 3;
+                positions.push(x, y, z);
+                lookup.set(key, id);
+            }
+            remap[i] = id;
+        }
+
+        const count = index ? index.count : source.count;
+        const triangles = new Uint32Array(count - (count % 3));
+        for (let i = 0; i < triangles.length; i++) {
+            triangles[i] = remap[index ? index.getX(i) : i];
+        }
+
+        return { positions: new Float32Array(positions), triangles };
+    }
+
+    private isDegenerate({ positions, triangles }: WeldedMesh, t: number): boolean {
+        const a = triangles[t * 3], b = triangles[t * 3 + 1], c = triangles[t * 3 + 2];
+        if (a === b || b === c || a === c) return true;
+
+        const ax = positions[a * 3], ay = positions[a * 3 + 1], az = positions[a * 3 + 2];
+        const ux = positions[b * 3] - ax, uy = positions[b * 3 + 1] - ay, uz = positions[b * 3 + 2] - az;
+        const vx = positions[c * 3] - ax, vy = positions[c * 3 + 1] - ay, vz = positions[c * 3 + 2] - az;
+        const cx = uy * vz - uz * vy, cy = uz * vx - ux * vz, cz = ux * vy - uy * vx;
+        return cx * cx + cy * cy + cz * cz < 1e-18;
+    }
+
+    private triangleKey(triangles: Uint32Array, t: number): string {
+        const v = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]].sort((a, b) => a - b);
+        return v.join(',');
+    }
+
+    private sameWinding(triangles: Uint32Array, t1: number, t2: number): boolean {
+        // Same cyclic order <=> rotating t2 so it starts at t1's first vertex gives t1
+        const a = [triangles[t1 * 3], triangles[t1 * 3 + 1], triangles[t1 * 3 + 2]];
+        const b = [triangles[t2 * 3], triangles[t2 * 3 + 1], triangles[t2 * 3 + 2]];
+        const shift = b.indexOf(a[0]);
+        return b[(shift + 1) % 3] === a[1];
+    }
+
+    /**
+     * Undirected edge map. `balance` sums +1 for each use as (low -> high) and
+     * -1 for (high -> low): a correctly wound manifold edge has balance 0.
+     */
+    private buildEdges(triangles: Uint32Array | number[], subset: number[]) {
+        const edges = new Map<number, { count: number; balance: number }>();
+        const stride = 1 << 26;
+
+        for (const t of subset) {
+            for (let k = 0; k < 3; k++) {
+                const u = triangles[t * 3 + k];
+                const v = triangles[t * 3 + ((k + 1) % 3)];
+                const key = Math.min(u, v) * stride + Math.max(u, v);
+                const edge = edges.get(key);
+                const dir = u < v ? 1 : -1;
+                if (edge) {
+                    edge.count++;
+                    edge.balance += dir;
+                } else {
+                    edges.set(key, { count: 1, balance: dir });
+                }
+            }
+        }
+
+        return edges;
+    }
+
+    private signedVolume({ positions, triangles }: WeldedMesh | { positions: Float32Array; triangles: number[] }, subset: number[]): number {
+        let volume = 0;
+        for (const t of subset) {
+            const a = triangles[t * 3] * 3, b = triangles[t * 3 + 1] * 3, c = triangles[t * 3 + 2] * 3;
+            volume += (
+                positions[a] * (positions[b + 1] * positions[c + 2] - positions[b + 2] * positions[c + 1]) -
+                positions[a + 1] * (positions[b] * positions[c + 2] - positions[b + 2] * positions[c]) +
+                positions[a + 2] * (positions[b] * positions[c + 1] - positions[b + 1] * positions[c])
+            ) / 6;
+        }
+        return volume;
+    }
+
+    /**
+     * Flood-fills each connected shell across manifold edges, flipping
+     * neighbours so shared edges run in opposite directions, then flips whole
+     * shells whose signed volume is negative.
+     */
+    private orient(positions: Float32Array, tris: number[]): number[] {
+        const triangleCount = tris.length / 3;
+        const stride = 1 << 26;
+        const edgeTris = new Map<number, number[]>();
+
+        for (let t = 0; t < triangleCount; t++) {
+            for (let k = 0; k < 3; k++) {
+                const u = tris[t * 3 + k], v = tris[t * 3 + ((k + 1) % 3)];
+                const key = Math.min(u, v) * stride + Math.max(u, v);
+                const list = edgeTris.get(key);
+                if (list) list.push(t);
+                else edgeTris.set(key, [t]);
+            }
+        }
+
+        const hasDirectedEdge = (t: number, u: number, v: number) => {
+            for (let k = 0; k < 3; k++) {
+                if (tris[t * 3 + k] === u && tris[t * 3 + ((k + 1) % 3)] === v) return true;
+            }
+            return false;
+        };
+        const flip = (t: number) => {
+            const tmp = tris[t * 3 + 1];
+            tris[t * 3 + 1] = tris[t * 3 + 2];
+            tris[t * 3 + 2] = tmp;
+        };
+
+        const visited = new Uint8Array(triangleCount);
+        for (let seed = 0; seed < triangleCount; seed++) {
+            if (visited[seed]) continue;
+
+            const shell: number[] = [seed];
+            visited[seed] = 1;
+            for (let i = 0; i < shell.length; i++) {
+                const t = shell[i];
+                for (let k = 0; k < 3; k++) {
+                    const u = tris[t * 3 + k], v = tris[t * 3 + ((k + 1) % 3)];
+                    const neighbours = edgeTris.get(Math.min(u, v) * stride + Math.max(u, v))!;
+                    if (neighbours.length !== 2) continue; // Don't propagate across non-manifold edges
+                    const n = neighbours[0] === t ? neighbours[1] : neighbours[0];
+                    if (visited[n]) continue;
+                    if (hasDirectedEdge(n, u, v)) flip(n);
+                    visited[n] = 1;
+                    shell.push(n);
+                }
+            }
+
+            if (this.signedVolume({ positions, triangles: tris }, shell) < 0) {
+                shell.forEach(flip);
+            }
+        }
+
+        return tris;
+    }
+
+    /**
+     * Traces loops of boundary edges and closes each with a fan around its centroid.
+     */
+    private fillHoles(positions: number[], tris: number[]) {
+        const triangleCount = tris.length / 3;
+        const directed = new Map<string, number>(); // "u,v" -> use count
+
+        for (let t = 0; t < triangleCount; t++) {
+            for (let k = 0; k < 3; k++) {
+                const key = `${tris[t * 3 + k]},${tris[t * 3 + ((k + 1) % 3)]}`;
+                directed.set(key, (directed.get(key) ?? 0) + 1);
+            }
+        }
+
+        // A boundary edge u->v has no twin v->u; the hole runs v->u.
+        const next = new Map<number, number>();
+        for (const key of directed.keys()) {
+            const [u, v] = key.split(',').map(Number);
+            if (!directed.has(`${v},${u}`)) next.set(v, u);
+        }
+
+        const used = new Set<number>();
+        for (const start of next.keys()) {
+            if (used.has(start)) continue;
+
+            const loop: number[] = [];
+            let current: number | undefined = start;
+            while (current !== undefined && !used.has(current)) {
+                used.add(current);
+                loop.push(current);
+                current = next.get(current);
+            }
+            if (current !== start || loop.length < 3) continue;
+
+            let cx = 0, cy = 0, cz = 0;
+            for (const v of loop) {
+                cx += positions[v * 3];
+                cy += positions[v * 3 + 1];
+                cz += positions[v * 3 + 2];
+            }
+            const center = positions.length / 3;
+            positions.push(cx / loop.length, cy / loop.length, cz / loop.length);
+
+            for (let i = 0; i < loop.length; i++) {
+                tris.push(loop[i], loop[(i + 1) % loop.length], center);
+            }
+        }
+    }
+
+    /**
+     * Uniform-grid broad phase followed by edge/triangle tests. Triangles that
+     * share a vertex are adjacent by construction and are not tested. A pair
+     * is only tested in the cell holding the low corner of the overlap of its
+     * bounding boxes, so each pair is tested once without remembering which.
+     */
+    private countSelfIntersections({ positions, triangles }: WeldedMesh, subset: number[]): number {
+        if (subset.length < 2) return 0;
+
+        // Bounding box of every triangle (min xyz, max xyz) and of the mesh
+        const bounds = new Float64Array(subset.length * 6);
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        let extent = 0;
+        subset.forEach((t, i) => {
+            for (let axis = 0; axis < 3; axis++) {
+                let lo = Infinity, hi = -Infinity;
+                for (let k = 0; k < 3; k++) {
+                    const value = positions[triangles[t * 3 + k] * 3 + axis];
+                    lo = Math.min(lo, value);
+                    hi = Math.max(hi, value);
+                }
+                bounds[i * 6 + axis] = lo;
+                bounds[i * 6 + 3 + axis] = hi;
+                min[axis] = Math.min(min[axis], lo);
+                max[axis] = Math.max(max[axis], hi);
+                extent += hi - lo;
+            }
+        });
+
+        // Cells about two triangles wide, but coarse enough that big triangles don't span too many
+        const longest = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-6);
+        const cellSize = Math.max((2 * extent) / (subset.length * 3), longest / MAX_GRID_CELLS);
+        const dims = min.map((lo, axis) => Math.floor((max[axis] - lo) / cellSize) + 1);
+        const cellOf = (value: number, axis: number) => Math.min(dims[axis] - 1, Math.floor((value - min[axis]) / cellSize));
+
+        const grid = new Map<number, number[]>();
+        for (let i = 0; i < subset.length; i++) {
+            const x0 = cellOf(bounds[i * 6], 0), x1 = cellOf(bounds[i * 6 + 3], 0);
+            const y0 = cellOf(bounds[i * 6 + 1], 1), y1 = cellOf(bounds[i * 6 + 4], 1);
+            const z0 = cellOf(bounds[i * 6 + 2], 2), z1 = cellOf(bounds[i * 6 + 5], 2);
+            for (let x = x0; x <= x1; x++) {
+                for (let y = y0; y <= y1; y++) {
+                    for (let z = z0; z <= z1; z++) {
+                        const key = (x * dims[1] + y) * dims[2] + z;
+                        const list = grid.get(key);
+                        if (list) list.push(i);
+                        else grid.set(key, [i]);
+                    }
+                }
+            }
+        }
+
+        const hits = new Uint8Array(subset.length);
+        const ray = new THREE.Ray();
+        const hit = new THREE.Vector3();
+        const dir = new THREE.Vector3();
+        const normal = new THREE.Vector3();
+        const triangle = new THREE.Triangle();
+        const ta = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+        const tb = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+        const cell = [0, 0, 0];
+
+        const setCorners = (corners: THREE.Vector3[], t: number) => {
+            for (let k = 0; k < 3; k++) {
+                const v = triangles[t * 3 + k] * 3;
+                corners[k].set(positions[v], positions[v + 1], positions[v + 2]);
+            }
+        };
+
+        const edgeHitsTriangle = (p: THREE.Vector3, q: THREE.Vector3, tri: THREE.Vector3[]) => {
+            dir.subVectors(q, p);
+            const length = dir.length();
+            if (length === 0) return false;
+            dir.divideScalar(length);
+            // Coplanar neighbours (flat bottoms, walls) only touch, they don't cross
+            triangle.set(tri[0], tri[1], tri[2]).getNormal(normal);
+            if (Math.abs(normal.dot(dir)) < 1e-6) return false;
+            ray.set(p, dir);
+            const result = ray.intersectTriangle(tri[0], tri[1], tri[2], false, hit);
+            return result !== null && result.distanceTo(p) < length - 1e-9 && result.distanceTo(p) > 1e-9;
+        };
+
+        // Whether a and b overlap, with the low corner of the overlap in this cell
+        const ownsPair = (a: number, b: number) => {
+            for (let axis = 0; axis < 3; axis++) {
+                const lo = Math.max(bounds[a * 6 + axis], bounds[b * 6 + axis]);
+                const hi = Math.min(bounds[a * 6 + 3 + axis], bounds[b * 6 + 3 + axis]);
+                if (lo > hi || cellOf(lo, axis) !== cell[axis]) return false;
+            }
+            return true;
+        };
+
+        for (const [key, list] of grid) {
+            cell[0] = Math.floor(key / (dims[1] * dims[2]));
+            cell[1] = Math.floor(key / dims[2]) % dims[1];
+            cell[2] = key % dims[2];
+
+            for (let i = 0; i < list.length; i++) {
+                for (let j = i + 1; j < list.length; j++) {
+                    const a = list[i], b = list[j];
+                    if (!ownsPair(a, b)) continue;
+
+                    const ia = subset[a] * 3, ib = subset[b] * 3;
+                    let shared = false;
+                    for (let k = 0; k < 3 && !shared; k++) {
+                        const v = triangles[ia + k];
+                        shared = v === triangles[ib] || v === triangles[ib + 1] || v === triangles[ib + 2];
+                    }
+                    if (shared) continue;
+
+                    setCorners(ta, subset[a]);
+                    setCorners(tb, subset[b]);
+                    let intersects = false;
+                    for (let k = 0; k < 3 && !intersects; k++) {
+                        intersects = edgeHitsTriangle(ta[k], ta[(k + 1) % 3], tb) || edgeHitsTriangle(tb[k], tb[(k + 1) % 3], ta);
+                    }
+                    if (intersects) {
+                        hits[a] = 1;
+                        hits[b] = 1;
+                    }
+                }
+            }
+        }
+
+        return hits.reduce((sum, flag) => sum + flag, 0);
+    }
+}
+
+export const meshValidator = new MeshValidator();
@@ -0,0 +1,145 @@
+import type { BorderPattern, ModelSettings } from '../types';
+
+/**
+ * Part of the panel to cut away, in mm from the top-left corner of the part.
+ */
+export interface Cutout {
+    shape: 'circle' | 'rect';
+    x: number; // Centre
+    y: number;
+    width: number; // Diameter for circles
+    height: number;
+}
+
+// Material left around a hanging hole
+export const HOLE_MARGIN = 2; // mm
+
+export class Ornaments {
+
+    /**
+     * Hanging holes below the top edge and stand slots cut up from the
+     * bottom edge. `topEdge(x)` / `bottomEdge(x)` give the part's edge (mm
+     * from the top) at x, so holes follow outline shapes too.
+     */
+    public cutouts(
+        settings: ModelSettings,
+        totalWidth: number,
+        topEdge: (x: number) => number,
+        bottomEdge: (x: number) => number
+    ): Cutout[] {
+        const cutouts: Cutout[] = [];
+        const holes = Math.max(0, Math.min(2, Math.round(settings.hangingHoles)));
+
+        if (holes > 0 && settings.holeDiameter > 0) {
+            const r = settings.holeDiameter / 2;
+            const xs = holes === 1 ? [totalWidth / 2] : [totalWidth * 0.25, totalWidth * 0.75];
+            for (const x of xs) {
+                cutouts.push({
+                    shape: 'circle',
+                    x,
+                    y: topEdge(x) + Math.max(settings.frameWidth / 2, r + HOLE_MARGIN),
+                    width: settings.holeDiameter,
+                    height: settings.holeDiameter,
+                });
+            }
+        }
+
+        if (settings.standSlots && settings.slotWidth > 0 && settings.slotDepth > 0) {
+            for (const x of [totalWidth * 0.25, totalWidth * 0.75]) {
+                // Twice as tall, centred on the edge, so the notch opens to the outside
+                cutouts.push({ shape: 'rect', x, y: bottomEdge(x), width: settings.slotWidth, height: settings.slotDepth * 2 });
+            }
+        }
+
+        return cutouts;
+    }
+
+    /**
+     * Clears the cells (dx x dy mm, row 0 at the top) whose centre lies in a
+     * cutout. Modifies `mask` in place.
+     */
+    public applyCutouts(mask: Uint8Array, cutouts: Cutout[], segsX: number, segsY: number, dx: number, dy: number) {
+        for (let cy = 0; cy < segsY; cy++) {
+            for (let cx = 0; cx < segsX; cx++) {
+                const x = (cx + 0.5) * dx;
+                const y = (cy + 0.5) * dy;
+                if (cutouts.some(c => this.contains(c, x, y, 0))) mask[cy * segsX + cx] = 0;
+            }
+        }
+    }
+
+    /**
+     * Whether (x, y) lies in the cutout grown by `margin` mm.
+     */
+    public contains(cutout: Cutout, x: number, y: number, margin: number): boolean {
+        if (cutout.shape === 'circle') {
+            return Math.hypot(x - cutout.x, y - cutout.y) <= cutout.width / 2 + margin;
+        }
+        return Math.abs(x - cutout.x) <= cutout.width / 2 + margin && Math.abs(y - cutout.y) <= cutout.height / 2 + margin;
+    }
+
+    /**
+     * Text coverage (0-1) at each grid vertex of a gridWidth x gridHeight
+     * grid spaced dx x dy mm, or null without text.
+     */
+    public textCoverage(settings: ModelSettings, gridWidth: number, gridHeight: number, dx: number, dy: number): Float32Array | null {
+        const text = settings.text.trim();
+        if (text === '' || settings.textSize <= 0) return null;
+
+        const canvas = new OffscreenCanvas(gridWidth, gridHeight);
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+        // Draw in mm, one pixel per grid vertex
+        ctx.setTransform(1 / dx, 0, 0, 1 / dy, 0.5, 0.5);
+        ctx.font = `bold ${settings.textSize}px "${settings.textFont}", sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#000';
+
+        const lines = text.split('\n');
+        const lineHeight = settings.textSize * 1.2;
+        const x = (settings.textX / 100) * (gridWidth - 1) * dx;
+        const y = (settings.textY / 100) * (gridHeight - 1) * dy - ((lines.length - 1) * lineHeight) / 2;
+        lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+
+        const { data } = ctx.getImageData(0, 0, gridWidth, gridHeight);
+        const coverage = new Float32Array(gridWidth * gridHeight);
+        for (let i = 0; i < coverage.length; i++) coverage[i] = data[i * 4 + 3] / 255;
+        return coverage;
+    }
+
+    /**
+     * Pattern height (0-1) at distance `d` mm in from the frame's outer edge
+     * and `s` mm along it.
+     */
+    public patternHeight(pattern: BorderPattern, d: number, s: number, frameWidth: number): number {
+        if (frameWidth <= 0 || d < 0 || d > frameWidth) return 0;
+
+        switch (pattern) {
+            case 'ridges': {
+                // Three rounded ridges following the edge
+                return 0.5 - 0.5 * Math.cos((2 * Math.PI * 3 * d) / frameWidth);
+            }
+            case 'beads': {
+                // Domes on the frame's centre line
+                const period = frameWidth * 0.8;
+                const u = (((s % period) + period) % period) - period / 2;
+                const rho = Math.hypot(u, d - frameWidth / 2) / (frameWidth * 0.35);
+                return rho < 1 ? Math.sqrt(1 - rho * rho) : 0;
+            }
+            case 'zigzag': {
+                // A raised line zig-zagging between the frame's edges
+                const period = frameWidth * 1.5;
+                const phase = (((s % period) + period) % period) / period;
+                const centre = frameWidth * (0.2 + 0.6 * (1 - Math.abs(2 * phase - 1)));
+                const halfWidth = frameWidth * 0.08;
+                const off = Math.abs(d - centre);
+                return off < halfWidth ? 1 : Math.max(0, 1 - (off - halfWidth) / halfWidth);
+            }
+            default:
+                return 0;
+        }
+    }
+}
+
+export const ornaments = new Ornaments();
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { shapeOutlines } from './outlines';
+import { defaultModelSettings } from '../store/defaults';
+import type { OutlinePath } from '../types';
+
+const coverage = (mask: Uint8Array) => mask.reduce((sum, v) => sum + v, 0) / mask.length;
+
+describe('shapeOutlines.rasterize', () => {
+    it('fills the built-in circle and heart', () => {
+        const circle = shapeOutlines.rasterize(shapeOutlines.outlineFor({ ...defaultModelSettings, shape: 'circle' })!, 100, 100);
+        expect(coverage(circle)).toBeCloseTo(Math.PI / 4, 2);
+
+        const heart = shapeOutlines.rasterize(shapeOutlines.outlineFor({ ...defaultModelSettings, shape: 'heart' })!, 100, 100);
+        expect(heart[50 * 100 + 50]).toBe(1);
+        expect(heart[2 * 100 + 50]).toBe(0); // The notch at the top
+        expect(heart[95 * 100 + 50]).toBe(0);
+        // Mirror symmetric
+        for (let r = 0; r < 100; r++) {
+            for (let c = 0; c < 50; c++) expect(heart[r * 100 + c]).toBe(heart[r * 100 + 99 - c]);
+        }
+    });
+
+    it('reads relative commands, compact arc flags and holes', () => {
+        // A 10 x 10 square with a circular hole drawn the other way round
+        const ring: OutlinePath = {
+            path: 'm0 0h10v10H0z M5 2a3 3 0 100 6a3 3 0 100-6z',
+            viewBox: [0, 0, 10, 10],
+        };
+        const mask = shapeOutlines.rasterize(ring, 20, 20);
+        expect(mask[0]).toBe(1);
+        expect(mask[10 * 20 + 10]).toBe(0);
+        expect(coverage(mask)).toBeCloseTo(1 - (Math.PI * 9) / 100, 1);
+    });
+
+    it('rejects unreadable path data', () => {
+        expect(() => shapeOutlines.rasterize({ path: 'M0 0 L5 oops', viewBox: [0, 0, 10, 10] }, 4, 4)).toThrow(/Unreadable/);
+    });
+});
@@ -0,0 +1,287 @@
+import type { ModelSettings, OutlinePath } from '../types';
+
+// Built-in outlines in a 100 x 100 box, stretched to the part size.
+const HEART: OutlinePath = {
+    path: 'M50 92 C20 70 2 52 2 30 C2 14 14 4 28 4 C38 4 46 10 50 18 C54 10 62 4 72 4 C86 4 98 14 98 30 C98 52 80 70 50 92 Z',
+    viewBox: [0, 0, 100, 100],
+};
+
+const CIRCLE: OutlinePath = {
+    path: 'M50 0 A50 50 0 1 1 50 100 A50 50 0 1 1 50 0 Z',
+    viewBox: [0, 0, 100, 100],
+};
+
+type Point = [number, number];
+
+// Lines per curve segment when flattening; plenty at cell resolution
+const CURVE_STEPS = 16;
+
+const NUMBER = /[+-]?(?:\d*\.\d+|\d+\.?)(?:[eE][+-]?\d+)?/y;
+
+export class ShapeOutlines {
+
+    /**
+     * Outline that clips the panel, or null for shapes without one.
+     */
+    public outlineFor(settings: ModelSettings): OutlinePath | null {
+        switch (settings.shape) {
+            case 'heart':
+                return HEART;
+            case 'circle':
+                return CIRCLE;
+            case 'custom':
+                return settings.customOutline;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Rasterizes the outline onto a cols x rows cell grid (row 0 = top).
+     * A cell is inside (1) when the filled path covers its centre, with
+     * the nonzero rule like a canvas fill. Needs no canvas, so it also runs
+     * in Node.
+     */
+    public rasterize(outline: OutlinePath, cols: number, rows: number): Uint8Array {
+        const [minX, minY, width, height] = outline.viewBox;
+        const mask = new Uint8Array(cols * rows);
+        const cellX = (c: number) => minX + ((c + 0.5) * width) / cols;
+        const cellY = (r: number) => minY + ((r + 0.5) * height) / rows;
+
+        if (outline === CIRCLE) {
+            // Exact, no flattening needed
+            for (let r = 0; r < rows; r++) {
+                const dy = cellY(r) - 50;
+                for (let c = 0; c < cols; c++) {
+                    const dx = cellX(c) - 50;
+                    mask[r * cols + c] = dx * dx + dy * dy <= 50 * 50 ? 1 : 0;
+                }
+            }
+            return mask;
+        }
+
+        const polygons = this.flatten(outline.path);
+        const crossings: { x: number; winding: number }[] = [];
+        for (let r = 0; r < rows; r++) {
+            // Where the row's centre line crosses the edges; subpaths close implicitly
+            const y = cellY(r);
+            crossings.length = 0;
+            for (const points of polygons) {
+                for (let i = 0; i < points.length; i++) {
+                    const [ax, ay] = points[i];
+                    const [bx, by] = points[(i + 1) % points.length];
+                    if ((ay <= y) === (by <= y)) continue;
+                    crossings.push({ x: ax + ((y - ay) * (bx - ax)) / (by - ay), winding: by > ay ? 1 : -1 });
+                }
+            }
+            crossings.sort((a, b) => a.x - b.x);
+
+            let next = 0, winding = 0;
+            for (let c = 0; c < cols; c++) {
+                const x = cellX(c);
+                while (next < crossings.length && crossings[next].x < x) winding += crossings[next++].winding;
+                mask[r * cols + c] = winding !== 0 ? 1 : 0;
+            }
+        }
+        return mask;
+    }
+
+    /**
+     * Turns SVG path data into polygons, one per subpath, with curves and
+     * arcs split into short lines.
+     */
+    private flatten(path: string): Point[][] {
+        const polygons: Point[][] = [];
+        let points: Point[] = [];
+        let pos = 0;
+        let command = '';
+        let previous = ''; // Last command, for the reflected control points of S and T
+        let x = 0, y = 0, startX = 0, startY = 0, controlX = 0, controlY = 0;
+
+        const fail = (): never => {
+            throw new Error(`Unreadable outline path near "${path.slice(pos, pos + 12)}"`);
+        };
+        const skip = () => {
+            while (pos < path.length && /[\s,]/.test(path[pos])) pos++;
+        };
+        const number = () => {
+            skip();
+            NUMBER.lastIndex = pos;
+            const match = NUMBER.exec(path) ?? fail();
+            pos = NUMBER.lastIndex;
+            return parseFloat(match[0]);
+        };
+        // Arc flags may be written without separators ("a5 5 0 015 5")
+        const flag = () => {
+            skip();
+            const c = path[pos++];
+            if (c !== '0' && c !== '1') fail();
+            return c === '1';
+        };
+        const lineTo = (nx: number, ny: number) => {
+            points.push([nx, ny]);
+            x = nx;
+            y = ny;
+        };
+        const endSubpath = () => {
+            if (points.length > 2) polygons.push(points);
+            points = [];
+        };
+
+        for (;;) {
+            skip();
+            if (pos >= path.length) break;
+            if (/[a-zA-Z]/.test(path[pos])) command = path[pos++];
+            else if (!command) fail();
+
+            const relative = command === command.toLowerCase();
+            const ox = relative ? x : 0, oy = relative ? y : 0;
+            const type = command.toUpperCase();
+            // Control point of the previous curve mirrored about the current point
+            const reflected = (types: string): Point =>
+                previous !== '' && types.includes(previous) ? [2 * x - controlX, 2 * y - controlY] : [x, y];
+
+            switch (type) {
+                case 'M': {
+                    endSubpath();
+                    const nx = ox + number(), ny = oy + number();
+                    points = [[nx, ny]];
+                    x = startX = nx;
+                    y = startY = ny;
+                    // Further pairs are lines
+                    command = relative ? 'l' : 'L';
+                    break;
+                }
+                case 'L': lineTo(ox + number(), oy + number()); break;
+                case 'H': lineTo(ox + number(), y); break;
+                case 'V': lineTo(x, oy + number()); break;
+                case 'C':
+                case 'S': {
+                    const [x1, y1] = type === 'C' ? [ox + number(), oy + number()] : reflected('CS');
+                    const x2 = ox + number(), y2 = oy + number();
+                    const ex = ox + number(), ey = oy + number();
+                    const [x0, y0] = [x, y];
+                    for (let i = 1; i <= CURVE_STEPS; i++) {
+                        const t = i / CURVE_STEPS, u = 1 - t;
+                        points.push([
+                            u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * ex,
+                            u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * ey,
+                        ]);
+                    }
+                    [x, y, controlX, controlY] = [ex, ey, x2, y2];
+                    break;
+                }
+                case 'Q':
+                case 'T': {
+                    const [x1, y1] = type === 'Q' ? [ox + number(), oy + number()] : reflected('QT');
+                    const ex = ox + number(), ey = oy + number();
+                    const [x0, y0] = [x, y];
+                    for (let i = 1; i <= CURVE_STEPS; i++) {
+                        const t = i / CURVE_STEPS, u = 1 - t;
+                        points.push([u * u * x0 + 2 * u * t * x1 + t * t * ex, u * u * y0 + 2 * u * t * y1 + t * t * ey]);
+                    }
+                    [x, y, controlX, controlY] = [ex, ey, x1, y1];
+                    break;
+                }
+                case 'A': {
+                    const rx = number(), ry = number(), rotation = number();
+                    const large = flag(), sweep = flag();
+                    const ex = ox + number(), ey = oy + number();
+                    this.flattenArc(points, x, y, rx, ry, rotation, large, sweep, ex, ey);
+                    x = ex;
+                    y = ey;
+                    break;
+                }
+                case 'Z':
+                    endSubpath();
+                    points = [[startX, startY]];
+                    x = startX;
+                    y = startY;
+                    // Numbers after Z are an error, not a repeat
+                    command = '';
+                    break;
+                default:
+                    fail();
+            }
+            previous = type;
+        }
+        endSubpath();
+        return polygons;
+    }
+
+    /**
+     * Appends an elliptical arc from (x1, y1) to (x2, y2) as line points,
+     * using the centre parameterization of the SVG spec (F.6.5).
+     */
+    private flattenArc(
+        points: Point[], x1: number, y1: number, rx: number, ry: number,
+        rotation: number, large: boolean, sweep: boolean, x2: number, y2: number
+    ) {
+        rx = Math.abs(rx);
+        ry = Math.abs(ry);
+        if (x1 === x2 && y1 === y2) return;
+        if (rx === 0 || ry === 0) {
+            points.push([x2, y2]);
+            return;
+        }
+
+        const phi = (rotation * Math.PI) / 180;
+        const cos = Math.cos(phi), sin = Math.sin(phi);
+        const dx = (x1 - x2) / 2, dy = (y1 - y2) / 2;
+        const px = cos * dx + sin * dy, py = -sin * dx + cos * dy;
+
+        // Radii too small for the endpoints are scaled up
+        const lambda = (px * px) / (rx * rx) + (py * py) / (ry * ry);
+        if (lambda > 1) {
+            rx *= Math.sqrt(lambda);
+            ry *= Math.sqrt(lambda);
+        }
+
+        const numerator = rx * rx * ry * ry - rx * rx * py * py - ry * ry * px * px;
+        const denominator = rx * rx * py * py + ry * ry * px * px;
+        const coefficient = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+        const cpx = (coefficient * rx * py) / ry, cpy = (-coefficient * ry * px) / rx;
+        const cx = cos * cpx - sin * cpy + (x1 + x2) / 2;
+        const cy = sin * cpx + cos * cpy + (y1 + y2) / 2;
+
+        const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+        const start = angle(1, 0, (px - cpx) / rx, (py - cpy) / ry);
+        let sweepAngle = angle((px - cpx) / rx, (py - cpy) / ry, (-px - cpx) / rx, (-py - cpy) / ry);
+        if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+        else if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+        const steps = Math.max(1, Math.ceil((Math.abs(sweepAngle) / (2 * Math.PI)) * CURVE_STEPS * 4));
+        for (let i = 1; i < steps; i++) {
+            const t = start + (sweepAngle * i) / steps;
+            const ex = rx * Math.cos(t), ey = ry * Math.sin(t);
+            points.push([cos * ex - sin * ey + cx, sin * ex + cos * ey + cy]);
+        }
+        points.push([x2, y2]);
+    }
+
+    /**
+     * Extracts the path data and view box of an SVG document. All <path>
+     * elements are combined into one outline.
+     */
+    public parseSvg(text: string): OutlinePath {
+        const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+        const svg = doc.querySelector('svg');
+        const paths = Array.from(doc.querySelectorAll('path'))
+            .map(p => p.getAttribute('d'))
+            .filter((d): d is string => !!d);
+
+        if (!svg || paths.length === 0) throw new Error('No <path> found in SVG');
+
+        let viewBox = (svg.getAttribute('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+        if (viewBox.length !== 4 || viewBox.some(v => !Number.isFinite(v)) || viewBox[2] <= 0 || viewBox[3] <= 0) {
+            const w = parseFloat(svg.getAttribute('width') ?? '');
+            const h = parseFloat(svg.getAttribute('height') ?? '');
+            if (!(w > 0 && h > 0)) throw new Error('SVG needs a viewBox or width/height');
+            viewBox = [0, 0, w, h];
+        }
+
+        return { path: paths.join(' '), viewBox: viewBox as OutlinePath['viewBox'] };
+    }
+}
+
+export const shapeOutlines = new ShapeOutlines();
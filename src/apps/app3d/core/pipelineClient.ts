@@ -0,0 +1,187 @@
+import * as THREE from 'three';
+import type { ImageSettings, ModelSettings, GCodeSettings } from '../types';
+import type { ColorMaps } from './colorLithophane';
+import type { DepthMap } from './depthMap';
+import type { CalibrationMapping } from './lithophanePipeline';
+import type { MeshReport, ValidateOptions } from './meshValidator';
+
+// ─── Worker protocol ───
+
+export type PipelineRequest =
+    | {
+        type: 'process';
+        jobId: number;
+        image: ImageBitmap;
+        imageSettings: ImageSettings;
+        resolution: number;
+        separateColors: boolean; // Also return ink coverage maps (colour lithophane)
+        calibration: CalibrationMapping | null;
+        depth: DepthMap | null; // Heights come from this instead of the image's luminance
+    }
+    | {
+        type: 'mesh';
+        jobId: number;
+        heightmap: Float32Array;
+        width: number;
+        height: number;
+        modelSettings: ModelSettings;
+        carveWith?: GCodeSettings; // Simulate CNC carving instead of the ideal model
+        colorMaps?: ColorMaps; // Build one body per filament
+    }
+    | {
+        type: 'validate';
+        jobId: number;
+        mesh: SurfaceBuffers;
+        options: ValidateOptions;
+        repair: boolean; // Repair and check again when the mesh has issues
+    };
+
+/**
+ * Positions and (optional) index of any mesh, e.g. one opened from a file.
+ */
+export interface SurfaceBuffers {
+    positions: Float32Array;
+    index: Uint16Array | Uint32Array | null;
+}
+
+export interface MeshBuffers {
+    positions: Float32Array;
+    normals: Float32Array;
+    thickness: Float32Array;
+    index: Uint16Array | Uint32Array;
+}
+
+export type MeshBody = { name: string; color: string } & MeshBuffers;
+
+export type MeshPart = MeshBody & { placement: number[] | null };
+
+export type PipelineResponse =
+    | { type: 'progress'; jobId: number; stage: string; progress: number }
+    | { type: 'processed'; jobId: number; heightmap: Float32Array; width: number; height: number; preview: Blob; colorMaps?: ColorMaps }
+    | ({ type: 'mesh'; jobId: number } & MeshBuffers)
+    | { type: 'bodies'; jobId: number; bodies: MeshBody[] }
+    | { type: 'parts'; jobId: number; parts: MeshPart[] }
+    | { type: 'validated'; jobId: number; report: MeshReport; repaired: SurfaceBuffers | null }
+    | { type: 'error'; jobId: number; message: string };
+
+export interface PipelineProgress {
+    stage: string;
+    progress: number; // 0-1
+}
+
+/**
+ * Rejection reason for a job that was superseded by a newer one.
+ */
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Job cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * One worker running one job at a time. Starting a job while another is
+ * still running terminates the worker (the stale job cannot finish) and
+ * starts a fresh one.
+ */
+export class PipelineChannel {
+    private worker: Worker | null = null;
+    private nextJobId = 1;
+    private pending: { jobId: number; reject: (reason: unknown) => void } | null = null;
+
+    public run(
+        request: DistributiveOmit<PipelineRequest, 'jobId'>,
+        transfer: Transferable[],
+        onProgress?: (progress: PipelineProgress) => void
+    ): Promise<PipelineResponse> {
+        this.cancel();
+
+        const worker = this.worker ?? this.spawn();
+        const jobId = this.nextJobId++;
+
+        return new Promise((resolve, reject) => {
+            this.pending = { jobId, reject };
+
+            worker.onmessage = (e: MessageEvent<PipelineResponse>) => {
+                const msg = e.data;
+                if (msg.jobId !== jobId) return;
+
+                if (msg.type === 'progress') {
+                    onProgress?.({ stage: msg.stage, progress: msg.progress });
+                    return;
+                }
+
+                this.pending = null;
+                if (msg.type === 'error') reject(new Error(msg.message));
+                else resolve(msg);
+            };
+
+            worker.onerror = (e) => {
+                this.pending = null;
+                reject(new Error(e.message || 'Pipeline worker crashed'));
+            };
+
+            worker.postMessage({ ...request, jobId }, transfer);
+        });
+    }
+
+    /**
+     * Abandons the running job, if any.
+     */
+    public cancel() {
+        if (!this.pending) return;
+
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.reject(new JobCancelledError());
+        this.pending = null;
+    }
+
+    public dispose() {
+        this.cancel();
+        this.worker?.terminate();
+        this.worker = null;
+    }
+
+    private spawn(): Worker {
+        this.worker = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), { type: 'module' });
+        return this.worker;
+    }
+}
+
+/**
+ * Copies the positions and index of a geometry for sending to the worker.
+ */
+export const surfaceBuffers = (geometry: THREE.BufferGeometry): SurfaceBuffers => {
+    const position = geometry.attributes.position;
+    const positions = new Float32Array(position.count * 3);
+    for (let i = 0; i < position.count; i++) {
+        positions[i * 3] = position.getX(i);
+        positions[i * 3 + 1] = position.getY(i);
+        positions[i * 3 + 2] = position.getZ(i);
+    }
+    return { positions, index: geometry.index ? (geometry.index.array as Uint16Array | Uint32Array).slice() : null };
+};
+
+export const geometryFromSurface = ({ positions, index }: SurfaceBuffers): THREE.BufferGeometry => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+    geometry.computeVertexNormals();
+    return geometry;
+};
+
+/**
+ * Rebuilds a BufferGeometry from buffers produced by the worker.
+ */
+export const geometryFromBuffers = ({ positions, normals, thickness, index }: MeshBuffers): THREE.BufferGeometry => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+    geometry.setAttribute('thickness', new THREE.BufferAttribute(thickness, 1));
+    geometry.setIndex(new THREE.BufferAttribute(index, 1));
+    geometry.computeBoundingBox();
+    return geometry;
+};
@@ -0,0 +1,146 @@
+/**
+ * Decoded PNG: RGBA samples at the file's precision (0 to maxSample), with
+ * grey and palette images expanded and missing alpha filled opaque.
+ */
+export interface PngPixels {
+    width: number;
+    height: number;
+    maxSample: number; // 255 or 65535 (lower bit depths are scaled up to 255)
+    data: Uint16Array; // width * height * 4
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel by PNG colour type
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Minimal PNG reader that needs no canvas (works in workers and Node):
+ * all colour types and bit depths, non-interlaced only.
+ */
+export class PngDecoder {
+
+    public isPng(bytes: Uint8Array): boolean {
+        return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+    }
+
+    public async decode(bytes: Uint8Array): Promise<PngPixels> {
+        if (!this.isPng(bytes)) throw new Error('Not a PNG file');
+
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+        let palette: Uint8Array | null = null;
+        let transparency: Uint8Array | null = null;
+        const idat: Uint8Array[] = [];
+
+        for (let offset = 8; offset + 8 <= bytes.length;) {
+            const length = view.getUint32(offset);
+            const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+            const body = bytes.subarray(offset + 8, offset + 8 + length);
+
+            if (type === 'IHDR') {
+                width = view.getUint32(offset + 8);
+                height = view.getUint32(offset + 12);
+                bitDepth = body[8];
+                colorType = body[9];
+                interlace = body[12];
+            } else if (type === 'PLTE') {
+                palette = body;
+            } else if (type === 'tRNS') {
+                transparency = body;
+            } else if (type === 'IDAT') {
+                idat.push(body);
+            } else if (type === 'IEND') {
+                break;
+            }
+            offset += 12 + length; // Length, type, body, CRC
+        }
+
+        const channels = PNG_CHANNELS[colorType];
+        if (!width || !height || !channels) throw new Error('Unsupported or damaged PNG');
+        if (interlace !== 0) throw new Error('Interlaced PNGs are not supported');
+        if (colorType === 3 && !palette) throw new Error('PNG palette missing');
+
+        const raw = new Uint8Array(await new Response(
+            new Blob(idat as BlobPart[]).stream().pipeThrough(new DecompressionStream('deflate'))
+        ).arrayBuffer());
+
+        const bitsPerPixel = channels * bitDepth;
+        const stride = Math.ceil((width * bitsPerPixel) / 8);
+        const bpp = Math.max(1, bitsPerPixel / 8); // Filter distance in bytes
+        if (raw.length < (stride + 1) * height) throw new Error('PNG image data is truncated');
+
+        const fileMax = 2 ** bitDepth - 1;
+        // Low bit depths and palettes come out as 8-bit
+        const maxSample = bitDepth === 16 ? 65535 : 255;
+        const scale = colorType === 3 ? 1 : maxSample / fileMax;
+        const data = new Uint16Array(width * height * 4);
+        let previous = new Uint8Array(stride);
+
+        for (let y = 0; y < height; y++) {
+            const filter = raw[y * (stride + 1)];
+            const line = raw.slice(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+            this.unfilter(line, previous, filter, bpp);
+            previous = line;
+
+            const sample = (index: number) => {
+                if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+                if (bitDepth === 8) return line[index];
+                const bit = index * bitDepth;
+                return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & fileMax;
+            };
+
+            for (let x = 0; x < width; x++) {
+                const s = x * channels;
+                const o = (y * width + x) * 4;
+                if (colorType === 3) {
+                    const p = sample(s);
+                    data[o] = palette![p * 3];
+                    data[o + 1] = palette![p * 3 + 1];
+                    data[o + 2] = palette![p * 3 + 2];
+                    data[o + 3] = transparency && p < transparency.length ? transparency[p] : 255;
+                } else if (channels >= 3) {
+                    data[o] = sample(s) * scale;
+                    data[o + 1] = sample(s + 1) * scale;
+                    data[o + 2] = sample(s + 2) * scale;
+                    data[o + 3] = channels === 4 ? sample(s + 3) * scale : maxSample;
+                } else {
+                    const grey = sample(s) * scale;
+                    data[o] = grey;
+                    data[o + 1] = grey;
+                    data[o + 2] = grey;
+                    data[o + 3] = channels === 2 ? sample(s + 1) * scale : maxSample;
+                }
+            }
+        }
+
+        return { width, height, maxSample, data };
+    }
+
+    /**
+     * Reverses a PNG scanline filter in place.
+     */
+    private unfilter(line: Uint8Array, previous: Uint8Array, filter: number, bpp: number) {
+        for (let i = 0; i < line.length; i++) {
+            const a = i >= bpp ? line[i - bpp] : 0;
+            const b = previous[i];
+            const c = i >= bpp ? previous[i - bpp] : 0;
+            switch (filter) {
+                case 0: break;
+                case 1: line[i] = (line[i] + a) & 0xff; break;
+                case 2: line[i] = (line[i] + b) & 0xff; break;
+                case 3: line[i] = (line[i] + ((a + b) >> 1)) & 0xff; break;
+                case 4: {
+                    const p = a + b - c;
+                    const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+                    line[i] = (line[i] + (pa <= pb && pa <= pc ? a : pb <= pc ? b : c)) & 0xff;
+                    break;
+                }
+                default:
+                    throw new Error(`Unknown PNG filter ${filter}`);
+            }
+        }
+    }
+}
+
+export const pngDecoder = new PngDecoder();
@@ -0,0 +1,173 @@
+import type { ImageSettings, ImageFilter, ModelSettings, GCodeSettings, SettingsPreset, PresetPart } from '../types';
+import { defaultImageSettings, defaultModelSettings, defaultGCodeSettings } from '../store/defaults';
+import { imageFilters } from './imageFilters';
+
+const STORAGE_KEY = 'studio-pro:lithophane-presets';
+const FORMAT = 'studio-pro-lithophane-presets';
+const FILE_VERSION = 2; // 2: image filter stack
+
+/**
+ * The settings a preset captures.
+ */
+export interface LithophaneSettings {
+    imageSettings: ImageSettings;
+    modelSettings: ModelSettings;
+    gcodeSettings: GCodeSettings;
+}
+
+interface PresetFile {
+    format: typeof FORMAT;
+    version: number;
+    presets: Partial<SettingsPreset>[];
+}
+
+// Viewing choices and the filament's calibration belong to the user, not the preset
+const KEPT_MODEL_KEYS = ['showWireframe', 'showCarvedPreview', 'showBacklit', 'calibrationId'] as const;
+
+const builtIn = (
+    id: string,
+    name: string,
+    description: string,
+    model: Partial<ModelSettings>,
+    filters: ImageFilter[] = [],
+    gcode: Partial<GCodeSettings> = {}
+): SettingsPreset => ({
+    id: `builtin:${id}`,
+    name,
+    description,
+    builtIn: true,
+    imageSettings: { ...defaultImageSettings, filters },
+    modelSettings: { ...defaultModelSettings, ...model },
+    gcodeSettings: { ...defaultGCodeSettings, ...gcode },
+});
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+    builtIn('portrait-100', 'Portrait 100mm', 'Framed 100 × 130 mm panel for photos of people',
+        { width: 100, height: 130, depth: 2.4, baseHeight: 0.8, frameWidth: 4, frameDepth: 4, smoothing: true, smoothingIterations: 1, maxDeviation: 0.03 },
+        [imageFilters.create('gamma', { gamma: 1.1 }), imageFilters.create('noiseReduction', { strength: 2 }), imageFilters.create('sharpen', { amount: 2 })]),
+    builtIn('night-light', 'Night-light cylinder', 'Ø 70 mm lamp shade with a lip to sit on a tea light base',
+        { shape: 'cylinder', width: 220, height: 120, depth: 2.6, baseHeight: 0.8, lipWidth: 3, lipHeight: 3, smoothing: true, smoothingIterations: 2 },
+        [imageFilters.create('contrast', { amount: 10 })]),
+    builtIn('keychain', 'Keychain', 'Small round tag, fast to print',
+        { shape: 'circle', width: 40, height: 40, depth: 2, baseHeight: 0.6, frameWidth: 2, frameDepth: 3, resolution: 512, maxDeviation: 0.02 },
+        [imageFilters.create('contrast', { amount: 20 }), imageFilters.create('sharpen', { amount: 3 })]),
+    builtIn('cnc-panel', 'CNC panel (Corian)', 'Carved 6 mm sheet, ball-nose finishing pass',
+        { width: 150, height: 100, depth: 3, baseHeight: 0.8, frameWidth: 0, smoothing: true, smoothingIterations: 2 },
+        [imageFilters.create('noiseReduction', { strength: 3 })],
+        { toolType: 'ball', toolDiameter: 3.175, finishStepOver: 0.08, stockToLeave: 0.3, passDepth: 1.5 }),
+];
+
+export class PresetManager {
+
+    /**
+     * Presets saved in this browser, oldest first. Unreadable storage yields an empty list.
+     */
+    public loadPresets(): SettingsPreset[] {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+            const presets = raw ? JSON.parse(raw) : [];
+            return Array.isArray(presets) ? presets.map(p => this.restore(p, p.id)) : [];
+        } catch (err) {
+            console.error('Could not read presets', err);
+            return [];
+        }
+    }
+
+    /**
+     * Inserts or replaces (by id) a user preset and returns the updated list.
+     */
+    public savePreset(preset: SettingsPreset): SettingsPreset[] {
+        return this.store([...this.loadPresets().filter(p => p.id !== preset.id), { ...preset, builtIn: false }]);
+    }
+
+    public deletePreset(id: string): SettingsPreset[] {
+        return this.store(this.loadPresets().filter(p => p.id !== id));
+    }
+
+    /**
+     * A new user preset holding the given settings.
+     */
+    public createPreset(name: string, description: string, settings: LithophaneSettings): SettingsPreset {
+        return {
+            id: this.newId(),
+            name,
+            description,
+            builtIn: false,
+            imageSettings: { ...settings.imageSettings },
+            modelSettings: { ...settings.modelSettings },
+            gcodeSettings: { ...settings.gcodeSettings },
+        };
+    }
+
+    /**
+     * Copies the chosen parts of a preset onto the current settings.
+     */
+    public apply(current: LithophaneSettings, preset: SettingsPreset, parts: PresetPart[]): LithophaneSettings {
+        const next = { ...current };
+
+        if (parts.includes('image')) next.imageSettings = { ...preset.imageSettings };
+        if (parts.includes('gcode')) next.gcodeSettings = { ...preset.gcodeSettings };
+        if (parts.includes('model')) {
+            const modelSettings = { ...preset.modelSettings };
+            for (const key of KEPT_MODEL_KEYS) {
+                (modelSettings as Record<string, unknown>)[key] = current.modelSettings[key];
+            }
+            next.modelSettings = modelSettings;
+        }
+        return next;
+    }
+
+    /**
+     * JSON file with the given presets, for sharing.
+     */
+    public exportPresets(presets: SettingsPreset[]): Blob {
+        const file: PresetFile = {
+            format: FORMAT,
+            version: FILE_VERSION,
+            presets: presets.map(({ builtIn: _b, ...preset }) => preset),
+        };
+        return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    }
+
+    /**
+     * Reads a preset file. Imported presets get fresh ids so they never
+     * replace local ones; missing settings fall back to the defaults.
+     */
+    public parsePresets(text: string): SettingsPreset[] {
+        const file = JSON.parse(text) as PresetFile;
+        if (file?.format !== FORMAT || !Array.isArray(file.presets)) {
+            throw new Error('Not a lithophane preset file');
+        }
+        if (file.version > FILE_VERSION) {
+            throw new Error(`Preset file was saved by a newer version (v${file.version}); please update`);
+        }
+
+        return file.presets
+            .filter(p => typeof p?.name === 'string' && p.name.trim() !== '')
+            .map(p => this.restore(p, this.newId()));
+    }
+
+    private restore(saved: Partial<SettingsPreset>, id: string): SettingsPreset {
+        return {
+            id,
+            name: String(saved.name ?? 'Untitled'),
+            description: String(saved.description ?? ''),
+            builtIn: false,
+            // Presets saved before the filter stack still carry the fixed adjustments
+            imageSettings: { ...defaultImageSettings, ...imageFilters.upgradeSettings(saved.imageSettings as Record<string, unknown> | undefined) },
+            modelSettings: { ...defaultModelSettings, ...saved.modelSettings },
+            gcodeSettings: { ...defaultGCodeSettings, ...saved.gcodeSettings },
+        };
+    }
+
+    private store(presets: SettingsPreset[]): SettingsPreset[] {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+        return presets;
+    }
+
+    private newId(): string {
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+}
+
+export const presetManager = new PresetManager();
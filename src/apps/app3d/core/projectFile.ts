@@ -0,0 +1,229 @@
+import JSZip from 'jszip';
+import type { ImageSettings, ModelSettings, GCodeSettings, CalibrationCurve } from '../types';
+import { defaultImageSettings, defaultModelSettings, defaultGCodeSettings } from '../store/defaults';
+import { imageFilters } from './imageFilters';
+import type { HeightmapEdits } from './heightmapEditor';
+
+const FORMAT = 'studio-pro-lithophane';
+export const PROJECT_VERSION = 2;
+
+const MANIFEST_NAME = 'project.json';
+const IMAGE_DIR = 'image/';
+const DEPTH_DIR = 'depth/';
+const EDITS_DELTA = 'edits/delta.bin';
+const EDITS_MASK = 'edits/mask.bin';
+
+const DB_NAME = 'studio-pro-lithophane';
+const DB_STORE = 'projects';
+const AUTOSAVE_KEY = 'autosave';
+
+/**
+ * Everything needed to reopen a lithophane job.
+ */
+export interface ProjectState {
+    imageSettings: ImageSettings;
+    modelSettings: ModelSettings;
+    gcodeSettings: GCodeSettings;
+    image: Blob | null; // Original source image, untouched
+    imageName: string;
+    depthImage: Blob | null; // Depth map the heights come from, if any
+    depthName: string;
+    calibrationCurve: CalibrationCurve | null; // The selected curve travels with the project
+    edits: HeightmapEdits | null; // Brush edits, at the heightmap size they were made at
+}
+
+/**
+ * project.json. Settings are stored as saved; older versions are brought up
+ * to date by `migrate`.
+ */
+export interface ProjectManifest {
+    format: typeof FORMAT;
+    version: number;
+    savedAt: string; // ISO date
+    imageSettings: Record<string, unknown>;
+    modelSettings: Record<string, unknown>;
+    gcodeSettings: Record<string, unknown>;
+    image: { fileName: string; type: string } | null;
+    depth?: { fileName: string; type: string } | null; // Absent before depth maps existed
+    edits?: { width: number; height: number } | null; // Absent before brush edits were saved
+    calibrationCurve: CalibrationCurve | null;
+}
+
+/**
+ * MIGRATIONS[n] upgrades a version n + 1 manifest to version n + 2.
+ * Append one whenever a settings type changes shape; fields that were only
+ * added need no migration, missing keys fall back to the defaults.
+ */
+const MIGRATIONS: ((manifest: ProjectManifest) => ProjectManifest)[] = [
+    // v2: the fixed image adjustments became the filter stack
+    manifest => ({
+        ...manifest,
+        imageSettings: { ...imageFilters.upgradeSettings(manifest.imageSettings) },
+    }),
+];
+
+export class ProjectManager {
+
+    /**
+     * Packs the project into a zip: project.json plus the source image. Brush
+     * edits are stored raw, delta as Float32 and mask as Uint8.
+     */
+    public async serialize(state: ProjectState): Promise<Blob> {
+        const zip = new JSZip();
+        const manifest = this.manifest(state);
+
+        zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+        if (state.image && manifest.image) {
+            zip.file(IMAGE_DIR + manifest.image.fileName, await state.image.arrayBuffer());
+        }
+        if (state.depthImage && manifest.depth) {
+            zip.file(DEPTH_DIR + manifest.depth.fileName, await state.depthImage.arrayBuffer());
+        }
+        if (state.edits) {
+            const { delta, mask } = state.edits;
+            zip.file(EDITS_DELTA, new Uint8Array(delta.buffer, delta.byteOffset, delta.byteLength));
+            zip.file(EDITS_MASK, mask);
+        }
+
+        return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/zip' });
+    }
+
+    public async parse(file: Blob): Promise<ProjectState> {
+        const zip = await JSZip.loadAsync(await file.arrayBuffer());
+        const manifestFile = zip.file(MANIFEST_NAME);
+        if (!manifestFile) throw new Error('Not a lithophane project: project.json missing');
+
+        const manifest = JSON.parse(await manifestFile.async('string')) as ProjectManifest;
+        if (manifest.format !== FORMAT) throw new Error('Not a lithophane project');
+
+        let image: Blob | null = null;
+        if (manifest.image) {
+            const imageFile = zip.file(IMAGE_DIR + manifest.image.fileName);
+            if (!imageFile) throw new Error(`Project image ${manifest.image.fileName} missing`);
+            image = new Blob([await imageFile.async('arraybuffer')], { type: manifest.image.type });
+        }
+
+        let depth: Blob | null = null;
+        if (manifest.depth) {
+            const depthFile = zip.file(DEPTH_DIR + manifest.depth.fileName);
+            if (!depthFile) throw new Error(`Project depth map ${manifest.depth.fileName} missing`);
+            depth = new Blob([await depthFile.async('arraybuffer')], { type: manifest.depth.type });
+        }
+
+        let edits: HeightmapEdits | null = null;
+        if (manifest.edits) {
+            const { width, height } = manifest.edits;
+            const deltaFile = zip.file(EDITS_DELTA);
+            const maskFile = zip.file(EDITS_MASK);
+            if (!deltaFile || !maskFile) throw new Error('Project brush edits missing');
+            const delta = new Float32Array(await deltaFile.async('arraybuffer'));
+            const mask = await maskFile.async('uint8array');
+            if (delta.length !== width * height || mask.length !== width * height) {
+                throw new Error(`Project brush edits do not match their ${width}x${height} size`);
+            }
+            edits = { width, height, delta, mask };
+        }
+
+        return this.restore(manifest, image, depth, edits);
+    }
+
+    /**
+     * Writes the project to IndexedDB, replacing the previous autosave.
+     */
+    public async autosave(state: ProjectState): Promise<void> {
+        const db = await this.openDb();
+        try {
+            await this.request(db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE)
+                .put({ manifest: this.manifest(state), image: state.image, depth: state.depthImage, edits: state.edits }, AUTOSAVE_KEY));
+        } finally {
+            db.close();
+        }
+    }
+
+    public async loadAutosave(): Promise<ProjectState | null> {
+        const db = await this.openDb();
+        try {
+            const record = await this.request<{
+                manifest: ProjectManifest;
+                image: Blob | null;
+                depth?: Blob | null;
+                edits?: HeightmapEdits | null;
+            } | undefined>(
+                db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(AUTOSAVE_KEY)
+            );
+            return record ? this.restore(record.manifest, record.image, record.depth ?? null, record.edits ?? null) : null;
+        } finally {
+            db.close();
+        }
+    }
+
+    /**
+     * Brings a manifest of any older version up to PROJECT_VERSION.
+     */
+    public migrate(manifest: ProjectManifest): ProjectManifest {
+        if (!Number.isInteger(manifest.version) || manifest.version < 1) {
+            throw new Error(`Unknown project version ${manifest.version}`);
+        }
+        if (manifest.version > PROJECT_VERSION) {
+            throw new Error(`Project was saved by a newer version (v${manifest.version}); please update`);
+        }
+
+        let current = manifest;
+        while (current.version < PROJECT_VERSION) {
+            current = { ...MIGRATIONS[current.version - 1](current), version: current.version + 1 };
+        }
+        return current;
+    }
+
+    private manifest(state: ProjectState): ProjectManifest {
+        return {
+            format: FORMAT,
+            version: PROJECT_VERSION,
+            savedAt: new Date().toISOString(),
+            imageSettings: { ...state.imageSettings },
+            modelSettings: { ...state.modelSettings },
+            gcodeSettings: { ...state.gcodeSettings },
+            image: state.image
+                ? { fileName: state.imageName.replace(/[\\/]/g, '_') || 'source', type: state.image.type }
+                : null,
+            depth: state.depthImage
+                ? { fileName: state.depthName.replace(/[\\/]/g, '_') || 'depth', type: state.depthImage.type }
+                : null,
+            edits: state.edits ? { width: state.edits.width, height: state.edits.height } : null,
+            calibrationCurve: state.calibrationCurve,
+        };
+    }
+
+    private restore(saved: ProjectManifest, image: Blob | null, depthImage: Blob | null, edits: HeightmapEdits | null): ProjectState {
+        const manifest = this.migrate(saved);
+        return {
+            imageSettings: { ...defaultImageSettings, ...manifest.imageSettings },
+            modelSettings: { ...defaultModelSettings, ...manifest.modelSettings },
+            gcodeSettings: { ...defaultGCodeSettings, ...manifest.gcodeSettings },
+            image,
+            imageName: manifest.image?.fileName ?? '',
+            depthImage,
+            depthName: manifest.depth?.fileName ?? '',
+            calibrationCurve: manifest.calibrationCurve ?? null,
+            edits,
+        };
+    }
+
+    private openDb(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const open = indexedDB.open(DB_NAME, 1);
+            open.onupgradeneeded = () => open.result.createObjectStore(DB_STORE);
+            open.onsuccess = () => resolve(open.result);
+            open.onerror = () => reject(open.error);
+        });
+    }
+
+    private request<T>(req: IDBRequest<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    }
+}
+
+export const projectManager = new ProjectManager();
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { subjectSegmenter } from './segmentation';
+import { lithophanePipeline } from './lithophanePipeline';
+import type { RgbaImage } from './imageProcessor';
+import { defaultImageSettings, defaultModelSettings } from '../store/defaults';
+import type { BackgroundSettings } from '../types';
+
+const SIZE = 60;
+const BOX: BackgroundSettings['subject'] = [0.2, 0.1, 0.8, 1];
+
+// Head (skin disc) and shoulders (dark block) on a noisy blue-green backdrop
+const isSubject = (x: number, y: number) =>
+    Math.hypot(x - 30, y - 22) < 10 || (y >= 36 && x >= 16 && x < 44);
+
+const portrait = (): RgbaImage => {
+    const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+    let seed = 7;
+    const noise = () => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed % 21) - 10;
+    };
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const colour = Math.hypot(x - 30, y - 22) < 10 ? [224, 172, 140]
+                : isSubject(x, y) ? [60, 40, 50]
+                    : [70 + x + noise(), 140 + noise(), 190 - y + noise()];
+            data.set([...colour, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return { width: SIZE, height: SIZE, data };
+};
+
+const background = (change: Partial<BackgroundSettings> = {}): BackgroundSettings =>
+    ({ ...defaultImageSettings.background, subject: BOX, feather: 0, ...change });
+
+describe('SubjectSegmenter.segment', () => {
+    it('separates the subject from the background inside the box', () => {
+        const labels = subjectSegmenter.segment(portrait(), BOX, false);
+
+        let subjectHits = 0, subjectPixels = 0, backgroundMisses = 0;
+        for (let y = 0; y < SIZE; y++) {
+            for (let x = 0; x < SIZE; x++) {
+                const label = labels[y * SIZE + x];
+                if (x < 12 || x >= 48 || y < 6) expect(label).toBe(0); // Outside the box
+                if (isSubject(x, y)) {
+                    subjectPixels++;
+                    subjectHits += label;
+                } else {
+                    backgroundMisses += label;
+                }
+            }
+        }
+        expect(subjectHits / subjectPixels).toBeGreaterThan(0.97);
+        expect(backgroundMisses).toBeLessThan(SIZE * SIZE * 0.02);
+    });
+
+    it('returns all background for an empty box', () => {
+        expect(subjectSegmenter.segment(portrait(), [0.5, 0.5, 0.5, 0.9], true).every(v => v === 0)).toBe(true);
+    });
+});
+
+describe('SubjectSegmenter.applyBackground', () => {
+    const heights = () => Float32Array.from([0.2, 0.8, 0.6, 0.4]);
+    const mask = Float32Array.from([1, 0, 0.5, 0]);
+
+    it('flattens, fades or keeps the background and leaves the subject', () => {
+        const flat = heights();
+        subjectSegmenter.applyBackground(flat, mask, 2, 2, background({ mode: 'flatten', level: 10 }));
+        expect(Array.from(flat).map(v => +v.toFixed(3))).toEqual([0.2, 0.1, 0.35, 0.1]);
+
+        const faded = heights();
+        subjectSegmenter.applyBackground(faded, mask, 2, 2, background({ mode: 'fade', level: 0, amount: 50 }));
+        expect(Array.from(faded).map(v => +v.toFixed(3))).toEqual([0.2, 0.4, 0.45, 0.2]);
+
+        const kept = heights();
+        subjectSegmenter.applyBackground(kept, mask, 2, 2, background({ mode: 'keep' }));
+        expect(kept).toEqual(heights());
+    });
+
+    it('blurs only the background', () => {
+        const width = 20;
+        const stripes = Float32Array.from({ length: width * width }, (_, i) => (i % 2 ? 1 : 0));
+        const leftHalf = Float32Array.from({ length: width * width }, (_, i) => (i % width < 10 ? 1 : 0));
+        subjectSegmenter.applyBackground(stripes, leftHalf, width, width, background({ mode: 'blur', blurRadius: 3 }));
+
+        expect([stripes[100], stripes[101]]).toEqual([0, 1]);
+        expect(Math.abs(stripes[115] - 0.5)).toBeLessThan(0.1);
+    });
+});
+
+describe('background treatment in the pipeline', () => {
+    it('flattens the relief around the subject', () => {
+        const imageSettings = { ...defaultImageSettings, background: background({ mode: 'flatten', level: 0, feather: 1 }) };
+        const modelSettings = { ...defaultModelSettings, resolution: 120 };
+        const { heightmap, width } = lithophanePipeline.process(portrait(), imageSettings, modelSettings);
+        const { heightmap: untouched } = lithophanePipeline.process(portrait(), defaultImageSettings, modelSettings);
+
+        expect(width).toBe(SIZE);
+        expect(heightmap[5 * SIZE + 5]).toBeCloseTo(0); // Backdrop corner
+        expect(heightmap[22 * SIZE + 30]).toBeCloseTo(untouched[22 * SIZE + 30]); // Middle of the face
+    });
+});
@@ -0,0 +1,354 @@
+import type { BackgroundSettings } from '../types';
+import type { RgbaImage } from './imageProcessor';
+import { imageProcessor } from './imageProcessor';
+import { imageFilters } from './imageFilters';
+
+// Long side of the copy the graph cut runs on; the mask is scaled up after
+const WORK_SIZE = 160;
+// Colour histograms have BINS^3 cells
+const BINS = 10;
+const ITERATIONS = 5;
+// Weight of the smoothness term against the colour terms
+const SMOOTHNESS = 50;
+// Skin tones inside the box cost this much less as subject with the face hint on
+const SKIN_BONUS = Math.log(4);
+// Capacity that never ends up in the cut
+const HARD = 1e9;
+const EPSILON = 1e-9;
+
+/**
+ * Directed graph with capacities for Dinic's max flow. After `maxFlow` the
+ * minimum cut separates the nodes still reachable from the source.
+ */
+class FlowGraph {
+    private head: Int32Array;
+    private next: Int32Array;
+    private to: Int32Array;
+    private cap: Float64Array;
+    private edges = 0;
+    private level: Int32Array;
+    private current: Int32Array;
+    private queue: Int32Array;
+    private path: Int32Array;
+
+    constructor(nodes: number, maxEdges: number) {
+        this.head = new Int32Array(nodes).fill(-1);
+        this.next = new Int32Array(maxEdges * 2);
+        this.to = new Int32Array(maxEdges * 2);
+        this.cap = new Float64Array(maxEdges * 2);
+        this.level = new Int32Array(nodes);
+        this.current = new Int32Array(nodes);
+        this.queue = new Int32Array(nodes);
+        this.path = new Int32Array(nodes);
+    }
+
+    /**
+     * Edge u -> v and its partner v -> u; edge e's partner is e ^ 1.
+     */
+    public addEdge(u: number, v: number, forward: number, backward: number) {
+        this.link(u, v, forward);
+        this.link(v, u, backward);
+    }
+
+    public maxFlow(source: number, sink: number): number {
+        let flow = 0;
+        while (this.buildLevels(source, sink)) {
+            this.current.set(this.head);
+            flow += this.blockingFlow(source, sink);
+        }
+        return flow;
+    }
+
+    /**
+     * 1 for the nodes reachable from the source through unsaturated edges.
+     */
+    public sourceSide(source: number): Uint8Array {
+        const reached = new Uint8Array(this.head.length);
+        reached[source] = 1;
+        this.queue[0] = source;
+        for (let read = 0, write = 1; read < write; read++) {
+            const u = this.queue[read];
+            for (let e = this.head[u]; e !== -1; e = this.next[e]) {
+                const v = this.to[e];
+                if (this.cap[e] > EPSILON && !reached[v]) {
+                    reached[v] = 1;
+                    this.queue[write++] = v;
+                }
+            }
+        }
+        return reached;
+    }
+
+    private link(u: number, v: number, capacity: number) {
+        const e = this.edges++;
+        this.to[e] = v;
+        this.cap[e] = capacity;
+        this.next[e] = this.head[u];
+        this.head[u] = e;
+    }
+
+    /**
+     * Breadth-first distances from the source; false once the sink is cut off.
+     */
+    private buildLevels(source: number, sink: number): boolean {
+        this.level.fill(-1);
+        this.level[source] = 0;
+        this.queue[0] = source;
+        for (let read = 0, write = 1; read < write; read++) {
+            const u = this.queue[read];
+            for (let e = this.head[u]; e !== -1; e = this.next[e]) {
+                const v = this.to[e];
+                if (this.cap[e] > EPSILON && this.level[v] < 0) {
+                    this.level[v] = this.level[u] + 1;
+                    this.queue[write++] = v;
+                }
+            }
+        }
+        return this.level[sink] >= 0;
+    }
+
+    /**
+     * Pushes flow along shortest paths until none is left. Depth-first
+     * without recursion: the path is kept as a stack of edges.
+     */
+    private blockingFlow(source: number, sink: number): number {
+        const { path, cap, to, next, level, current } = this;
+        let total = 0;
+        let depth = 0;
+        let u = source;
+
+        for (;;) {
+            if (u === sink) {
+                let bottleneck = Infinity;
+                for (let k = 0; k < depth; k++) bottleneck = Math.min(bottleneck, cap[path[k]]);
+
+                let saturated = -1;
+                for (let k = 0; k < depth; k++) {
+                    const e = path[k];
+                    cap[e] -= bottleneck;
+                    cap[e ^ 1] += bottleneck;
+                    if (saturated < 0 && cap[e] <= EPSILON) saturated = k;
+                }
+                total += bottleneck;
+
+                // Carry on from the tail of the first edge that filled up
+                depth = saturated;
+                u = depth === 0 ? source : to[path[depth - 1]];
+                continue;
+            }
+
+            let e = current[u];
+            while (e !== -1 && (cap[e] <= EPSILON || level[to[e]] !== level[u] + 1)) e = next[e];
+            current[u] = e;
+
+            if (e !== -1) {
+                path[depth++] = e;
+                u = to[e];
+            } else {
+                if (u === source) return total;
+                level[u] = -1; // Dead end for the rest of this phase
+                depth--;
+                u = depth === 0 ? source : to[path[depth - 1]];
+            }
+        }
+    }
+}
+
+/**
+ * Finds the subject of a photo inside a box, GrabCut style: colour models
+ * of subject and background are estimated, a minimum graph cut separates
+ * them along colour edges, and the two steps repeat. Everything outside the
+ * box is background. Plain CPU work on typed arrays, so it runs offline in
+ * the browser, the pipeline worker and Node.
+ */
+export class SubjectSegmenter {
+
+    /**
+     * Subject coverage (0-1) for every pixel of `image`, with edges softened
+     * by `settings.feather` px.
+     */
+    public mask(image: RgbaImage, settings: BackgroundSettings): Float32Array {
+        const small = imageProcessor.resizePixels(image, WORK_SIZE);
+        const labels = this.segment(small, settings.subject, settings.faceHint);
+
+        const mask = this.upscale(labels, small.width, small.height, image.width, image.height);
+        imageFilters.blurValues(mask, image.width, image.height, settings.feather);
+        return mask;
+    }
+
+    /**
+     * Fades, blurs or flattens the heightmap (in place) where the mask is
+     * background; the subject keeps its heights.
+     */
+    public applyBackground(heightmap: Float32Array, mask: Float32Array, width: number, height: number, settings: BackgroundSettings) {
+        const { mode, amount, level, blurRadius } = settings;
+        if (mode === 'keep') return;
+
+        const target = level / 100;
+        let blurred: Float32Array | null = null;
+        if (mode === 'blur') {
+            blurred = heightmap.slice();
+            imageFilters.blurValues(blurred, width, height, blurRadius);
+        }
+
+        for (let i = 0; i < heightmap.length; i++) {
+            const h = heightmap[i];
+            const background = blurred ? blurred[i]
+                : mode === 'flatten' ? target
+                    : h + (target - h) * (amount / 100);
+            heightmap[i] = background + (h - background) * mask[i];
+        }
+    }
+
+    /**
+     * Subject (1) or background (0) for every pixel. `box` is left, top,
+     * right, bottom as 0-1 of the image.
+     */
+    public segment(image: RgbaImage, box: [number, number, number, number], faceHint: boolean): Uint8Array {
+        const { width, height, data } = image;
+        const n = width * height;
+        const left = Math.max(0, Math.floor(box[0] * width)), right = Math.min(width, Math.ceil(box[2] * width));
+        const top = Math.max(0, Math.floor(box[1] * height)), bottom = Math.min(height, Math.ceil(box[3] * height));
+
+        // Start with the whole box as subject
+        const inBox = new Uint8Array(n);
+        for (let y = top; y < bottom; y++) inBox.fill(1, y * width + left, y * width + right);
+        const labels = inBox.slice();
+        if (right <= left || bottom <= top) return labels;
+
+        const cells = new Uint16Array(n);
+        const skin = new Uint8Array(n);
+        for (let i = 0; i < n; i++) {
+            const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+            const bin = (v: number) => Math.min(BINS - 1, Math.floor((v * BINS) / 256));
+            cells[i] = (bin(r) * BINS + bin(g)) * BINS + bin(b);
+            skin[i] = faceHint && this.isSkin(r, g, b) ? 1 : 0;
+        }
+
+        const weights = this.neighbourWeights(data, width, height);
+        for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+            const subjectCost = this.colourCosts(cells, labels, 1);
+            const backgroundCost = this.colourCosts(cells, labels, 0);
+
+            // Nodes: the pixels, then source (subject) and sink (background)
+            const source = n, sink = n + 1;
+            const graph = new FlowGraph(n + 2, n * 3);
+            for (let i = 0; i < n; i++) {
+                if (!inBox[i]) {
+                    graph.addEdge(i, sink, HARD, 0);
+                    continue;
+                }
+                // Cutting source -> i labels i background, cutting i -> sink labels it subject
+                const asSubject = subjectCost[cells[i]] - (skin[i] ? SKIN_BONUS : 0);
+                const asBackground = backgroundCost[cells[i]];
+                if (asBackground > asSubject) graph.addEdge(source, i, asBackground - asSubject, 0);
+                else graph.addEdge(i, sink, asSubject - asBackground, 0);
+            }
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const i = y * width + x;
+                    if (x + 1 < width) graph.addEdge(i, i + 1, weights.right[i], weights.right[i]);
+                    if (y + 1 < height) graph.addEdge(i, i + width, weights.down[i], weights.down[i]);
+                }
+            }
+
+            graph.maxFlow(source, sink);
+            const subject = graph.sourceSide(source);
+            let changed = 0;
+            for (let i = 0; i < n; i++) {
+                if (labels[i] !== subject[i]) changed++;
+                labels[i] = subject[i];
+            }
+            if (changed === 0) break;
+        }
+        return labels;
+    }
+
+    /**
+     * -log probability of each colour cell among the pixels with `label`.
+     */
+    private colourCosts(cells: Uint16Array, labels: Uint8Array, label: number): Float64Array {
+        const counts = new Float64Array(BINS * BINS * BINS);
+        let total = 0;
+        for (let i = 0; i < cells.length; i++) {
+            if (labels[i] !== label) continue;
+            counts[cells[i]]++;
+            total++;
+        }
+        // Add-one smoothing: unseen colours are unlikely, not impossible
+        return counts.map(count => -Math.log((count + 1) / (total + counts.length)));
+    }
+
+    /**
+     * Cost of cutting between each pixel and its right and lower neighbour:
+     * high across similar colours, low across colour edges.
+     */
+    private neighbourWeights(data: Uint8ClampedArray, width: number, height: number) {
+        const n = width * height;
+        const right = new Float32Array(n);
+        const down = new Float32Array(n);
+        const distance = (i: number, j: number) => {
+            const dr = data[i * 4] - data[j * 4], dg = data[i * 4 + 1] - data[j * 4 + 1], db = data[i * 4 + 2] - data[j * 4 + 2];
+            return dr * dr + dg * dg + db * db;
+        };
+
+        let sum = 0, pairs = 0;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                if (x + 1 < width) {
+                    right[i] = distance(i, i + 1);
+                    sum += right[i];
+                    pairs++;
+                }
+                if (y + 1 < height) {
+                    down[i] = distance(i, i + width);
+                    sum += down[i];
+                    pairs++;
+                }
+            }
+        }
+
+        // Scaled to the image's own contrast, as in GrabCut
+        const beta = sum > 0 ? pairs / (2 * sum) : 0;
+        for (let i = 0; i < n; i++) {
+            right[i] = SMOOTHNESS * Math.exp(-beta * right[i]);
+            down[i] = SMOOTHNESS * Math.exp(-beta * down[i]);
+        }
+        return { right, down };
+    }
+
+    /**
+     * Skin tone test in YCbCr, which holds across most skin colours and lighting.
+     */
+    private isSkin(r: number, g: number, b: number): boolean {
+        const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+        const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+        return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+    }
+
+    /**
+     * Labels scaled up bilinearly to a 0-1 mask.
+     */
+    private upscale(labels: Uint8Array, sw: number, sh: number, width: number, height: number): Float32Array {
+        const mask = new Float32Array(width * height);
+        const source = (position: number, size: number, sourceSize: number) => {
+            const s = Math.min(sourceSize - 1, Math.max(0, ((position + 0.5) * sourceSize) / size - 0.5));
+            const s0 = Math.floor(s);
+            return [s0, Math.min(sourceSize - 1, s0 + 1), s - s0];
+        };
+
+        for (let y = 0; y < height; y++) {
+            const [y0, y1, fy] = source(y, height, sh);
+            for (let x = 0; x < width; x++) {
+                const [x0, x1, fx] = source(x, width, sw);
+                const top = labels[y0 * sw + x0] * (1 - fx) + labels[y0 * sw + x1] * fx;
+                const bottom = labels[y1 * sw + x0] * (1 - fx) + labels[y1 * sw + x1] * fx;
+                mask[y * width + x] = top * (1 - fy) + bottom * fy;
+            }
+        }
+        return mask;
+    }
+}
+
+export const subjectSegmenter = new SubjectSegmenter();
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { toolCompensator } from './toolCompensation';
+import { defaultModelSettings, defaultGCodeSettings } from '../store/defaults';
+
+describe('ToolCompensator.buildSurfaceGrid', () => {
+    it('covers the far Y edge of a part that is not square', () => {
+        // Top image row (the far Y edge) at full height, the rest flat
+        const heightmap = Float32Array.from({ length: 10 * 4 }, (_, i) => (i < 10 ? 1 : 0));
+        const model = { ...defaultModelSettings, width: 100, height: 37, depth: 3, baseHeight: 1, frameWidth: 0, smoothing: false };
+        const grid = toolCompensator.buildSurfaceGrid(heightmap, 10, 4, model, { ...defaultGCodeSettings, oversize: 0 });
+
+        expect(grid.originX + (grid.cols - 1) * grid.cellSize).toBeCloseTo(100);
+        expect(grid.originY + (grid.rows - 1) * grid.cellSize).toBeGreaterThanOrEqual(37);
+        expect(grid.data[(grid.rows - 1) * grid.cols + 5]).toBeCloseTo(4);
+    });
+});
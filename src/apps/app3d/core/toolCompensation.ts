@@ -0,0 +1,221 @@
+import type { ModelSettings, GCodeSettings } from '../types';
+import { geometryGenerator } from './geometryGenerator';
+
+/**
+ * Height field sampled on a regular millimetre grid in machine XY.
+ * Values are model Z heights in mm (0 = bottom of the part).
+ */
+export interface SurfaceGrid {
+    data: Float32Array;
+    cols: number;
+    rows: number;
+    cellSize: number; // mm between samples
+    originX: number; // mm, X of column 0
+    originY: number; // mm, Y of row 0
+}
+
+/**
+ * A point of the tool's cutting surface, relative to the tool tip:
+ * (dx, dy) in grid cells, dz in mm above the tip.
+ */
+interface ToolOffset {
+    dx: number;
+    dy: number;
+    dz: number;
+}
+
+export class ToolCompensator {
+
+    /**
+     * Samples the model surface (image relief + frame) onto a regular grid.
+     * The grid extends `oversize` mm past the part so the tool clears the edges.
+     */
+    public buildSurfaceGrid(
+        heightmap: Float32Array,
+        widthPx: number,
+        heightPx: number,
+        model: ModelSettings,
+        gcode: GCodeSettings
+    ): SurfaceGrid {
+        const { width, height, depth, baseHeight, frameWidth, frameDepth } = model;
+
+        const totalWidth = width + frameWidth * 2;
+        const totalHeight = height + frameWidth * 2;
+
+        // Never finer than the image itself, never coarser than a tenth of the tool.
+        const pixelSize = Math.min(width / widthPx, height / heightPx);
+        const targetCell = Math.max(pixelSize, gcode.toolDiameter / 10);
+
+        const originX = -gcode.oversize;
+        const originY = -gcode.oversize;
+        const spanX = totalWidth + gcode.oversize * 2;
+        const spanY = totalHeight + gcode.oversize * 2;
+        const cols = Math.ceil(spanX / targetCell) + 1;
+        // Square cells that land exactly on the far edge in X; the last row reaches past the far edge in Y
+        const cellSize = spanX / (cols - 1);
+        const rows = Math.ceil(spanY / cellSize - 1e-9) + 1;
+
+        const source = model.smoothing && model.smoothingIterations > 0
+            ? geometryGenerator.smoothHeightmap(heightmap, widthPx, heightPx, model.smoothingIterations)
+            : heightmap;
+
+        const sample = (px: number, py: number) => {
+            const x0 = Math.max(0, Math.min(widthPx - 1, Math.floor(px)));
+            const y0 = Math.max(0, Math.min(heightPx - 1, Math.floor(py)));
+            const x1 = Math.min(widthPx - 1, x0 + 1);
+            const y1 = Math.min(heightPx - 1, y0 + 1);
+            const fx = Math.max(0, Math.min(1, px - x0));
+            const fy = Math.max(0, Math.min(1, py - y0));
+
+            const top = source[y0 * widthPx + x0] * (1 - fx) + source[y0 * widthPx + x1] * fx;
+            const bottom = source[y1 * widthPx + x0] * (1 - fx) + source[y1 * widthPx + x1] * fx;
+            return top * (1 - fy) + bottom * fy;
+        };
+
+        const data = new Float32Array(cols * rows);
+
+        for (let row = 0; row < rows; row++) {
+            // Clamp to the part so the oversize border repeats the edge height
+            const y = Math.max(0, Math.min(totalHeight, originY + row * cellSize));
+
+            for (let col = 0; col < cols; col++) {
+                const x = Math.max(0, Math.min(totalWidth, originX + col * cellSize));
+
+                const imgX = x - frameWidth;
+                const imgY = (totalHeight - y) - frameWidth; // Image row 0 is the top edge
+
+                let z: number;
+                if (frameWidth > 0 && (imgX < 0 || imgX > width || imgY < 0 || imgY > height)) {
+                    z = baseHeight + frameDepth;
+                } else {
+                    const px = (imgX / width) * widthPx - 0.5;
+                    const py = (imgY / height) * heightPx - 0.5;
+                    z = baseHeight + sample(px, py) * depth;
+                }
+
+                data[row * cols + col] = z;
+            }
+        }
+
+        return { data, cols, rows, cellSize, originX, originY };
+    }
+
+    /**
+     * Height of the tool's cutting surface above its tip at a horizontal
+     * distance `d` mm from the axis. Outside the cutting radius returns Infinity.
+     */
+    public profileHeight(d: number, gcode: GCodeSettings): number {
+        const radius = gcode.toolDiameter / 2;
+        if (d > radius) return Infinity;
+
+        switch (gcode.toolType) {
+            case 'ball':
+                return radius - Math.sqrt(radius * radius - d * d);
+            case 'vbit': {
+                const halfAngle = (Math.max(1, Math.min(179, gcode.vBitAngle)) * Math.PI) / 360;
+                return d / Math.tan(halfAngle);
+            }
+            default:
+                return 0;
+        }
+    }
+
+    /**
+     * Lowest Z the tool tip can reach at each grid point without cutting into
+     * the surface anywhere under its footprint (morphological erosion by the tool).
+     */
+    public toolTipSurface(surface: SurfaceGrid, gcode: GCodeSettings): SurfaceGrid {
+        const { cols, rows } = surface;
+        const offsets = this.footprint(surface.cellSize, gcode);
+        const data = new Float32Array(cols * rows);
+
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                let max = -Infinity;
+                for (const { dx, dy, dz } of offsets) {
+                    const c = col + dx;
+                    const r = row + dy;
+                    if (c < 0 || c >= cols || r < 0 || r >= rows) continue;
+                    const z = surface.data[r * cols + c] - dz;
+                    if (z > max) max = z;
+                }
+                data[row * cols + col] = max;
+            }
+        }
+
+        return { ...surface, data };
+    }
+
+    /**
+     * Surface left behind when the tool tip follows `tip` everywhere
+     * (morphological dilation of the tip surface by the tool). Together with
+     * `toolTipSurface` this is the opening of the original surface: features
+     * narrower than the tool are lost, nothing is ever gouged.
+     */
+    public carvedSurface(tip: SurfaceGrid, gcode: GCodeSettings): SurfaceGrid {
+        const { cols, rows } = tip;
+        const offsets = this.footprint(tip.cellSize, gcode);
+        const data = new Float32Array(cols * rows);
+
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                let min = Infinity;
+                for (const { dx, dy, dz } of offsets) {
+                    const c = col - dx;
+                    const r = row - dy;
+                    if (c < 0 || c >= cols || r < 0 || r >= rows) continue;
+                    const z = tip.data[r * cols + c] + dz;
+                    if (z < min) min = z;
+                }
+                data[row * cols + col] = min;
+            }
+        }
+
+        return { ...tip, data };
+    }
+
+    /**
+     * Simulates carving the model with the configured tool and returns the
+     * result as a normalized heightmap covering the whole part (frame included),
+     * ready for `geometryGenerator.generateMesh` with `frameWidth = 0`.
+     * Samples are `cellSize` mm apart.
+     */
+    public asCarvedHeightmap(
+        heightmap: Float32Array,
+        widthPx: number,
+        heightPx: number,
+        model: ModelSettings,
+        gcode: GCodeSettings
+    ): { heightmap: Float32Array; width: number; height: number; cellSize: number } {
+        const surface = this.buildSurfaceGrid(heightmap, widthPx, heightPx, model, { ...gcode, oversize: 0 });
+        const carved = this.carvedSurface(this.toolTipSurface(surface, gcode), gcode);
+
+        // Grid row 0 is the bottom edge (machine Y), heightmap row 0 is the top.
+        const { cols, rows, cellSize } = carved;
+        const result = new Float32Array(cols * rows);
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                const z = carved.data[row * cols + col];
+                result[(rows - 1 - row) * cols + col] = (z - model.baseHeight) / model.depth;
+            }
+        }
+
+        return { heightmap: result, width: cols, height: rows, cellSize };
+    }
+
+    private footprint(cellSize: number, gcode: GCodeSettings): ToolOffset[] {
+        const reach = Math.ceil(gcode.toolDiameter / 2 / cellSize);
+        const offsets: ToolOffset[] = [];
+
+        for (let dy = -reach; dy <= reach; dy++) {
+            for (let dx = -reach; dx <= reach; dx++) {
+                const dz = this.profileHeight(Math.hypot(dx, dy) * cellSize, gcode);
+                if (Number.isFinite(dz)) offsets.push({ dx, dy, dz });
+            }
+        }
+
+        return offsets;
+    }
+}
+
+export const toolCompensator = new ToolCompensator();
@@ -1,8 +1,14 @@
 import { Viewer3D } from '../components/Viewer3D';
 import { Controls } from '../components/Controls';
+import { HeightmapEditorPanel } from '../components/HeightmapEditorPanel';
+import { ComparePanel } from '../components/ComparePanel';
 import { Box } from 'lucide-react';
+import { useUndoShortcuts } from '../../../shared/history/useHistory';
 
 export const MainLayout = () => {
+    const { history, isEditingHeightmap, isComparing } = useAppStore();
+    useUndoShortcuts(history);
+
     return (
         <div className="app3d-root">
             <div className="flex h-full bg-dark text-white overflow-hidden">
@@ -10,6 +16,9 @@ export const MainLayout = () => {
                 <div className="flex-1 relative">
                     <Viewer3D />
                     <NoImageOverlay />
+                    <ProgressOverlay />
+                    {isEditingHeightmap && <HeightmapEditorPanel />}
+                    {isComparing && <ComparePanel />}
                 </div>
 
                 {/* Sidebar Controls — scrollable */}
@@ -22,9 +31,9 @@ export const MainLayout = () => {
 import { useAppStore } from '../store/AppContext';
 
 const NoImageOverlay = () => {
-    const { originalImage } = useAppStore();
+    const { originalImage, importedMesh } = useAppStore();
 
-    if (originalImage) return null;
+    if (originalImage || importedMesh) return null;
 
     return (
         <div className="absolute top-0 left-0 w-full h-full pointer-events-none flex items-center justify-center z-10">
@@ -35,3 +44,26 @@ const NoImageOverlay = () => {
         </div>
     );
 };
+
+const ProgressOverlay = () => {
+    const { progress } = useAppStore();
+
+    if (!progress) return null;
+
+    return (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 pointer-events-none z-10 w-64">
+            <div className="bg-black/60 backdrop-blur-sm px-4 py-3 rounded-xl border border-gray-700">
+                <div className="flex justify-between text-xs text-gray-300 mb-2">
+                    <span>{progress.stage}…</span>
+                    <span>{Math.round(progress.progress * 100)}%</span>
+                </div>
+                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                        className="h-full bg-primary transition-all duration-300"
+                        style={{ width: `${Math.max(5, progress.progress * 100)}%` }}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
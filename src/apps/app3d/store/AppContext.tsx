@@ -1,109 +1,590 @@
 import type { ReactNode } from 'react';
-import { createContext, useContext, useState } from 'react';
-import type { ImageSettings, ModelSettings, GCodeSettings } from '../types';
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type * as THREE from 'three';
+import type { ImageSettings, ModelSettings, GCodeSettings, CalibrationCurve, SettingsPreset, PresetPart } from '../types';
+import { PipelineChannel, JobCancelledError, geometryFromBuffers, geometryFromSurface, surfaceBuffers } from '../core/pipelineClient';
+import type { PipelineProgress } from '../core/pipelineClient';
+import type { ColorMaps } from '../core/colorLithophane';
+import type { ExportObject } from '../core/exporter';
+import type { AssemblyPart } from '../core/assembly';
+import { meshImporter } from '../core/meshImporter';
+import type { ImportedMesh } from '../core/meshImporter';
+import type { MeshReport, ValidateOptions } from '../core/meshValidator';
+import { calibrationManager } from '../core/calibration';
+import { presetManager, BUILT_IN_PRESETS } from '../core/presets';
+import { heightmapEditor } from '../core/heightmapEditor';
+import { depthMapLoader } from '../core/depthMap';
+import type { DepthMap } from '../core/depthMap';
+import type { HeightmapEdits } from '../core/heightmapEditor';
+import { imageProcessor } from '../core/imageProcessor';
+import { projectManager } from '../core/projectFile';
+import type { ProjectState } from '../core/projectFile';
+import { defaultImageSettings, defaultModelSettings, defaultGCodeSettings } from './defaults';
+import { useHistory } from '../../../shared/history/useHistory';
+import type { HistoryControls } from '../../../shared/history/useHistory';
 
 interface AppState {
     originalImage: HTMLImageElement | null;
     processedImage: string | null; // URL
     imageDimensions: { width: number; height: number };
-    heightmap: Float32Array | null;
+    heightmap: Float32Array | null; // Processed image with the hand edits applied
+    baseHeightmap: Float32Array | null; // As processed, before hand edits
+    heightmapEdits: HeightmapEdits | null;
+    depthMap: DepthMap | null; // When set, heights come from it; the photo is only shown
+    depthMapName: string | null;
+    isEditingHeightmap: boolean;
+    isComparing: boolean; // Before/after panel open
+    geometry: THREE.BufferGeometry | null; // Built in the worker from heightmap + modelSettings
+    carvedGeometry: THREE.BufferGeometry | null; // Simulated CNC result, only while showCarvedPreview
+    colorBodies: ExportObject[] | null; // One body per filament in colour mode; geometry is the white one
+    assemblyParts: AssemblyPart[] | null; // Tiles or lamp box parts; geometry is the first one
+    importedMesh: ImportedMesh | null; // Opened mesh file; while set it is the model (viewer, checks, export)
     imageSettings: ImageSettings;
     modelSettings: ModelSettings;
     gcodeSettings: GCodeSettings;
-    isProcessing: boolean;
+    isProcessing: boolean; // Manual busy flag or any pipeline job running
+    progress: PipelineProgress | null; // Of the running pipeline job
+    calibrationCurves: CalibrationCurve[]; // Saved in this browser, shared by all projects
+    history: HistoryControls; // Undo/redo over image, model and G-code settings
+    presets: SettingsPreset[]; // Built-in first, then the ones saved in this browser
 
     // Actions
+    loadImageFile: (file: File) => Promise<void>; // Also keeps the file for project saves
+    loadDepthFile: (file: File) => Promise<void>;
+    clearDepthMap: () => void;
+    importMeshFile: (file: File) => Promise<void>;
+    scaleImportedMesh: (width: number) => void; // Uniformly, to this many mm along X; throws for a mesh without width
+    clearImportedMesh: () => void;
+    // Validates in the worker; with `repair`, a mesh with issues comes back repaired and checked again
+    checkMesh: (geometry: THREE.BufferGeometry, options: ValidateOptions, repair?: boolean) => Promise<{ report: MeshReport; repaired: THREE.BufferGeometry | null }>;
+    saveProject: () => Promise<Blob>;
+    openProject: (file: Blob) => Promise<void>;
     setOriginalImage: (img: HTMLImageElement) => void;
     setProcessedImage: (url: string) => void;
     setImageDimensions: (dim: { width: number; height: number }) => void;
     setHeightmap: (map: Float32Array) => void;
+    setHeightmapEdits: (edits: HeightmapEdits | null) => void;
+    setIsEditingHeightmap: (editing: boolean) => void;
+    setIsComparing: (comparing: boolean) => void;
     updateImageSettings: (settings: Partial<ImageSettings>) => void;
     updateModelSettings: (settings: Partial<ModelSettings>) => void;
     updateGCodeSettings: (settings: Partial<GCodeSettings>) => void;
     setIsProcessing: (loading: boolean) => void;
+    saveCalibrationCurve: (curve: CalibrationCurve) => void;
+    deleteCalibrationCurve: (id: string) => void;
+    savePreset: (name: string, description: string) => SettingsPreset; // Captures the current settings
+    deletePreset: (id: string) => void;
+    importPresets: (presets: SettingsPreset[]) => void;
+    applyPreset: (preset: SettingsPreset, parts: PresetPart[]) => void;
 }
 
-const defaultImageSettings: ImageSettings = {
-    invert: false,
-    sharpen: 0,
-    blur: 0,
-    contrast: 0,
-    brightness: 0,
-    gamma: 1.0,
-    noiseReduction: 0,
-    grayscale: true,
-};
-
-const defaultModelSettings: ModelSettings = {
-    width: 100,
-    height: 100, // will be adjusted by aspect ratio
-    depth: 5,
-    segmentation: 150, // Res of the grid
-    baseHeight: 2,
-    smoothing: false,
-    smoothingIterations: 2,
-    frameWidth: 0,
-    frameDepth: 5,
-    curveAngle: 0,
-    showWireframe: false,
-    materialColor: '#e2e8f0',
-    resolution: 1024, // Default Medium
-};
+type JobName = 'image' | 'mesh' | 'carve' | 'check';
 
-const defaultGCodeSettings: GCodeSettings = {
-    toolDiameter: 3.175, // 1/8 inch
-    feedRate: 1000,
-    plungeRate: 300,
-    safeHeight: 5,
-    spindleSpeed: 12000,
-    stepOver: 0.5, // 50%
-    oversize: 0,
-    passDepth: 0, // 0 = single pass (full depth)
+/**
+ * Key of the model settings that change the mesh; view options are left out
+ * so toggling them doesn't rebuild the geometry.
+ */
+const meshKey = (settings: ModelSettings) => {
+    const {
+        showWireframe: _w, showCarvedPreview: _c, showBacklit: _b, attenuation: _a, materialColor: _m, resolution: _r,
+        calibrationId: _k, // Applied to the heightmap, not the mesh
+        filamentDensity: _d, filamentDiameter: _f, layerHeight: _l, printSpeed: _s, // Estimates only
+        ...meshSettings
+    } = settings;
+    return JSON.stringify(meshSettings);
 };
 
 const AppContext = createContext<AppState | undefined>(undefined);
 
 export const AppProvider = ({ children }: { children: ReactNode }) => {
     const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
+    const [imageSource, setImageSource] = useState<{ blob: Blob; name: string } | null>(null);
+    const [depthSource, setDepthSource] = useState<{ blob: Blob; name: string } | null>(null);
+    const [depthMap, setDepthMap] = useState<DepthMap | null>(null);
     const [processedImage, setProcessedImage] = useState<string | null>(null);
     const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
-    const [heightmap, setHeightmap] = useState<Float32Array | null>(null);
-    const [isProcessing, setIsProcessing] = useState(false);
+    const [baseHeightmap, setHeightmap] = useState<Float32Array | null>(null);
+    const [heightmapEdits, setHeightmapEdits] = useState<HeightmapEdits | null>(null);
+    const [isEditingHeightmap, setIsEditingHeightmap] = useState(false);
+    const [isComparing, setIsComparing] = useState(false);
+    const [colorMaps, setColorMaps] = useState<ColorMaps | null>(null);
+    const [isBusy, setIsProcessing] = useState(false);
+    const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+    const [carvedGeometry, setCarvedGeometry] = useState<THREE.BufferGeometry | null>(null);
+    const [colorBodies, setColorBodies] = useState<ExportObject[] | null>(null);
+    const [assemblyParts, setAssemblyParts] = useState<AssemblyPart[] | null>(null);
+    const [importedMesh, setImportedMesh] = useState<ImportedMesh | null>(null);
+    const [jobs, setJobs] = useState<Partial<Record<JobName, PipelineProgress>>>({});
+
+    const settingsHistory = useHistory({
+        imageSettings: defaultImageSettings,
+        modelSettings: defaultModelSettings,
+        gcodeSettings: defaultGCodeSettings,
+    });
+    const { imageSettings, modelSettings, gcodeSettings } = settingsHistory.state;
+    const setSettings = settingsHistory.setState;
+    const [calibrationCurves, setCalibrationCurves] = useState<CalibrationCurve[]>(() => calibrationManager.loadCurves());
+    const [userPresets, setUserPresets] = useState<SettingsPreset[]>(() => presetManager.loadPresets());
+
+    // One worker per job kind so a slider move only cancels jobs of its own kind
+    const [channels] = useState(() => ({
+        image: new PipelineChannel(),
+        mesh: new PipelineChannel(),
+        carve: new PipelineChannel(),
+        check: new PipelineChannel(),
+    }));
+    const imageRequest = useRef(0);
+    const [autosaveReady, setAutosaveReady] = useState(false);
+
+    useEffect(() => () => {
+        channels.image.dispose();
+        channels.mesh.dispose();
+        channels.carve.dispose();
+        channels.check.dispose();
+    }, [channels]);
+
+    const startJob = (name: JobName) => {
+        setJobs(prev => ({ ...prev, [name]: { stage: 'Starting', progress: 0 } }));
+        return (progress: PipelineProgress) => setJobs(prev => ({ ...prev, [name]: progress }));
+    };
+
+    const endJob = (name: JobName) => (err?: unknown) => {
+        // A cancelled job has already been replaced by a newer one of the same kind
+        if (err instanceof JobCancelledError) return;
+        if (err) console.error(`Pipeline ${name} job failed`, err);
+        setJobs(prev => {
+            const next = { ...prev };
+            delete next[name];
+            return next;
+        });
+    };
+
+    // Calibration maps luminance onto the model's thickness range
+    const curve = calibrationCurves.find(c => c.id === modelSettings.calibrationId) ?? null;
+    const calibration = curve && {
+        curve,
+        minThickness: modelSettings.baseHeight,
+        maxThickness: modelSettings.baseHeight + modelSettings.depth,
+    };
+    const calibrationKey = JSON.stringify(calibration);
+
+    // Image -> processed preview + heightmap
+    useEffect(() => {
+        if (!originalImage) return;
+
+        const timeout = setTimeout(async () => {
+            const request = ++imageRequest.current;
+            const onProgress = startJob('image');
+            const done = endJob('image');
+
+            try {
+                const bitmap = await createImageBitmap(originalImage);
+                if (request !== imageRequest.current) {
+                    bitmap.close();
+                    return;
+                }
+
+                const depth = depthMap && { ...depthMap, data: depthMap.data.slice() };
+                const result = await channels.image.run({
+                    type: 'process',
+                    image: bitmap,
+                    imageSettings,
+                    resolution: modelSettings.resolution,
+                    separateColors: modelSettings.colorMode === 'cmyw',
+                    calibration,
+                    depth,
+                }, depth ? [bitmap, depth.data.buffer] : [bitmap], onProgress);
+                if (result.type !== 'processed') return;
+
+                setProcessedImage(prev => {
+                    if (prev?.startsWith('blob:')) URL.revokeObjectURL(prev);
+                    return URL.createObjectURL(result.preview);
+                });
+                setImageDimensions({ width: result.width, height: result.height });
+                setHeightmap(result.heightmap);
+                // Edits follow the image to a new resolution
+                setHeightmapEdits(prev => prev && (prev.width !== result.width || prev.height !== result.height)
+                    ? heightmapEditor.resample(prev, result.width, result.height)
+                    : prev);
+                setColorMaps(result.colorMaps ?? null);
+                done();
+            } catch (err) {
+                done(err);
+            }
+        }, 300); // 300ms debounce
 
-    const [imageSettings, setImageSettings] = useState<ImageSettings>(defaultImageSettings);
-    const [modelSettings, setModelSettings] = useState<ModelSettings>(defaultModelSettings);
-    const [gcodeSettings, setGCodeSettings] = useState<GCodeSettings>(defaultGCodeSettings);
+        return () => clearTimeout(timeout);
+    }, [originalImage, depthMap, imageSettings, modelSettings.resolution, modelSettings.colorMode, calibrationKey]);
+
+    const heightmap = useMemo(() => {
+        if (!baseHeightmap || !heightmapEdits || heightmapEdits.delta.length !== baseHeightmap.length) return baseHeightmap;
+        return heightmapEditor.compose(baseHeightmap, heightmapEdits);
+    }, [baseHeightmap, heightmapEdits]);
+
+    // Heightmap -> mesh (and the as-carved preview when enabled)
+    const modelKey = meshKey(modelSettings);
+
+    useEffect(() => {
+        if (!heightmap || imageDimensions.width === 0) return;
+
+        const timeout = setTimeout(() => {
+            const onProgress = startJob('mesh');
+            const done = endJob('mesh');
+            const copy = heightmap.slice(); // Keep ours, transfer the copy
+            const inks = modelSettings.colorMode === 'cmyw' && colorMaps
+                ? { cyan: colorMaps.cyan.slice(), magenta: colorMaps.magenta.slice(), yellow: colorMaps.yellow.slice() }
+                : undefined;
+
+            channels.mesh.run({
+                type: 'mesh',
+                heightmap: copy,
+                width: imageDimensions.width,
+                height: imageDimensions.height,
+                modelSettings,
+                colorMaps: inks,
+            }, inks
+                ? [copy.buffer, inks.cyan.buffer, inks.magenta.buffer, inks.yellow.buffer]
+                : [copy.buffer], onProgress).then(result => {
+                const dropParts = (prev: ExportObject[] | null) => {
+                    prev?.forEach(part => part.geometry.dispose());
+                    return null;
+                };
+
+                if (result.type === 'mesh') {
+                    setColorBodies(prev => dropParts(prev));
+                    setAssemblyParts(prev => dropParts(prev));
+                    setGeometry(prev => {
+                        prev?.dispose();
+                        return geometryFromBuffers(result);
+                    });
+                } else if (result.type === 'parts') {
+                    const parts = result.parts.map(({ name, color, placement, ...buffers }) => ({
+                        name,
+                        color,
+                        placement,
+                        geometry: geometryFromBuffers(buffers),
+                    }));
+                    setColorBodies(prev => dropParts(prev));
+                    setAssemblyParts(prev => {
+                        dropParts(prev);
+                        return parts;
+                    });
+                    // The first part stands in for the model (stats, G-code, validation)
+                    setGeometry(prev => {
+                        prev?.dispose();
+                        return parts[0]?.geometry ?? null;
+                    });
+                } else if (result.type === 'bodies') {
+                    const bodies = result.bodies.map(({ name, color, ...buffers }) => ({
+                        name,
+                        color,
+                        geometry: geometryFromBuffers(buffers),
+                    }));
+                    setAssemblyParts(prev => dropParts(prev));
+                    setColorBodies(prev => {
+                        dropParts(prev);
+                        return bodies;
+                    });
+                    // The white relief stands in for the model (stats, G-code, validation)
+                    setGeometry(prev => {
+                        prev?.dispose();
+                        return bodies[bodies.length - 1].geometry;
+                    });
+                }
+                done();
+            }, done);
+        }, 100);
+
+        return () => clearTimeout(timeout);
+    }, [heightmap, colorMaps, imageDimensions, modelKey]);
+
+    // Of the G-code settings only the tool shapes the carved surface
+    useEffect(() => {
+        if (!heightmap || imageDimensions.width === 0 || !modelSettings.showCarvedPreview) {
+            channels.carve.cancel();
+            endJob('carve')();
+            setCarvedGeometry(prev => {
+                prev?.dispose();
+                return null;
+            });
+            return;
+        }
+
+        const timeout = setTimeout(() => {
+            const onProgress = startJob('carve');
+            const done = endJob('carve');
+            const copy = heightmap.slice();
+
+            channels.carve.run({
+                type: 'mesh',
+                heightmap: copy,
+                width: imageDimensions.width,
+                height: imageDimensions.height,
+                modelSettings,
+                carveWith: gcodeSettings,
+            }, [copy.buffer], onProgress).then(result => {
+                if (result.type !== 'mesh') return;
+                setCarvedGeometry(prev => {
+                    prev?.dispose();
+                    return geometryFromBuffers(result);
+                });
+                done();
+            }, done);
+        }, 100);
+
+        return () => clearTimeout(timeout);
+    }, [heightmap, imageDimensions, modelKey, gcodeSettings.toolType, gcodeSettings.toolDiameter, gcodeSettings.vBitAngle, modelSettings.showCarvedPreview]);
+
+    const runningJobs = Object.values(jobs);
+    const isProcessing = isBusy || runningJobs.length > 0;
+    const progress = runningJobs[0] ?? null;
 
     const updateImageSettings = (settings: Partial<ImageSettings>) => {
-        setImageSettings(prev => ({ ...prev, ...settings }));
+        setSettings(prev => ({ ...prev, imageSettings: { ...prev.imageSettings, ...settings } }));
     };
 
     const updateModelSettings = (settings: Partial<ModelSettings>) => {
-        setModelSettings(prev => ({ ...prev, ...settings }));
+        setSettings(prev => ({ ...prev, modelSettings: { ...prev.modelSettings, ...settings } }));
     };
 
     const updateGCodeSettings = (settings: Partial<GCodeSettings>) => {
-        setGCodeSettings(prev => ({ ...prev, ...settings }));
+        setSettings(prev => ({ ...prev, gcodeSettings: { ...prev.gcodeSettings, ...settings } }));
+    };
+
+    const saveCalibrationCurve = (curve: CalibrationCurve) => {
+        setCalibrationCurves(calibrationManager.saveCurve(curve));
+    };
+
+    const deleteCalibrationCurve = (id: string) => {
+        setCalibrationCurves(calibrationManager.deleteCurve(id));
+        setSettings(prev => prev.modelSettings.calibrationId === id
+            ? { ...prev, modelSettings: { ...prev.modelSettings, calibrationId: null } }
+            : prev);
+    };
+
+    const savePreset = (name: string, description: string) => {
+        const preset = presetManager.createPreset(name, description, settingsHistory.state);
+        setUserPresets(presetManager.savePreset(preset));
+        return preset;
+    };
+
+    const deletePreset = (id: string) => {
+        setUserPresets(presetManager.deletePreset(id));
+    };
+
+    const importPresets = (presets: SettingsPreset[]) => {
+        let saved = userPresets;
+        for (const preset of presets) saved = presetManager.savePreset(preset);
+        setUserPresets(saved);
+    };
+
+    const applyPreset = (preset: SettingsPreset, parts: PresetPart[]) => {
+        setSettings(prev => presetManager.apply(prev, preset, parts), `Preset: ${preset.name}`);
+    };
+
+    const loadImageFile = async (file: File) => {
+        const img = await imageProcessor.loadImage(file);
+        setOriginalImage(img);
+        setImageSource({ blob: file, name: file.name });
+        setHeightmapEdits(null); // Edits belong to the previous image
+    };
+
+    /**
+     * Uses a depth map for the heights. Without a photo its grayscale
+     * rendering stands in as the image.
+     */
+    const applyDepthFile = async (blob: Blob, name: string, hasPhoto: boolean) => {
+        const depth = await depthMapLoader.decode(blob);
+        if (!hasPhoto) {
+            const canvas = new OffscreenCanvas(depth.width, depth.height);
+            canvas.getContext('2d')!.putImageData(depthMapLoader.toImageData(depth), 0, 0);
+            setOriginalImage(await imageProcessor.loadImage(await canvas.convertToBlob({ type: 'image/png' })));
+        }
+        setDepthMap(depth);
+        setDepthSource({ blob, name });
+        setHeightmapEdits(null);
+    };
+
+    const loadDepthFile = (file: File) => applyDepthFile(file, file.name, imageSource !== null);
+
+    const clearDepthMap = () => {
+        setDepthMap(null);
+        setDepthSource(null);
+        setHeightmapEdits(null);
+        if (!imageSource) {
+            // Only the depth preview was showing
+            setOriginalImage(null);
+            setHeightmap(null);
+            setProcessedImage(prev => {
+                if (prev?.startsWith('blob:')) URL.revokeObjectURL(prev);
+                return null;
+            });
+            setColorBodies(null);
+            setGeometry(prev => {
+                prev?.dispose();
+                return null;
+            });
+        }
+    };
+
+    const importMeshFile = async (file: File) => {
+        const mesh = await meshImporter.load(file, file.name);
+        setImportedMesh(prev => {
+            prev?.geometry.dispose();
+            return mesh;
+        });
+    };
+
+    // Scaled outside the updater: it may throw, and StrictMode runs updaters twice
+    const scaleImportedMesh = (width: number) => {
+        if (!importedMesh) return;
+        const geometry = meshImporter.scaleToWidth(importedMesh.geometry, width);
+        importedMesh.geometry.dispose();
+        setImportedMesh({ ...importedMesh, geometry });
+    };
+
+    const clearImportedMesh = () => {
+        setImportedMesh(prev => {
+            prev?.geometry.dispose();
+            return null;
+        });
+    };
+
+    const checkMesh = async (geometry: THREE.BufferGeometry, options: ValidateOptions, repair = false) => {
+        const onProgress = startJob('check');
+        const done = endJob('check');
+        try {
+            const mesh = surfaceBuffers(geometry);
+            const result = await channels.check.run({
+                type: 'validate',
+                mesh,
+                options,
+                repair,
+            }, mesh.index ? [mesh.positions.buffer, mesh.index.buffer] : [mesh.positions.buffer], onProgress);
+            if (result.type !== 'validated') throw new Error(`Unexpected ${result.type} response to a mesh check`);
+            done();
+            return { report: result.report, repaired: result.repaired && geometryFromSurface(result.repaired) };
+        } catch (err) {
+            done(err);
+            throw err;
+        }
     };
 
+    const projectState = (): ProjectState => ({
+        imageSettings,
+        modelSettings,
+        gcodeSettings,
+        image: imageSource?.blob ?? null,
+        imageName: imageSource?.name ?? '',
+        depthImage: depthSource?.blob ?? null,
+        depthName: depthSource?.name ?? '',
+        calibrationCurve: curve,
+        edits: heightmapEdits,
+    });
+
+    const applyProject = async (project: ProjectState) => {
+        // A curve from another browser is added to ours so it stays selectable
+        if (project.calibrationCurve && !calibrationManager.loadCurves().some(c => c.id === project.calibrationCurve!.id)) {
+            setCalibrationCurves(calibrationManager.saveCurve(project.calibrationCurve));
+        }
+
+        // An opened project starts a fresh history
+        settingsHistory.reset({
+            imageSettings: project.imageSettings,
+            modelSettings: project.modelSettings,
+            gcodeSettings: project.gcodeSettings,
+        });
+
+        if (project.image) {
+            setOriginalImage(await imageProcessor.loadImage(project.image));
+            setImageSource({ blob: project.image, name: project.imageName });
+        }
+        if (project.depthImage) {
+            await applyDepthFile(project.depthImage, project.depthName, project.image !== null);
+        } else {
+            setDepthMap(null);
+            setDepthSource(null);
+        }
+        // Set once the sources are in; the image effect resamples them if the resolution differs
+        setHeightmapEdits(project.edits);
+    };
+
+    const saveProject = () => projectManager.serialize(projectState());
+
+    const openProject = async (file: Blob) => {
+        await applyProject(await projectManager.parse(file));
+    };
+
+    // Resume the last session once, then keep it autosaved
+    useEffect(() => {
+        projectManager.loadAutosave()
+            .then(project => project && applyProject(project))
+            .catch(err => console.error('Could not restore autosave', err))
+            .finally(() => setAutosaveReady(true));
+    }, []);
+
+    useEffect(() => {
+        if (!autosaveReady) return;
+
+        const timeout = setTimeout(() => {
+            projectManager.autosave(projectState()).catch(err => console.error('Autosave failed', err));
+        }, 1000);
+
+        return () => clearTimeout(timeout);
+    }, [autosaveReady, imageSettings, modelSettings, gcodeSettings, imageSource, depthSource, heightmapEdits, calibrationKey]);
+
     return (
         <AppContext.Provider value={{
             originalImage,
             processedImage,
             imageDimensions,
             heightmap,
+            baseHeightmap,
+            heightmapEdits,
+            depthMap,
+            depthMapName: depthSource?.name ?? null,
+            isEditingHeightmap,
+            isComparing,
+            // An imported mesh replaces the generated model until it is closed
+            geometry: importedMesh?.geometry ?? geometry,
+            carvedGeometry: importedMesh ? null : carvedGeometry,
+            colorBodies: importedMesh ? null : colorBodies,
+            assemblyParts: importedMesh ? null : assemblyParts,
+            importedMesh,
             imageSettings,
             modelSettings,
             gcodeSettings,
             isProcessing,
+            progress,
+            calibrationCurves,
+            history: settingsHistory,
+            presets: [...BUILT_IN_PRESETS, ...userPresets],
+            loadImageFile,
+            loadDepthFile,
+            clearDepthMap,
+            importMeshFile,
+            scaleImportedMesh,
+            clearImportedMesh,
+            checkMesh,
+            saveProject,
+            openProject,
             setOriginalImage,
             setProcessedImage,
             setImageDimensions,
             setHeightmap,
+            setHeightmapEdits,
+            setIsEditingHeightmap,
+            setIsComparing,
             updateImageSettings,
             updateModelSettings,
             updateGCodeSettings,
             setIsProcessing,
+            saveCalibrationCurve,
+            deleteCalibrationCurve,
+            savePreset,
+            deletePreset,
+            importPresets,
+            applyPreset,
         }}>
             {children}
         </AppContext.Provider>
@@ -0,0 +1,84 @@
+import type { ImageSettings, ModelSettings, GCodeSettings } from '../types';
+
+export const defaultImageSettings: ImageSettings = {
+    invert: false,
+    grayscale: true,
+    filters: [],
+    background: {
+        mode: 'keep',
+        subject: [0.1, 0.05, 0.9, 1], // Head and shoulders of a portrait
+        faceHint: true,
+        amount: 70,
+        level: 0,
+        blurRadius: 6,
+        feather: 4,
+    },
+};
+
+export const defaultModelSettings: ModelSettings = {
+    width: 100,
+    height: 100, // will be adjusted by aspect ratio
+    depth: 5,
+    segmentation: 150, // Res of the grid
+    maxDeviation: 0.05,
+    baseHeight: 2,
+    calibrationId: null,
+    smoothing: false,
+    smoothingIterations: 2,
+    frameWidth: 0,
+    frameDepth: 5,
+    curveAngle: 0,
+    shape: 'flat',
+    lipWidth: 0,
+    lipHeight: 3,
+    sphereOpening: 30,
+    customOutline: null,
+    colorMode: 'mono',
+    colorLayerThickness: 0.6,
+    text: '',
+    textFont: 'Arial',
+    textSize: 8,
+    textX: 50,
+    textY: 92,
+    textMode: 'raised',
+    textDepth: 1,
+    borderPattern: 'none',
+    borderPatternDepth: 0.8,
+    hangingHoles: 0,
+    holeDiameter: 4,
+    standSlots: false,
+    slotWidth: 3,
+    slotDepth: 4,
+    assembly: 'single',
+    tilesX: 2,
+    tilesY: 2,
+    tileJoint: 'puzzle',
+    lampSides: 4,
+    ledDiameter: 40,
+    showWireframe: false,
+    showCarvedPreview: false,
+    showBacklit: false,
+    attenuation: 1.2, // Typical white PLA
+    materialColor: '#e2e8f0',
+    filamentDensity: 1.24, // PLA
+    filamentDiameter: 1.75,
+    layerHeight: 0.12,
+    printSpeed: 40,
+    resolution: 1024, // Default Medium
+};
+
+export const defaultGCodeSettings: GCodeSettings = {
+    toolType: 'ball',
+    toolDiameter: 3.175, // 1/8 inch
+    vBitAngle: 60,
+    feedRate: 1000,
+    plungeRate: 300,
+    safeHeight: 5,
+    spindleSpeed: 12000,
+    stepOver: 0.5, // 50%
+    finishStepOver: 0.1, // 10%
+    stockToLeave: 0.3,
+    oversize: 0,
+    passDepth: 0, // 0 = single pass (full depth)
+    rapidRate: 3000,
+};
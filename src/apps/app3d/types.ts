@@ -1,12 +1,79 @@
+export type ImageFilterType =
+    | 'brightness'
+    | 'contrast'
+    | 'gamma'
+    | 'levels'
+    | 'curves'
+    | 'clahe'
+    | 'noiseReduction'
+    | 'sharpen'
+    | 'unsharpMask'
+    | 'blur';
+
+/**
+ * One step of the image filter stack. Parameters depend on the type (see
+ * FILTER_DEFINITIONS); missing ones take their defaults.
+ */
+export interface ImageFilter {
+    id: string;
+    type: ImageFilterType;
+    enabled: boolean;
+    params: Record<string, number>;
+}
+
+export type BackgroundMode = 'keep' | 'fade' | 'blur' | 'flatten';
+
+/**
+ * What happens to the relief outside the subject that segmentation finds
+ * inside the subject box.
+ */
+export interface BackgroundSettings {
+    mode: BackgroundMode;
+    subject: [number, number, number, number]; // Box around the subject: left, top, right, bottom as 0-1 of the image
+    faceHint: boolean; // Count skin tones inside the box as subject
+    amount: number; // %, how far 'fade' moves the background towards the level
+    level: number; // %, height the background fades or flattens to (0 = thinnest)
+    blurRadius: number; // Heightmap px, 'blur' only
+    feather: number; // Heightmap px, soft edge of the subject mask
+}
+
 export interface ImageSettings {
-    invert: boolean;
-    sharpen: number; // 0-20?
-    blur: number; // 0 to 20
-    contrast: number; // -100 to 100
-    brightness: number; // -100 to 100
-    gamma: number; // 0.1 to 3.0
-    noiseReduction: number; // 0 to 10
+    invert: boolean; // Applied before the filters: dark = high
     grayscale: boolean;
+    filters: ImageFilter[]; // Applied in order
+    background: BackgroundSettings; // Applied to the heightmap
+}
+
+export type ColorMode = 'mono' | 'cmyw';
+
+export type ReliefMode = 'raised' | 'engraved';
+
+export type BorderPattern = 'none' | 'ridges' | 'beads' | 'zigzag';
+
+export type AssemblyMode = 'single' | 'tiles' | 'lampbox';
+
+export type TileJoint = 'puzzle' | 'pins' | 'none';
+
+export type LithophaneShape = 'flat' | 'cylinder' | 'sphere' | 'heart' | 'circle' | 'custom';
+
+/**
+ * SVG path data plus the view box [minX, minY, width, height] it is drawn in.
+ */
+export interface OutlinePath {
+    path: string;
+    viewBox: [number, number, number, number];
+}
+
+/**
+ * Measured response of one filament: printed brightness (0-1, as read from a
+ * photo of the backlit step wedge) at each step thickness in mm.
+ */
+export interface CalibrationCurve {
+    id: string;
+    name: string;
+    filament: string;
+    thicknesses: number[];
+    brightness: number[];
 }
 
 export interface ModelSettings {
@@ -14,24 +81,83 @@ export interface ModelSettings {
     height: number; // mm
     depth: number; // mm (Z-height)
     segmentation: number; // Detail level (resolution)
+    maxDeviation: number; // mm, adaptive mesh tolerance (0 = full resolution)
     baseHeight: number; // mm (thickness of base)
+    calibrationId: string | null; // Curve driving luminance -> thickness (null = linear)
     smoothing: boolean;
     smoothingIterations: number; // 0 to 10
     frameWidth: number; // mm
     frameDepth: number; // mm
     curveAngle: number; // degrees
+    shape: LithophaneShape;
+    lipWidth: number; // mm, inward bottom lip of a cylinder lamp (0 = none)
+    lipHeight: number; // mm
+    sphereOpening: number; // degrees, hole around the bottom pole of a sphere
+    customOutline: OutlinePath | null; // Uploaded SVG for the 'custom' shape
+    colorMode: ColorMode;
+    colorLayerThickness: number; // mm of each ink layer at full coverage (colour mode only)
+    text: string; // Caption embossed into the surface ('' = none)
+    textFont: string; // CSS font family
+    textSize: number; // mm
+    textX: number; // % of the total width, centre of the text
+    textY: number; // % of the total height from the top, centre of the text
+    textMode: ReliefMode;
+    textDepth: number; // mm raised above or engraved into the surface
+    borderPattern: BorderPattern; // Relief pattern on the frame
+    borderPatternDepth: number; // mm
+    hangingHoles: number; // 0, 1 or 2 holes along the top edge
+    holeDiameter: number; // mm
+    standSlots: boolean; // Two notches in the bottom edge to sit on a stand
+    slotWidth: number; // mm
+    slotDepth: number; // mm
+    assembly: AssemblyMode; // One part, a grid of tiles, or a lamp box of side panels and a base
+    tilesX: number; // Tiles across
+    tilesY: number; // Tiles down
+    tileJoint: TileJoint; // How neighbouring tiles lock together
+    lampSides: number; // Side panels around the lamp box (4-8)
+    ledDiameter: number; // mm, cavity in the lamp base for the light
     showWireframe: boolean;
+    showCarvedPreview: boolean; // Simulated CNC result instead of the ideal model
+    showBacklit: boolean; // Transmitted-light preview instead of front lighting
+    attenuation: number; // 1/mm, filament light attenuation coefficient (Beer–Lambert)
     materialColor: string;
+    filamentDensity: number; // g/cm³, for weight estimates
+    filamentDiameter: number; // mm
+    layerHeight: number; // mm, for print-time estimates
+    printSpeed: number; // mm/s
     resolution: number; // Max width/height px
 }
 
+export type ToolType = 'flat' | 'ball' | 'vbit';
+
 export interface GCodeSettings {
+    toolType: ToolType;
     toolDiameter: number; // mm
+    vBitAngle: number; // degrees (included angle, V-bit only)
     feedRate: number; // mm/min
     plungeRate: number; // mm/min
     safeHeight: number; // mm (retract height)
     spindleSpeed: number; // RPM
-    stepOver: number; // 0-1 (percentage)
+    stepOver: number; // 0-1 (percentage) - roughing
+    finishStepOver: number; // 0-1 (percentage) - finishing
+    stockToLeave: number; // mm left by roughing for the finishing pass
     oversize: number; // mm (extra border)
     passDepth: number; // mm (max depth per pass) - optional advanced
+    rapidRate: number; // mm/min, machine G0 speed (run-time estimates only)
+}
+
+export type PresetPart = 'image' | 'model' | 'gcode';
+
+/**
+ * Named set of lithophane settings. Built-in presets ship with the app, the
+ * others are saved in this browser and can be shared as JSON.
+ */
+export interface SettingsPreset {
+    id: string;
+    name: string;
+    description: string;
+    builtIn: boolean;
+    imageSettings: ImageSettings;
+    modelSettings: ModelSettings;
+    gcodeSettings: GCodeSettings;
 }
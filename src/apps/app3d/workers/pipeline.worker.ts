@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import type { PipelineRequest, PipelineResponse, MeshBuffers, SurfaceBuffers } from '../core/pipelineClient';
+import { imageProcessor } from '../core/imageProcessor';
+import { geometryGenerator } from '../core/geometryGenerator';
+import { toolCompensator } from '../core/toolCompensation';
+import { colorLithophane } from '../core/colorLithophane';
+import { lithophanePipeline } from '../core/lithophanePipeline';
+import { meshValidator } from '../core/meshValidator';
+
+// The app is type-checked against the DOM lib, so describe the worker scope by hand.
+interface WorkerScope {
+    onmessage: ((e: MessageEvent<PipelineRequest>) => void) | null;
+    postMessage(message: PipelineResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const toBuffers = (geometry: THREE.BufferGeometry): MeshBuffers => ({
+    positions: geometry.attributes.position.array as Float32Array,
+    normals: geometry.attributes.normal.array as Float32Array,
+    thickness: geometry.attributes.thickness.array as Float32Array,
+    index: geometry.index!.array as Uint16Array | Uint32Array,
+});
+
+const fromSurface = ({ positions, index }: SurfaceBuffers): THREE.BufferGeometry => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+    return geometry;
+};
+
+const handle = async (request: PipelineRequest) => {
+    const { jobId } = request;
+    const progress = (stage: string, value: number) =>
+        scope.postMessage({ type: 'progress', jobId, stage, progress: value });
+
+    if (request.type === 'process') {
+        // Inks and the subject mask come from the unfiltered colours, the relief from the filtered image
+        const findSubject = request.imageSettings.background.mode !== 'keep';
+        const original = request.separateColors || findSubject
+            ? imageProcessor.resizeImage(request.image, request.resolution)
+            : null;
+        const colorMaps = request.separateColors ? colorLithophane.separate(original!) : undefined;
+        const imageData = imageProcessor.processImage(request.image, request.imageSettings, request.resolution, progress);
+        request.image.close();
+
+        progress('Building heightmap', 0.7);
+        const heightmap = lithophanePipeline.heightmap(imageData, request.imageSettings, {
+            depth: request.depth,
+            calibration: request.calibration,
+            subjectImage: findSubject ? original : null,
+        });
+
+        progress('Encoding preview', 0.85);
+        const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+        canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+        const preview = await canvas.convertToBlob({ type: 'image/png' });
+
+        scope.postMessage({
+            type: 'processed',
+            jobId,
+            heightmap,
+            width: imageData.width,
+            height: imageData.height,
+            preview,
+            colorMaps,
+        }, colorMaps
+            ? [heightmap.buffer, colorMaps.cyan.buffer, colorMaps.magenta.buffer, colorMaps.yellow.buffer]
+            : [heightmap.buffer]);
+        return;
+    }
+
+    if (request.type === 'validate') {
+        progress('Checking mesh', 0.1);
+        const geometry = fromSurface(request.mesh);
+        const report = meshValidator.validate(geometry, request.options);
+        if (!request.repair || !meshValidator.hasIssues(report)) {
+            scope.postMessage({ type: 'validated', jobId, report, repaired: null });
+            return;
+        }
+
+        progress('Repairing mesh', 0.5);
+        const repaired = meshValidator.repair(geometry);
+        progress('Checking repaired mesh', 0.75);
+        const repairedReport = meshValidator.validate(repaired, request.options);
+        const buffers = {
+            positions: repaired.attributes.position.array as Float32Array,
+            index: repaired.index!.array as Uint16Array | Uint32Array,
+        };
+        scope.postMessage({ type: 'validated', jobId, report: repairedReport, repaired: buffers }, [buffers.positions.buffer, buffers.index.buffer]);
+        return;
+    }
+
+    const { heightmap, width, height, modelSettings, carveWith, colorMaps } = request;
+
+    if (!carveWith) {
+        progress('Building mesh', 0.1);
+        const parts = lithophanePipeline.build(heightmap, width, height, modelSettings, colorMaps ?? null);
+
+        if (colorMaps || modelSettings.assembly !== 'single') {
+            const bodies = parts.map(({ name, color, placement, geometry }) => ({ name, color, placement, ...toBuffers(geometry) }));
+            const transfer = bodies.flatMap(b => [b.positions.buffer, b.normals.buffer, b.thickness.buffer, b.index.buffer]);
+            if (colorMaps) scope.postMessage({ type: 'bodies', jobId, bodies }, transfer);
+            else scope.postMessage({ type: 'parts', jobId, parts: bodies }, transfer);
+            return;
+        }
+
+        const buffers = toBuffers(parts[0].geometry);
+        scope.postMessage({ type: 'mesh', jobId, ...buffers }, [buffers.positions.buffer, buffers.normals.buffer, buffers.thickness.buffer, buffers.index.buffer]);
+        return;
+    }
+
+    progress('Simulating carving', 0.1);
+    // Simulated CNC result: a flat part covering the frame too. The toolpaths
+    // follow the heightmap only, so the preview has no caption or ornaments
+    const carved = toolCompensator.asCarvedHeightmap(heightmap, width, height, modelSettings, carveWith);
+    progress('Building mesh', 0.6);
+    const geometry = geometryGenerator.generateMesh(carved.heightmap, carved.width, carved.height, {
+        ...modelSettings,
+        // The span of the carved grid, which ends on whole cells
+        width: (carved.width - 1) * carved.cellSize,
+        height: (carved.height - 1) * carved.cellSize,
+        frameWidth: 0,
+        curveAngle: 0,
+        shape: 'flat',
+        smoothing: false,
+        text: '',
+        hangingHoles: 0,
+        standSlots: false,
+        lipWidth: 0,
+    });
+
+    const buffers = toBuffers(geometry);
+    scope.postMessage({ type: 'mesh', jobId, ...buffers }, [buffers.positions.buffer, buffers.normals.buffer, buffers.thickness.buffer, buffers.index.buffer]);
+};
+
+scope.onmessage = (e) => {
+    handle(e.data).catch((err) => {
+        scope.postMessage({ type: 'error', jobId: e.data.jobId, message: err instanceof Error ? err.message : String(err) });
+    });
+};
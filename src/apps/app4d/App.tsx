@@ -5,6 +5,9 @@ import * as THREE from 'three';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
 import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
 import { Upload, Settings, Download, Zap, Layers, Maximize, Sliders, Box, Circle, Database, Package, Sun, Moon, Cloud, Star } from 'lucide-react';
+import { TimelinePanel } from './TimelinePanel';
+import { createTimeline, sampleTimeline, sampleTrack, type AnimatedValues, type Timeline, type Vec3 } from './timeline';
+import { renderAnimation, type ExportFormat, type RenderTarget } from './animationExport';
 import './index.css';
 import './App.css';
 
@@ -30,6 +33,28 @@ interface AppSettings {
   ssao: boolean;
 }
 
+// --- Depth Rig ---
+// Relief is built at unit depth: position = rest + offset * depth, so depth can
+// be animated without rebuilding the mesh
+const depthRigs = new WeakMap<THREE.BufferGeometry, { rest: Float32Array, offsets: Float32Array, depth: number }>();
+
+const rigDepth = (geo: THREE.BufferGeometry, rest: Float32Array) => {
+  const unit = geo.attributes.position.array as Float32Array;
+  depthRigs.set(geo, { rest, offsets: unit.map((v, i) => v - rest[i]), depth: 1 });
+};
+
+const applyDepth = (geo: THREE.BufferGeometry, depth: number) => {
+  const rig = depthRigs.get(geo);
+  if (!rig || rig.depth === depth) return;
+  const position = geo.attributes.position;
+  const array = position.array as Float32Array;
+  for (let i = 0; i < array.length; i++) array[i] = rig.rest[i] + rig.offsets[i] * depth;
+  position.needsUpdate = true;
+  geo.computeVertexNormals();
+  geo.computeBoundingSphere();
+  rig.depth = depth;
+};
+
 // --- 3D Model Component ---
 const Model4D = ({ image, settings, meshRef }: { image: string | null, settings: AppSettings, meshRef: React.RefObject<THREE.Mesh> }) => {
   // use meshRef passed from parent
@@ -74,7 +99,7 @@ const Model4D = ({ image, settings, meshRef }: { image: string | null, settings:
 
         const cellW = 5 / w;
         const cellH = (5 * (h / w)) / h;
-        const depth = settings.depth;
+        const depth = 1; // Scaled by the depth rig
 
         // 1. Calculate Alpha Mask and SDF (Distance to Edge) for Inflation
         const mask = new Uint8Array(w * h);
@@ -160,6 +185,9 @@ const Model4D = ({ image, settings, meshRef }: { image: string | null, settings:
         geo.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(normals), 3));
         geo.setAttribute('uv', new THREE.BufferAttribute(new Float32Array(uvs), 2));
         geo.setIndex(indices);
+        const rest = Float32Array.from(positions);
+        for (let i = 2; i < rest.length; i += 3) rest[i] = 0;
+        rigDepth(geo, rest);
         geo.computeVertexNormals();
         setGeometry(geo);
       } else {
@@ -176,6 +204,7 @@ const Model4D = ({ image, settings, meshRef }: { image: string | null, settings:
         }
 
         const vertices = newGeo.attributes.position.array as Float32Array;
+        const rest = Float32Array.from(vertices);
         for (let i = 0; i < vertices.length; i += 3) {
           const x = vertices[i], y = vertices[i + 1], z = vertices[i + 2];
           const xIdx = Math.round(((x + 2.5) / 5) * (w - 1));
@@ -187,7 +216,7 @@ const Model4D = ({ image, settings, meshRef }: { image: string | null, settings:
             brightness = Math.pow(brightness, 1 / settings.contrast);
             if (settings.invert) brightness = 1 - brightness;
             const alpha = data[dataIdx + 3] / 255;
-            const displacement = brightness * alpha * settings.depth;
+            const displacement = brightness * alpha; // Unit depth, scaled by the depth rig
 
             if (settings.shape === 'plane') {
               vertices[i + 2] = displacement;
@@ -199,11 +228,16 @@ const Model4D = ({ image, settings, meshRef }: { image: string | null, settings:
             }
           }
         }
+        rigDepth(newGeo, rest);
         newGeo.computeVertexNormals();
         setGeometry(newGeo);
       }
     };
-  }, [image, settings.depth, settings.resolution, settings.shape, settings.contrast, settings.invert]);
+  }, [image, settings.resolution, settings.shape, settings.contrast, settings.invert]);
+
+  useEffect(() => {
+    if (geometry) applyDepth(geometry, settings.depth);
+  }, [geometry, settings.depth]);
 
   if (!image || !geometry) return null;
 
@@ -228,8 +262,112 @@ const Model4D = ({ image, settings, meshRef }: { image: string | null, settings:
   );
 };
 
+// --- Timeline Animator ---
+interface AnimatorProps {
+  timeline: Timeline;
+  time: number;
+  playing: boolean;
+  previewing: boolean;
+  settings: AppSettings;
+  meshRef: React.RefObject<THREE.Mesh>;
+  targetRef: React.MutableRefObject<RenderTarget | null>;
+  onTime: (time: number) => void;
+  onEnd: () => void;
+}
+
+const Animator = ({ timeline, time, playing, previewing, settings, meshRef, targetRef, onTime, onEnd }: AnimatorProps) => {
+  const { gl, scene, camera, controls } = useThree();
+  const clock = useRef(time);
+  const posed = useRef(false);
+
+  useEffect(() => {
+    if (!playing) clock.current = time;
+  }, [time, playing]);
+
+  // Tracks without keys keep the live values
+  const pose = (t: number) => {
+    const mesh = meshRef.current;
+    const values = sampleTimeline(timeline, t, {
+      camera: camera.position.toArray() as Vec3,
+      rotation: [0, 0, 0],
+      depth: settings.depth,
+      glow: settings.glow,
+      glowColor: settings.glowColor,
+      opacity: settings.opacity,
+    });
+
+    camera.position.set(...values.camera);
+    camera.lookAt(0, 0, 0);
+    (controls as unknown as { target?: THREE.Vector3 } | null)?.target?.set(0, 0, 0);
+    if (!mesh) return;
+    mesh.rotation.set(...values.rotation.map(THREE.MathUtils.degToRad) as Vec3);
+    const material = mesh.material as THREE.MeshStandardMaterial;
+    material.emissive.set(values.glowColor);
+    material.emissiveIntensity = values.glow;
+    material.opacity = values.opacity;
+    applyDepth(mesh.geometry, values.depth);
+  };
+
+  const restore = () => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    mesh.rotation.set(0, 0, 0);
+    const material = mesh.material as THREE.MeshStandardMaterial;
+    material.emissive.set(settings.glowColor);
+    material.emissiveIntensity = settings.glow;
+    material.opacity = settings.opacity;
+    applyDepth(mesh.geometry, settings.depth);
+  };
+
+  // The exporter poses frames itself; the live view follows along
+  targetRef.current = {
+    gl,
+    scene,
+    camera,
+    pose: (t) => {
+      clock.current = t;
+      pose(t);
+    },
+  };
+
+  useFrame((_, delta) => {
+    if (playing) {
+      let t = clock.current + delta;
+      if (t >= timeline.duration) {
+        if (timeline.loop) {
+          t %= timeline.duration;
+        } else {
+          t = timeline.duration;
+          onEnd();
+        }
+      }
+      clock.current = t;
+      onTime(t);
+    }
+
+    if (playing || previewing) {
+      pose(clock.current);
+      posed.current = true;
+    } else if (posed.current) {
+      restore();
+      posed.current = false;
+    }
+  });
+
+  return null;
+};
+
 // --- Viewport Component ---
-const Viewport = ({ image, settings, meshRef }: { image: string | null, settings: AppSettings, meshRef: React.RefObject<THREE.Mesh> }) => {
+interface ViewportProps {
+  image: string | null;
+  settings: AppSettings;
+  meshRef: React.RefObject<THREE.Mesh>;
+  animation: Omit<AnimatorProps, 'settings' | 'meshRef'>;
+}
+
+const Viewport = ({ image, settings, meshRef, animation }: ViewportProps) => {
+  const animating = animation.playing || animation.previewing;
+
   return (
     <div className="viewport-container" style={{ position: 'relative' }}>
       {!image && (
@@ -253,17 +391,20 @@ const Viewport = ({ image, settings, meshRef }: { image: string | null, settings
           <ContactShadows position={[0, -2.5, 0]} opacity={0.4} scale={15} blur={2.5} far={4} color="#000000" />
         </React.Suspense>
 
+        <Animator {...animation} settings={settings} meshRef={meshRef} />
+
         <OrbitControls
+          enabled={!animating}
           enableDamping
           dampingFactor={0.05}
-          autoRotate={settings.autoRotate}
+          autoRotate={settings.autoRotate && !animating}
           autoRotateSpeed={0.5}
           makeDefault
         />
       </Canvas>
       <div className="status-badge">
         <div className="pulse"></div>
-        <span>ORGANIC 4D ENGINE ACTIVE</span>
+        <span>{animating ? `TIMELINE ${animation.time.toFixed(2)}s` : 'ORGANIC 4D ENGINE ACTIVE'}</span>
       </div>
     </div>
   );
@@ -295,6 +436,14 @@ export default function App() {
     ssao: true
   });
 
+  // --- Timeline State ---
+  const [timeline, setTimeline] = useState<Timeline>(createTimeline);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const renderTargetRef = useRef<RenderTarget | null>(null);
+
   const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -348,6 +497,54 @@ export default function App() {
     );
   };
 
+  // New keys take the free camera, the posed rotation and the sidebar values
+  const captureValues = (): AnimatedValues => ({
+    camera: (renderTargetRef.current?.camera.position.toArray() ?? [0, 0, 10]) as Vec3,
+    rotation: sampleTrack(timeline.tracks.rotation, time, [0, 0, 0]),
+    depth: settings.depth,
+    glow: settings.glow,
+    glowColor: settings.glowColor,
+    opacity: settings.opacity,
+  });
+
+  const handlePlay = () => {
+    if (!playing && !timeline.loop && time >= timeline.duration) setTime(0);
+    setPlaying(!playing);
+    setPreviewing(true);
+  };
+
+  const handleStop = () => {
+    setPlaying(false);
+    setPreviewing(false);
+    setTime(0);
+  };
+
+  const handleRender = async (format: ExportFormat) => {
+    const target = renderTargetRef.current;
+    if (!meshRef.current || !target) {
+      alert("No model loaded!");
+      return;
+    }
+
+    setPlaying(false);
+    setPreviewing(true);
+    setExportProgress(0);
+    try {
+      const { blob, extension } = await renderAnimation(timeline, format, target, setExportProgress);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `anime_4d_${Date.now()}.${extension}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    } catch (error) {
+      console.error(error);
+      alert(`Render failed: ${(error as Error).message}`);
+    } finally {
+      target.pose(time); // Back to the playhead
+      setExportProgress(null);
+    }
+  };
+
   return (
     <div className="studio-container">
       {/* --- Left Sidebar --- */}
@@ -462,8 +659,38 @@ export default function App() {
       </aside>
 
       {/* --- Main Viewport --- */}
-      <main>
-        <Viewport image={image} settings={settings} meshRef={meshRef as React.RefObject<THREE.Mesh>} />
+      <main className="studio-main">
+        <Viewport
+          image={image}
+          settings={settings}
+          meshRef={meshRef as React.RefObject<THREE.Mesh>}
+          animation={{
+            timeline,
+            time,
+            playing,
+            previewing: previewing || exportProgress !== null,
+            targetRef: renderTargetRef,
+            onTime: setTime,
+            onEnd: () => setPlaying(false),
+          }}
+        />
+        <TimelinePanel
+          timeline={timeline}
+          onChange={setTimeline}
+          time={time}
+          onSeek={(t) => {
+            setPlaying(false);
+            setTime(t);
+          }}
+          playing={playing}
+          onPlay={handlePlay}
+          onStop={handleStop}
+          previewing={previewing}
+          onPreview={setPreviewing}
+          capture={captureValues}
+          exportProgress={exportProgress}
+          onRender={handleRender}
+        />
       </main>
 
       {/* --- Right Sidebar --- */}
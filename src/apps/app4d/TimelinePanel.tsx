@@ -0,0 +1,272 @@
+import React, { useRef, useState } from 'react';
+import { Play, Pause, Square, Eye, EyeOff, Diamond, RotateCw, Film, Trash2, Crosshair } from 'lucide-react';
+import {
+  TRACKS, EASINGS, setKey, updateKey, removeKey, setDuration, addTurntable,
+  type AnimatedValues, type Easing, type Keyframe, type Timeline, type TrackName, type Vec3,
+} from './timeline';
+import { EXPORT_FORMATS, isFormatSupported, type ExportFormat } from './animationExport';
+
+interface TimelinePanelProps {
+  timeline: Timeline;
+  onChange: (timeline: Timeline) => void;
+  time: number;
+  onSeek: (time: number) => void;
+  playing: boolean;
+  onPlay: () => void;
+  onStop: () => void;
+  previewing: boolean;
+  onPreview: (previewing: boolean) => void;
+  capture: () => AnimatedValues; // Live values for new keys
+  exportProgress: number | null;
+  onRender: (format: ExportFormat) => void;
+}
+
+const numberInput: React.CSSProperties = {
+  width: '4.5rem',
+  background: 'var(--glass)',
+  border: '1px solid var(--border)',
+  borderRadius: '4px',
+  color: 'var(--text-main)',
+  padding: '0.2rem 0.35rem',
+  fontSize: '0.75rem',
+};
+
+// --- Key value editor ---
+const ValueEditor = ({ track, value, onChange }: { track: TrackName, value: AnimatedValues[TrackName], onChange: (value: AnimatedValues[TrackName]) => void }) => {
+  if (typeof value === 'string') {
+    return (
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={{ padding: 0, border: 'none', background: 'none', width: '30px', height: '24px', cursor: 'pointer' }}
+      />
+    );
+  }
+  if (typeof value === 'number') {
+    return (
+      <input type="number" step="0.05" value={Number(value.toFixed(3))} onChange={(e) => onChange(parseFloat(e.target.value) || 0)} style={numberInput} />
+    );
+  }
+  return (
+    <>
+      {value.map((v, axis) => (
+        <label key={axis} className="timeline-field">
+          {'XYZ'[axis]}
+          <input
+            type="number"
+            step={track === 'rotation' ? 5 : 0.1}
+            value={Number(v.toFixed(2))}
+            onChange={(e) => {
+              const next = [...value] as Vec3;
+              next[axis] = parseFloat(e.target.value) || 0;
+              onChange(next);
+            }}
+            style={numberInput}
+          />
+        </label>
+      ))}
+    </>
+  );
+};
+
+/**
+ * Keyframe tracks under the viewport: a transport row, one lane per animated
+ * value (click to move the playhead, drag a key to retime it) and an editor
+ * for the selected key.
+ */
+export const TimelinePanel = ({
+  timeline, onChange, time, onSeek, playing, onPlay, onStop, previewing, onPreview, capture, exportProgress, onRender,
+}: TimelinePanelProps) => {
+  const [format, setFormat] = useState<ExportFormat>('webm');
+  const [selected, setSelected] = useState<{ track: TrackName, id: string } | null>(null);
+  const dragging = useRef<{ track: TrackName, id: string } | null>(null);
+
+  const selectedKey = selected && (timeline.tracks[selected.track] as Keyframe<AnimatedValues[TrackName]>[]).find(key => key.id === selected.id);
+  const rendering = exportProgress !== null;
+
+  const timeAt = (e: React.PointerEvent, lane: HTMLElement) => {
+    const rect = lane.getBoundingClientRect();
+    const share = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    // Snapped to whole frames
+    return Math.round(share * timeline.duration * timeline.fps) / timeline.fps;
+  };
+
+  const keyTrack = (track: TrackName) => {
+    onChange(setKey(timeline, track, time, capture()[track]));
+  };
+
+  const keyAll = () => {
+    const values = capture();
+    onChange(TRACKS.reduce((next, [track]) => setKey(next, track, time, values[track]), timeline));
+  };
+
+  const handleLanePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    onSeek(timeAt(e, e.currentTarget));
+    setSelected(null);
+  };
+
+  const handleKeyPointerDown = (e: React.PointerEvent<HTMLDivElement>, track: TrackName, key: Keyframe<unknown>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragging.current = { track, id: key.id };
+    setSelected({ track, id: key.id });
+    onSeek(key.time);
+  };
+
+  const handleKeyPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging.current) return;
+    const next = timeAt(e, e.currentTarget.parentElement!);
+    onChange(updateKey(timeline, dragging.current.track, dragging.current.id, { time: next }));
+    onSeek(next);
+  };
+
+  const playhead = `${(time / timeline.duration) * 100}%`;
+
+  return (
+    <div className="timeline-panel">
+      {/* --- Transport --- */}
+      <div className="timeline-row timeline-toolbar">
+        <button className="timeline-button" onClick={onPlay} disabled={rendering} title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button className="timeline-button" onClick={onStop} disabled={rendering} title="Stop and return to the free camera">
+          <Square size={14} />
+        </button>
+        <button
+          className={`timeline-button${previewing ? ' active' : ''}`}
+          onClick={() => onPreview(!previewing)}
+          disabled={rendering}
+          title="Show the animation while scrubbing"
+        >
+          {previewing ? <Eye size={14} /> : <EyeOff size={14} />} Preview
+        </button>
+
+        <span className="timeline-time">{time.toFixed(2)}s</span>
+
+        <label className="timeline-field">
+          Length
+          <input
+            type="number"
+            min="0.5" max="120" step="0.5"
+            value={timeline.duration}
+            onChange={(e) => onChange(setDuration(timeline, Math.max(0.5, parseFloat(e.target.value) || 0.5)))}
+            style={numberInput}
+          />
+        </label>
+        <label className="timeline-field">
+          FPS
+          <select value={timeline.fps} onChange={(e) => onChange({ ...timeline, fps: parseInt(e.target.value) })} style={numberInput}>
+            {[12, 15, 24, 25, 30, 60].map(fps => <option key={fps} value={fps}>{fps}</option>)}
+          </select>
+        </label>
+        <label className="timeline-field" style={{ cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={timeline.loop}
+            onChange={(e) => onChange({ ...timeline, loop: e.target.checked })}
+            style={{ accentColor: 'var(--accent)' }}
+          />
+          Loop
+        </label>
+
+        <button className="timeline-button" onClick={keyAll} disabled={rendering} title="Key every track at the playhead">
+          <Diamond size={14} /> Key All
+        </button>
+        <button className="timeline-button" onClick={() => onChange(addTurntable(timeline))} disabled={rendering} title="One full turn over the whole timeline">
+          <RotateCw size={14} /> Turntable
+        </button>
+
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} style={{ ...numberInput, width: 'auto' }}>
+            {EXPORT_FORMATS.map(([value, label]) => (
+              <option key={value} value={value} disabled={!isFormatSupported(value)}>{label}</option>
+            ))}
+          </select>
+          <button
+            className="timeline-button active"
+            style={{ background: 'var(--purple)' }}
+            onClick={() => onRender(format)}
+            disabled={rendering || !isFormatSupported(format)}
+          >
+            <Film size={14} /> {rendering ? `Rendering ${Math.round(exportProgress! * 100)}%` : 'Render'}
+          </button>
+        </div>
+      </div>
+
+      {/* --- Tracks --- */}
+      {TRACKS.map(([track, label]) => (
+        <div key={track} className="timeline-row">
+          <span className="timeline-track-label">{label}</span>
+          <button className="timeline-button timeline-key-button" onClick={() => keyTrack(track)} disabled={rendering} title={`Key ${label} at the playhead`}>
+            <Diamond size={12} />
+          </button>
+          <div className="timeline-lane" onPointerDown={handleLanePointerDown}>
+            {(timeline.tracks[track] as Keyframe<unknown>[]).map(key => (
+              <div
+                key={key.id}
+                className={`timeline-key${selected?.id === key.id ? ' selected' : ''}`}
+                style={{ left: `${(key.time / timeline.duration) * 100}%` }}
+                title={`${key.time.toFixed(2)}s`}
+                onPointerDown={(e) => handleKeyPointerDown(e, track, key)}
+                onPointerMove={handleKeyPointerMove}
+                onPointerUp={() => { dragging.current = null; }}
+                onPointerCancel={() => { dragging.current = null; }}
+              />
+            ))}
+            <div className="timeline-playhead" style={{ left: playhead }} />
+          </div>
+        </div>
+      ))}
+
+      {/* --- Selected key --- */}
+      {selected && selectedKey && (
+        <div className="timeline-row timeline-toolbar">
+          <span className="timeline-track-label">{TRACKS.find(([track]) => track === selected.track)![1]} key</span>
+          <label className="timeline-field">
+            Time
+            <input
+              type="number"
+              min="0" max={timeline.duration} step={1 / timeline.fps}
+              value={Number(selectedKey.time.toFixed(3))}
+              onChange={(e) => onChange(updateKey(timeline, selected.track, selected.id, { time: parseFloat(e.target.value) || 0 }))}
+              style={numberInput}
+            />
+          </label>
+          <label className="timeline-field">
+            Easing
+            <select
+              value={selectedKey.easing}
+              onChange={(e) => onChange(updateKey(timeline, selected.track, selected.id, { easing: e.target.value as Easing }))}
+              style={{ ...numberInput, width: 'auto' }}
+            >
+              {EASINGS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </label>
+          <ValueEditor
+            track={selected.track}
+            value={selectedKey.value}
+            onChange={(value) => onChange(updateKey(timeline, selected.track, selected.id, { value }))}
+          />
+          <button
+            className="timeline-button"
+            onClick={() => onChange(updateKey(timeline, selected.track, selected.id, { value: capture()[selected.track] }))}
+            title="Replace the value with the live one"
+          >
+            <Crosshair size={14} /> Use Current
+          </button>
+          <button
+            className="timeline-button"
+            onClick={() => {
+              onChange(removeKey(timeline, selected.track, selected.id));
+              setSelected(null);
+            }}
+            title="Delete key"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import JSZip from 'jszip';
+import { frameCount, type Timeline } from './timeline';
+import { GifEncoder } from './gifEncoder';
+
+// --- Animation rendering ---
+
+export type ExportFormat = 'webm' | 'mp4' | 'gif' | 'png';
+
+export const EXPORT_FORMATS: [ExportFormat, string][] = [
+  ['webm', 'WebM Video'],
+  ['mp4', 'MP4 Video'],
+  ['gif', 'Animated GIF'],
+  ['png', 'PNG Sequence (.zip)'],
+];
+
+const VIDEO_TYPES: Record<'webm' | 'mp4', string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+// GIFs get large quickly; wider canvases are scaled down
+const GIF_MAX_WIDTH = 480;
+
+export interface RenderTarget {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  pose: (time: number) => void; // Puts the scene at `time` seconds
+}
+
+const videoType = (format: ExportFormat) => {
+  if (format !== 'webm' && format !== 'mp4') return undefined;
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return VIDEO_TYPES[format].find(type => MediaRecorder.isTypeSupported(type));
+};
+
+// The browser has to record WebM / MP4 itself; GIF and PNG always work
+export const isFormatSupported = (format: ExportFormat) => format === 'gif' || format === 'png' || !!videoType(format);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const renderFrame = (target: RenderTarget, time: number) => {
+  target.pose(time);
+  target.gl.render(target.scene, target.camera);
+};
+
+// Frames are pushed to a canvas stream that only takes one when asked; the
+// recorder timestamps in real time, so frames are spaced 1/fps apart
+const recordVideo = async (timeline: Timeline, type: string, target: RenderTarget, onProgress: (done: number) => void) => {
+  const stream = target.gl.domElement.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType: type, videoBitsPerSecond: 12_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+  recorder.start();
+  const frames = frameCount(timeline);
+  for (let i = 0; i < frames; i++) {
+    renderFrame(target, i / timeline.fps);
+    track.requestFrame();
+    onProgress((i + 1) / frames);
+    await wait(1000 / timeline.fps);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+
+  return new Blob(chunks, { type: type.split(';')[0] });
+};
+
+const encodeGif = async (timeline: Timeline, target: RenderTarget, onProgress: (done: number) => void) => {
+  const source = target.gl.domElement;
+  const scale = Math.min(1, GIF_MAX_WIDTH / source.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const encoder = new GifEncoder(canvas.width, canvas.height);
+
+  const frames = frameCount(timeline);
+  for (let i = 0; i < frames; i++) {
+    // Copied in the same task as the render, before the drawing buffer is cleared
+    renderFrame(target, i / timeline.fps);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, 1000 / timeline.fps);
+    onProgress((i + 1) / frames);
+    await wait(0);
+  }
+
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+};
+
+const zipPngFrames = async (timeline: Timeline, target: RenderTarget, onProgress: (done: number) => void) => {
+  const source = target.gl.domElement;
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const ctx = canvas.getContext('2d')!;
+  const zip = new JSZip();
+
+  const frames = frameCount(timeline);
+  const digits = Math.max(4, String(frames).length);
+  for (let i = 0; i < frames; i++) {
+    renderFrame(target, i / timeline.fps);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error(`Frame ${i + 1} could not be encoded`);
+    zip.file(`frame_${String(i + 1).padStart(digits, '0')}.png`, png);
+    onProgress((i + 1) / frames);
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Renders every frame of the timeline from the live canvas and packs them
+ * into the chosen format. `onProgress` gets the share of frames done (0-1).
+ */
+export const renderAnimation = async (
+  timeline: Timeline,
+  format: ExportFormat,
+  target: RenderTarget,
+  onProgress: (done: number) => void = () => {},
+): Promise<{ blob: Blob; extension: string }> => {
+  switch (format) {
+    case 'gif':
+      return { blob: await encodeGif(timeline, target, onProgress), extension: 'gif' };
+    case 'png':
+      return { blob: await zipPngFrames(timeline, target, onProgress), extension: 'zip' };
+    default: {
+      const type = videoType(format);
+      if (!type) throw new Error(`This browser cannot record ${format.toUpperCase()} video`);
+      return { blob: await recordVideo(timeline, type, target, onProgress), extension: format };
+    }
+  }
+};
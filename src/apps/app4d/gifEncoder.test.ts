@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { GifEncoder } from './gifEncoder';
+
+interface DecodedFrame {
+  delay: number;
+  palette: Uint8Array;
+  indices: number[];
+}
+
+// Just enough of a GIF reader to check what the encoder wrote
+const decode = (gif: Uint8Array) => {
+  let p = 0;
+  const word = () => gif[p++] | (gif[p++] << 8);
+  const header = String.fromCharCode(...gif.subarray(0, 6));
+  p = 6;
+  const width = word(), height = word();
+  p += 3;
+
+  const frames: DecodedFrame[] = [];
+  let loops = false, delay = 0;
+  const subBlocks = () => {
+    const data: number[] = [];
+    for (let size = gif[p++]; size > 0; size = gif[p++]) {
+      data.push(...gif.subarray(p, p + size));
+      p += size;
+    }
+    return data;
+  };
+
+  for (;;) {
+    const block = gif[p++];
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      const label = gif[p++];
+      const data = subBlocks();
+      if (label === 0xf9) delay = data[1] | (data[2] << 8);
+      if (label === 0xff) loops = String.fromCharCode(...data.slice(0, 11)) === 'NETSCAPE2.0';
+      continue;
+    }
+
+    p += 8;
+    const packed = gif[p++];
+    const palette = gif.slice(p, p + 3 * (1 << ((packed & 7) + 1)));
+    p += palette.length;
+    const minCodeSize = gif[p++];
+    const data = subBlocks();
+
+    // LZW
+    const clear = 1 << minCodeSize, end = clear + 1;
+    let size = minCodeSize + 1, bit = 0;
+    let table: number[][] = [];
+    const reset = () => {
+      table = Array.from({ length: end + 1 }, (_, i) => [i]);
+      size = minCodeSize + 1;
+    };
+    const indices: number[] = [];
+    let previous: number[] | null = null;
+    for (;;) {
+      let code = 0;
+      for (let b = 0; b < size; b++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << b;
+      if (code === clear) {
+        reset();
+        previous = null;
+        continue;
+      }
+      if (code === end) break;
+      const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+      indices.push(...entry);
+      if (previous) table.push([...previous, entry[0]]);
+      if (table.length === 1 << size && size < 12) size++;
+      previous = entry;
+    }
+    frames.push({ delay, palette, indices });
+  }
+  return { header, width, height, loops, frames };
+};
+
+const gradient = (width: number, height: number, shift: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const x = i % width, y = Math.floor(i / width);
+    data.set([(x * 8 + shift) % 256, y * 4, (x * y + shift) % 256, 255], i * 4);
+  }
+  return data;
+};
+
+describe('GifEncoder', () => {
+  it('writes a looping animation whose frames decode back', () => {
+    const width = 40, height = 30;
+    const encoder = new GifEncoder(width, height);
+    const frames = [gradient(width, height, 0), gradient(width, height, 90)];
+    frames.forEach(frame => encoder.addFrame(frame, 1000 / 30));
+    const gif = decode(encoder.finish());
+
+    expect(gif.header).toBe('GIF89a');
+    expect([gif.width, gif.height]).toEqual([width, height]);
+    expect(gif.loops).toBe(true);
+    expect(gif.frames).toHaveLength(2);
+
+    gif.frames.forEach(({ delay, palette, indices }, f) => {
+      expect(delay).toBe(3);
+      expect(indices).toHaveLength(width * height);
+      // Every pixel lands on a close palette colour
+      let error = 0;
+      indices.forEach((index, i) => {
+        for (let c = 0; c < 3; c++) error += Math.abs(palette[index * 3 + c] - frames[f][i * 4 + c]);
+      });
+      expect(error / (width * height * 3)).toBeLessThan(6);
+    });
+  });
+
+  it('keeps exact colours when there are few of them', () => {
+    const colours = [[255, 0, 0], [0, 0, 255], [20, 200, 20]];
+    const width = 300, height = 40; // Long runs: the code table fills and is cleared
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) data.set([...colours[Math.floor(i / 7) % 3], 255], i * 4);
+
+    const encoder = new GifEncoder(width, height);
+    encoder.addFrame(data, 100);
+    const [frame] = decode(encoder.finish()).frames;
+
+    frame.indices.forEach((index, i) => {
+      expect(Array.from(frame.palette.slice(index * 3, index * 3 + 3))).toEqual(colours[Math.floor(i / 7) % 3]);
+    });
+  });
+});
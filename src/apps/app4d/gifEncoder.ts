@@ -0,0 +1,223 @@
+// --- Animated GIF writer ---
+
+const MAX_CODES = 4096;
+// Pixels looked at when building a frame's palette
+const PALETTE_SAMPLES = 40000;
+
+// Growable byte buffer
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  public length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  result() {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * GIF89a encoder for rendered frames: every frame gets its own 256-colour
+ * palette (median cut) and is LZW-compressed. The animation loops forever.
+ */
+export class GifEncoder {
+  private out = new ByteWriter();
+  private width: number;
+  private height: number;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+
+    this.out.text('GIF89a');
+    this.out.word(width);
+    this.out.word(height);
+    this.out.bytes([0x70, 0, 0]); // No global colour table, 8 bit colour resolution
+
+    // NETSCAPE2.0 application extension: loop forever
+    this.out.bytes([0x21, 0xff, 0x0b]);
+    this.out.text('NETSCAPE2.0');
+    this.out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+  }
+
+  // RGBA pixels of one frame (alpha ignored), shown for `delay` ms
+  addFrame(rgba: Uint8ClampedArray, delay: number) {
+    const palette = this.palette(rgba);
+    const indices = this.indexPixels(rgba, palette);
+
+    // Graphic control extension: delay in 1/100 s, frames replace each other
+    this.out.bytes([0x21, 0xf9, 0x04, 0x04]);
+    this.out.word(Math.max(2, Math.round(delay / 10)));
+    this.out.bytes([0x00, 0x00]);
+
+    // Image descriptor with a 256-entry local colour table
+    this.out.byte(0x2c);
+    this.out.word(0);
+    this.out.word(0);
+    this.out.word(this.width);
+    this.out.word(this.height);
+    this.out.byte(0x87);
+    this.out.bytes(palette);
+
+    this.compress(indices, 8);
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    this.out.byte(0x3b);
+    return this.out.result();
+  }
+
+  // Median cut over a sample of the pixels, padded to 256 RGB entries
+  private palette(rgba: Uint8ClampedArray): Uint8Array {
+    const count = rgba.length / 4;
+    const stride = Math.max(1, Math.floor(count / PALETTE_SAMPLES));
+    const samples: number[][] = [];
+    for (let i = 0; i < count; i += stride) samples.push([rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]]);
+
+    // Each box remembers its widest channel and that channel's range
+    const box = (colours: number[][]) => {
+      let channel = 0, range = -1;
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        for (const colour of colours) {
+          min = Math.min(min, colour[c]);
+          max = Math.max(max, colour[c]);
+        }
+        if (max - min > range) {
+          channel = c;
+          range = max - min;
+        }
+      }
+      return { colours, channel, range: colours.length < 2 ? 0 : range };
+    };
+
+    const boxes = [box(samples)];
+    while (boxes.length < 256) {
+      // Split the box with the widest range at its median
+      let widest = 0;
+      boxes.forEach((b, i) => {
+        if (b.range > boxes[widest].range) widest = i;
+      });
+      const { colours, channel, range } = boxes[widest];
+      if (range === 0) break;
+
+      colours.sort((a, b) => a[channel] - b[channel]);
+      const half = colours.length >> 1;
+      boxes.splice(widest, 1, box(colours.slice(0, half)), box(colours.slice(half)));
+    }
+
+    const palette = new Uint8Array(256 * 3);
+    boxes.forEach(({ colours }, b) => {
+      const sum = [0, 0, 0];
+      for (const colour of colours) for (let c = 0; c < 3; c++) sum[c] += colour[c];
+      for (let c = 0; c < 3; c++) palette[b * 3 + c] = Math.round(sum[c] / Math.max(1, colours.length));
+    });
+    return palette;
+  }
+
+  // Nearest palette entry per pixel, cached per 15-bit colour
+  private indexPixels(rgba: Uint8ClampedArray, palette: Uint8Array): Uint8Array {
+    const cache = new Int16Array(1 << 15).fill(-1);
+    const indices = new Uint8Array(rgba.length / 4);
+    for (let i = 0; i < indices.length; i++) {
+      const r = rgba[i * 4], g = rgba[i * 4 + 1], b = rgba[i * 4 + 2];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      let index = cache[key];
+      if (index < 0) {
+        let bestDistance = Infinity;
+        for (let p = 0; p < 256; p++) {
+          const dr = palette[p * 3] - r, dg = palette[p * 3 + 1] - g, db = palette[p * 3 + 2] - b;
+          const distance = dr * dr + dg * dg + db * db;
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            index = p;
+          }
+        }
+        cache[key] = index;
+      }
+      indices[i] = index;
+    }
+    return indices;
+  }
+
+  // Variable-width LZW, written as data sub-blocks of up to 255 bytes
+  private compress(indices: Uint8Array, minCodeSize: number) {
+    const out = this.out;
+    out.byte(minCodeSize);
+
+    const block: number[] = [];
+    let bits = 0, bitCount = 0;
+    const flush = () => {
+      out.byte(block.length);
+      out.bytes(block);
+      block.length = 0;
+    };
+    const emit = (code: number, size: number) => {
+      bits |= code << bitCount;
+      bitCount += size;
+      while (bitCount >= 8) {
+        block.push(bits & 0xff);
+        if (block.length === 255) flush();
+        bits >>>= 8;
+        bitCount -= 8;
+      }
+    };
+
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    const table = new Map<number, number>();
+
+    emit(clearCode, codeSize);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+
+      emit(prefix, codeSize);
+      if (nextCode === MAX_CODES) {
+        emit(clearCode, codeSize);
+        table.clear();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        // The decoder widens its codes once the table outgrows them
+        if (nextCode >= 1 << codeSize) codeSize++;
+        table.set(key, nextCode++);
+      }
+      prefix = k;
+    }
+    emit(prefix, codeSize);
+    emit(endCode, codeSize);
+
+    if (bitCount > 0) block.push(bits & 0xff);
+    if (block.length > 0) flush();
+    out.byte(0); // Block terminator
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTurntable, createTimeline, ease, frameCount, removeKey, sampleTimeline, sampleTrack, setDuration, setKey, updateKey,
+  type AnimatedValues,
+} from './timeline';
+
+const live: AnimatedValues = {
+  camera: [0, 0, 10],
+  rotation: [0, 0, 0],
+  depth: 1.5,
+  glow: 0,
+  glowColor: '#ffffff',
+  opacity: 1,
+};
+
+describe('timeline', () => {
+  it('eases between 0 and 1', () => {
+    for (const easing of ['linear', 'easeIn', 'easeOut', 'easeInOut'] as const) {
+      expect(ease(easing, 0)).toBeCloseTo(0);
+      expect(ease(easing, 1)).toBeCloseTo(1);
+    }
+    expect(ease('easeIn', 0.5)).toBeLessThan(0.5);
+    expect(ease('easeOut', 0.5)).toBeGreaterThan(0.5);
+    expect(ease('easeInOut', 0.5)).toBeCloseTo(0.5);
+    expect(ease('step', 0.99)).toBe(0);
+  });
+
+  it('interpolates numbers, vectors and colours between keys', () => {
+    let timeline = setKey(createTimeline(), 'depth', 0, 1, 'linear');
+    timeline = setKey(timeline, 'depth', 2, 3, 'linear');
+    timeline = setKey(timeline, 'camera', 0, [0, 0, 10], 'linear');
+    timeline = setKey(timeline, 'camera', 2, [10, 0, 0], 'linear');
+    timeline = setKey(timeline, 'glowColor', 0, '#000000', 'linear');
+    timeline = setKey(timeline, 'glowColor', 2, '#ffffff', 'linear');
+
+    const values = sampleTimeline(timeline, 1, live);
+    expect(values.depth).toBeCloseTo(2);
+    expect(values.camera[0]).toBeCloseTo(5);
+    expect(values.camera[2]).toBeCloseTo(5);
+    expect(values.glowColor).toBe('#bcbcbc'); // Mixed in linear light
+    // Tracks without keys keep the live value
+    expect(values.glow).toBe(0);
+    expect(values.opacity).toBe(1);
+
+    // Held before the first key and after the last
+    expect(sampleTrack(timeline.tracks.depth, -1, 0)).toBe(1);
+    expect(sampleTrack(timeline.tracks.depth, 5, 0)).toBe(3);
+  });
+
+  it('shapes each segment with the easing of the key it arrives at', () => {
+    let timeline = setKey(createTimeline(), 'glow', 0, 0, 'linear');
+    timeline = setKey(timeline, 'glow', 1, 1, 'step');
+    timeline = setKey(timeline, 'glow', 2, 0, 'easeIn');
+
+    expect(sampleTrack(timeline.tracks.glow, 0.9, -1)).toBe(0);
+    expect(sampleTrack(timeline.tracks.glow, 1, -1)).toBe(1);
+    expect(sampleTrack(timeline.tracks.glow, 1.5, -1)).toBeCloseTo(1 - 0.125);
+  });
+
+  it('keeps keys sorted and replaces a key on the same frame', () => {
+    let timeline = setKey(createTimeline(), 'opacity', 3, 0.5);
+    timeline = setKey(timeline, 'opacity', 1, 1);
+    timeline = setKey(timeline, 'opacity', 1 + 0.2 / timeline.fps, 0.2);
+
+    expect(timeline.tracks.opacity.map(key => [key.time, key.value])).toEqual([[1, 0.2], [3, 0.5]]);
+
+    const [first] = timeline.tracks.opacity;
+    timeline = updateKey(timeline, 'opacity', first.id, { time: 5 });
+    expect(timeline.tracks.opacity.map(key => key.value)).toEqual([0.5, 0.2]);
+
+    timeline = removeKey(timeline, 'opacity', first.id);
+    expect(timeline.tracks.opacity).toHaveLength(1);
+  });
+
+  it('clamps keys to the timeline when it gets shorter', () => {
+    const timeline = setDuration(setKey(createTimeline(), 'depth', 5, 2), 3);
+    expect(timeline.duration).toBe(3);
+    expect(timeline.tracks.depth[0].time).toBe(3);
+  });
+
+  it('builds a turntable over the whole length', () => {
+    const timeline = addTurntable(setKey(createTimeline(), 'rotation', 2, [10, 0, 0]));
+    expect(timeline.tracks.rotation.map(key => key.value)).toEqual([[0, 0, 0], [0, 360, 0]]);
+    expect(sampleTrack(timeline.tracks.rotation, timeline.duration / 4, live.rotation)[1]).toBeCloseTo(90);
+  });
+
+  it('does not render the closing frame of a loop twice', () => {
+    const timeline = { ...createTimeline(), duration: 2, fps: 24 };
+    expect(frameCount(timeline)).toBe(48);
+    expect(frameCount({ ...timeline, loop: false })).toBe(49);
+  });
+});
@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+
+// --- Keyframe timeline ---
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export type Vec3 = [number, number, number];
+
+// Everything the timeline can animate
+export interface AnimatedValues {
+  camera: Vec3; // Camera position, looking at the origin
+  rotation: Vec3; // Model rotation in degrees
+  depth: number;
+  glow: number;
+  glowColor: string;
+  opacity: number;
+}
+
+export type TrackName = keyof AnimatedValues;
+
+export interface Keyframe<T> {
+  id: string;
+  time: number; // Seconds
+  value: T;
+  easing: Easing; // Curve of the segment arriving at this key
+}
+
+export type Tracks = { [K in TrackName]: Keyframe<AnimatedValues[K]>[] };
+
+export interface Timeline {
+  duration: number; // Seconds
+  fps: number;
+  loop: boolean;
+  tracks: Tracks; // Keys sorted by time
+}
+
+export const TRACKS: [TrackName, string][] = [
+  ['camera', 'Camera'],
+  ['rotation', 'Rotation'],
+  ['depth', 'Depth'],
+  ['glow', 'Glow'],
+  ['glowColor', 'Glow Color'],
+  ['opacity', 'Opacity'],
+];
+
+export const EASINGS: [Easing, string][] = [
+  ['linear', 'Linear'],
+  ['easeIn', 'Ease In'],
+  ['easeOut', 'Ease Out'],
+  ['easeInOut', 'Ease In-Out'],
+  ['step', 'Hold'],
+];
+
+export const createTimeline = (): Timeline => ({
+  duration: 6,
+  fps: 30,
+  loop: true,
+  tracks: { camera: [], rotation: [], depth: [], glow: [], glowColor: [], opacity: [] },
+});
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Progress 0-1 along a segment, shaped by its easing (cubic curves)
+export const ease = (easing: Easing, u: number): number => {
+  switch (easing) {
+    case 'easeIn': return u * u * u;
+    case 'easeOut': return 1 - Math.pow(1 - u, 3);
+    case 'easeInOut': return u < 0.5 ? 4 * u * u * u : 1 - Math.pow(-2 * u + 2, 3) / 2;
+    case 'step': return u < 1 ? 0 : 1;
+    default: return u;
+  }
+};
+
+// Colours mix in linear light, like the emissive they drive
+const mix = <T,>(a: T, b: T, u: number): T => {
+  if (typeof a === 'number') return (a + ((b as number) - a) * u) as T;
+  if (typeof a === 'string') return `#${new THREE.Color(a).lerp(new THREE.Color(b as string), u).getHexString()}` as T;
+  const [ax, ay, az] = a as Vec3, [bx, by, bz] = b as Vec3;
+  return [ax + (bx - ax) * u, ay + (by - ay) * u, az + (bz - az) * u] as T;
+};
+
+// Value of one track at `time`; held before the first and after the last key
+export const sampleTrack = <T,>(keys: Keyframe<T>[], time: number, fallback: T): T => {
+  if (keys.length === 0) return fallback;
+  if (time <= keys[0].time) return keys[0].value;
+  const last = keys[keys.length - 1];
+  if (time >= last.time) return last.value;
+
+  let k = 0;
+  while (keys[k + 1].time <= time) k++;
+  const from = keys[k], to = keys[k + 1];
+  return mix(from.value, to.value, ease(to.easing, (time - from.time) / (to.time - from.time)));
+};
+
+// All values at `time`; tracks without keys take theirs from `fallback`
+export const sampleTimeline = (timeline: Timeline, time: number, fallback: AnimatedValues): AnimatedValues => {
+  const values = { ...fallback };
+  for (const [track] of TRACKS) {
+    (values as Record<TrackName, unknown>)[track] = sampleTrack(timeline.tracks[track] as Keyframe<unknown>[], time, fallback[track]);
+  }
+  return values;
+};
+
+export const hasKeys = (timeline: Timeline) => TRACKS.some(([track]) => timeline.tracks[track].length > 0);
+
+// Frames rendered at 0, 1/fps, 2/fps... before the end (a loop's end is its start)
+export const frameCount = (timeline: Timeline) => Math.max(1, Math.round(timeline.duration * timeline.fps) + (timeline.loop ? 0 : 1));
+
+const withTrack = <K extends TrackName>(timeline: Timeline, track: K, keys: Keyframe<AnimatedValues[K]>[]): Timeline => ({
+  ...timeline,
+  tracks: { ...timeline.tracks, [track]: keys.sort((a, b) => a.time - b.time) },
+});
+
+// Adds a key, or replaces the one within half a frame of `time`
+export const setKey = <K extends TrackName>(timeline: Timeline, track: K, time: number, value: AnimatedValues[K], easing: Easing = 'easeInOut'): Timeline => {
+  const at = Math.max(0, Math.min(timeline.duration, time));
+  const keys = timeline.tracks[track] as Keyframe<AnimatedValues[K]>[];
+  const existing = keys.find(key => Math.abs(key.time - at) < 0.5 / timeline.fps);
+  const key = existing ? { ...existing, value } : { id: newId(), time: at, value, easing };
+  return withTrack(timeline, track, [...keys.filter(k => k !== existing), key]);
+};
+
+export const updateKey = <K extends TrackName>(timeline: Timeline, track: K, id: string, change: Partial<Keyframe<AnimatedValues[K]>>): Timeline => {
+  const keys = timeline.tracks[track] as Keyframe<AnimatedValues[K]>[];
+  return withTrack(timeline, track, keys.map(key => key.id !== id ? key : {
+    ...key,
+    ...change,
+    time: Math.max(0, Math.min(timeline.duration, change.time ?? key.time)),
+  }));
+};
+
+export const removeKey = (timeline: Timeline, track: TrackName, id: string): Timeline =>
+  withTrack(timeline, track, (timeline.tracks[track] as Keyframe<unknown>[]).filter(key => key.id !== id) as Keyframe<never>[]);
+
+// New length; keys past the end move onto it
+export const setDuration = (timeline: Timeline, duration: number): Timeline => {
+  const next = { ...timeline, duration };
+  for (const [track] of TRACKS) {
+    next.tracks = {
+      ...next.tracks,
+      [track]: (timeline.tracks[track] as Keyframe<unknown>[]).map(key => key.time > duration ? { ...key, time: duration } : key),
+    };
+  }
+  return next;
+};
+
+// One full turn around the vertical axis over the whole timeline
+export const addTurntable = (timeline: Timeline): Timeline => {
+  const cleared = withTrack(timeline, 'rotation', []);
+  const start = setKey(cleared, 'rotation', 0, [0, 0, 0], 'linear');
+  return setKey(start, 'rotation', timeline.duration, [0, 360, 0], 'linear');
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useRef, useEffect } from 'react';
 import './index.css';
 import {
   Upload,
@@ -8,6 +8,8 @@ import {
 
 import { motion, AnimatePresence } from 'framer-motion';
 import { exportToBMP, exportToSVG, exportToDXF, previewSVG } from './utils/converters';
+import { useHistory, useUndoShortcuts } from '../../shared/history/useHistory';
+import { HistoryList } from '../../shared/history/HistoryList';
 
 // Types
 type ExportFormat = 'BMP' | 'SVG' | 'DXF';
@@ -65,7 +67,8 @@ interface AppState {
 }
 
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>({
+  // Settings changes are undoable; the loaded image and derived output are not
+  const history = useHistory<AppState>({
     originalImage: null,
     brightness: 0,
     contrast: 0,
@@ -106,7 +109,9 @@ const App: React.FC = () => {
     dxfUnits: 'mm',
     vectorSmoothing: 0,
     despeckleThreshold: 0,
-  });
+  }, { ignore: ['originalImage', 'isProcessing', 'vectorSVG'] });
+  const { state, setState } = history;
+  useUndoShortcuts(history);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -657,6 +662,11 @@ const App: React.FC = () => {
           </button>
         </div>
 
+        <div className="glass-panel">
+          <span className="tool-label" style={{ color: '#00cc99' }}>History</span>
+          <HistoryList history={history} />
+        </div>
+
         {/* LASER MODE TOGGLE - Prominent placement */}
         <div style={{
           background: state.laserMode ? 'linear-gradient(135deg, #ff6b00 0%, #ff0000 100%)' : 'rgba(255,255,255,0.05)',
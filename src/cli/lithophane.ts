@@ -0,0 +1,196 @@
+/**
+ * Batch lithophane export for Node: every PNG or JPEG photo in a folder
+ * becomes an STL (or 3MF) with the settings of a preset.
+ *
+ *   npm run build:cli
+ *   node dist-cli/lithophane.js <input-folder> <output-folder> [options]
+ */
+import { readdir, readFile, writeFile, mkdir } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import process from 'node:process';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { lithophanePipeline } from '../apps/app3d/core/lithophanePipeline';
+import type { OutputFormat } from '../apps/app3d/core/lithophanePipeline';
+import { pngDecoder } from '../apps/app3d/core/png';
+import { depthMapLoader } from '../apps/app3d/core/depthMap';
+import type { RgbaImage } from '../apps/app3d/core/imageProcessor';
+import { presetManager, BUILT_IN_PRESETS } from '../apps/app3d/core/presets';
+import type { SettingsPreset } from '../apps/app3d/types';
+import { defaultImageSettings, defaultModelSettings, defaultGCodeSettings } from '../apps/app3d/store/defaults';
+
+const USAGE = `Usage: lithophane <input-folder> <output-folder> [options]
+
+Options:
+  --preset <file|name>   Preset JSON exported from the app, or a built-in preset name
+  --name <preset name>   Which preset of the file to use (default: the first)
+  --format stl|3mf       Output format (default: stl)
+  --resolution <px>      Override the preset's working resolution
+  --depth                Inputs are depth maps (16-bit PNG or PFM), not photos
+
+Inputs are PNG or JPEG photos, or PNG/PFM depth maps with --depth; other
+files in the folder are listed as skipped. Multi-part models (colour layers,
+tiles, lamp boxes) are written as a ZIP of STLs. Caption text needs a browser
+canvas, so presets with a caption are rejected; clear it in the app first.`;
+
+const PHOTO_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+const DEPTH_EXTENSIONS = ['.png', '.pfm'];
+
+interface CliOptions {
+    input: string;
+    output: string;
+    preset?: string;
+    name?: string;
+    format: OutputFormat;
+    resolution?: number;
+    depth: boolean;
+}
+
+const parseArgs = (args: string[]): CliOptions => {
+    const positional: string[] = [];
+    const options: Partial<CliOptions> = { format: 'stl', depth: false };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            const next = args[++i];
+            if (next === undefined) throw new Error(`${arg} needs a value`);
+            return next;
+        };
+
+        switch (arg) {
+            case '--preset': options.preset = value(); break;
+            case '--name': options.name = value(); break;
+            case '--format': {
+                const format = value();
+                if (format !== 'stl' && format !== '3mf') throw new Error(`Unknown format "${format}"`);
+                options.format = format;
+                break;
+            }
+            case '--resolution': options.resolution = parseInt(value()); break;
+            case '--depth': options.depth = true; break;
+            case '-h':
+            case '--help':
+                console.log(USAGE);
+                process.exit(0);
+                break;
+            default:
+                if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+                positional.push(arg);
+        }
+    }
+
+    if (positional.length !== 2) throw new Error('Expected an input and an output folder');
+    return { ...options, input: positional[0], output: positional[1] } as CliOptions;
+};
+
+/**
+ * The preset named on the command line: a built-in one, or one from a
+ * preset file. Defaults when none is given.
+ */
+const loadPreset = async (options: CliOptions): Promise<SettingsPreset> => {
+    if (!options.preset) {
+        return {
+            id: 'defaults', name: 'Defaults', description: '', builtIn: true,
+            imageSettings: defaultImageSettings, modelSettings: defaultModelSettings, gcodeSettings: defaultGCodeSettings,
+        };
+    }
+
+    const builtIn = BUILT_IN_PRESETS.find(p => p.name === options.preset || p.id === `builtin:${options.preset}`);
+    if (builtIn) return builtIn;
+
+    const presets = presetManager.parsePresets(await readFile(options.preset, 'utf8'));
+    const preset = options.name ? presets.find(p => p.name === options.name) : presets[0];
+    if (!preset) throw new Error(options.name ? `No preset "${options.name}" in ${options.preset}` : `${options.preset} has no presets`);
+    return preset;
+};
+
+/**
+ * PNG pixels as 8-bit RGBA.
+ */
+const readPng = async (bytes: Uint8Array): Promise<RgbaImage> => {
+    const { width, height, maxSample, data } = await pngDecoder.decode(bytes);
+    const rgba = new Uint8ClampedArray(data.length);
+    for (let i = 0; i < data.length; i++) rgba[i] = (data[i] * 255) / maxSample;
+    return { width, height, data: rgba };
+};
+
+/**
+ * JPEG pixels as 8-bit RGBA. EXIF orientation is not applied.
+ */
+const readJpeg = (bytes: Uint8Array): RgbaImage => {
+    const { width, height, data } = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+    return { width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+};
+
+// Decoded by content, so a mislabelled file still works
+const readPhoto = (bytes: Uint8Array): Promise<RgbaImage> | RgbaImage => {
+    if (pngDecoder.isPng(bytes)) return readPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes);
+    throw new Error('Not a PNG or JPEG image');
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    const preset = await loadPreset(options);
+    const modelSettings = options.resolution ? { ...preset.modelSettings, resolution: options.resolution } : preset.modelSettings;
+    // Checked once here rather than failing every file
+    if (modelSettings.text.trim() !== '') {
+        throw new Error(`Preset "${preset.name}" has caption text ("${modelSettings.text}"), which the CLI cannot engrave; remove the caption and export the preset again`);
+    }
+
+    const accepted = options.depth ? DEPTH_EXTENSIONS : PHOTO_EXTENSIONS;
+    const entries = (await readdir(options.input, { withFileTypes: true }))
+        .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+        .map(entry => entry.name)
+        .sort();
+    const files = entries.filter(file => accepted.includes(extname(file).toLowerCase()));
+    for (const file of entries.filter(file => !files.includes(file))) {
+        console.warn(`Skipping ${file}: not a ${accepted.join('/')} file${options.depth ? '' : ' (convert it to PNG or JPEG first)'}`);
+    }
+    if (files.length === 0) throw new Error(`No ${accepted.join('/')} files in ${options.input}`);
+
+    await mkdir(options.output, { recursive: true });
+    console.log(`${files.length} file(s), preset "${preset.name}", ${options.format.toUpperCase()}`);
+
+    let failed = 0;
+    for (const [i, file] of files.entries()) {
+        const started = Date.now();
+        const name = basename(file, extname(file));
+        try {
+            const bytes = new Uint8Array(await readFile(join(options.input, file)));
+            let source: RgbaImage;
+            let depth = null;
+
+            if (options.depth) {
+                // The depth map drives the heights; a grey rendering stands in for the photo
+                depth = await depthMapLoader.decode(new Blob([bytes]));
+                const grey = new Uint8ClampedArray(depth.width * depth.height * 4);
+                for (let p = 0; p < depth.data.length; p++) {
+                    grey.fill(Math.round(depth.data[p] * 255), p * 4, p * 4 + 3);
+                    grey[p * 4 + 3] = 255;
+                }
+                source = { width: depth.width, height: depth.height, data: grey };
+            } else {
+                source = await readPhoto(bytes);
+            }
+
+            const output = await lithophanePipeline.run(source, preset.imageSettings, modelSettings, options.format, name, { depth });
+            await writeFile(join(options.output, output.name), output.data);
+            console.log(`[${i + 1}/${files.length}] ${file} -> ${output.name} (${((Date.now() - started) / 1000).toFixed(1)} s)`);
+        } catch (err) {
+            failed++;
+            console.error(`[${i + 1}/${files.length}] ${file} failed: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+
+    if (failed > 0) {
+        console.error(`${failed} of ${files.length} file(s) failed`);
+        process.exitCode = 1;
+    }
+};
+
+main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    console.error(USAGE);
+    process.exitCode = 1;
+});
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+import type { HistoryControls } from './useHistory';
+
+interface HistoryListProps {
+    history: HistoryControls;
+    maxHeight?: number; // px
+}
+
+/**
+ * Undo/redo buttons over the list of steps; clicking a step jumps to it.
+ * Undone steps stay listed (dimmed) until a new change replaces them.
+ */
+export const HistoryList = ({ history, maxHeight = 160 }: HistoryListProps) => {
+    const { entries, index, canUndo, canRedo } = history;
+    const currentRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [index, entries.length]);
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <button
+                    className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    disabled={!canUndo}
+                    onClick={history.undo}
+                    title="Undo (Ctrl+Z)"
+                >
+                    <Undo2 className="w-3.5 h-3.5" /> Undo
+                </button>
+                <button
+                    className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    disabled={!canRedo}
+                    onClick={history.redo}
+                    title="Redo (Ctrl+Shift+Z)"
+                >
+                    <Redo2 className="w-3.5 h-3.5" /> Redo
+                </button>
+            </div>
+
+            <ol className="overflow-y-auto rounded-lg border border-slate-700 bg-slate-900/50 text-xs" style={{ maxHeight }}>
+                {entries.map((entry, i) => (
+                    <li key={i}>
+                        <button
+                            ref={i === index ? currentRef : undefined}
+                            onClick={() => history.jumpTo(i)}
+                            className={`w-full flex justify-between gap-2 px-2 py-1 text-left transition-colors hover:bg-slate-700/60 ${
+                                i === index ? 'bg-sky-500/20 text-white' : i > index ? 'text-slate-500 italic' : 'text-slate-300'
+                            }`}
+                        >
+                            <span className="truncate">{entry.label}</span>
+                            {entry.time > 0 && (
+                                <span className="shrink-0 text-slate-500">
+                                    {new Date(entry.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                                </span>
+                            )}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
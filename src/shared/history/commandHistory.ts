@@ -0,0 +1,113 @@
+/**
+ * Undo/redo over snapshots of an object state. Pure: every operation
+ * returns a new history, so it can back a React reducer.
+ */
+
+export interface HistoryStep<T> {
+    label: string; // Changed fields, e.g. "depth" or "brightness, contrast"
+    state: T;
+    key: string; // Steps with the same key in quick succession are merged
+    time: number; // ms
+}
+
+export interface HistoryState<T> {
+    steps: HistoryStep<T>[]; // steps[0] is the initial state
+    index: number; // Current step
+    present: T; // Current state, including fields history ignores
+    mergeable: boolean; // Whether the next change may merge into the current step
+}
+
+export interface HistoryOptions<T> {
+    ignore?: (keyof T)[]; // Transient fields: not recorded, kept as is on undo/redo
+    limit?: number; // Max steps kept (default 100)
+    coalesceMs?: number; // Merge window for repeated changes of the same fields (default 1000)
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_COALESCE_MS = 1000;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Dotted paths of the fields that differ; one level into nested settings
+ * objects (e.g. "modelSettings.depth").
+ */
+export const changedPaths = (prev: object, next: object, skip: PropertyKey[] = []): string[] => {
+    const paths: string[] = [];
+    const a = prev as Record<string, unknown>;
+    const b = next as Record<string, unknown>;
+
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        if (skip.includes(key) || Object.is(a[key], b[key])) continue;
+
+        if (isPlainObject(a[key]) && isPlainObject(b[key])) {
+            const inner = changedPaths(a[key] as object, b[key] as object);
+            paths.push(...(inner.length > 0 ? inner.map(p => `${key}.${p}`) : [key]));
+        } else {
+            paths.push(key);
+        }
+    }
+    return paths;
+};
+
+export const createHistory = <T extends object>(initial: T): HistoryState<T> => ({
+    steps: [{ label: 'Initial state', state: initial, key: '', time: 0 }],
+    index: 0,
+    present: initial,
+    mergeable: false,
+});
+
+/**
+ * Records `next` as the new present. Changes to ignored fields only are not
+ * a step; a change to the same fields as the current step within the
+ * coalescing window replaces that step (one slider drag = one step).
+ * `label` overrides the generated one (e.g. "Apply preset").
+ */
+export const recordChange = <T extends object>(
+    history: HistoryState<T>,
+    next: T,
+    time: number,
+    options: HistoryOptions<T> = {},
+    label?: string
+): HistoryState<T> => {
+    if (next === history.present) return history;
+
+    const ignore = (options.ignore ?? []) as PropertyKey[];
+    const paths = changedPaths(history.steps[history.index].state, next, ignore);
+    if (paths.length === 0) return { ...history, present: next };
+
+    const key = label ?? paths.join(',');
+    const current = history.steps[history.index];
+    const coalesce = history.mergeable
+        && current.key === key
+        && time - current.time <= (options.coalesceMs ?? DEFAULT_COALESCE_MS);
+
+    // Anything after the current step (undone changes) is dropped
+    const kept = history.steps.slice(0, coalesce ? history.index : history.index + 1);
+    kept.push({ label: label ?? paths.map(p => p.slice(p.lastIndexOf('.') + 1)).join(', '), state: next, key, time });
+
+    const limit = Math.max(2, options.limit ?? DEFAULT_LIMIT);
+    const steps = kept.length > limit ? kept.slice(kept.length - limit) : kept;
+
+    return { steps, index: steps.length - 1, present: next, mergeable: true };
+};
+
+/**
+ * Moves to step `index`, keeping the present values of ignored fields.
+ */
+export const jumpTo = <T extends object>(history: HistoryState<T>, index: number, options: HistoryOptions<T> = {}): HistoryState<T> => {
+    if (index < 0 || index >= history.steps.length || index === history.index) return history;
+
+    const present = { ...history.steps[index].state };
+    for (const key of options.ignore ?? []) present[key] = history.present[key];
+
+    // A later change must not merge into the step we jumped to
+    return { steps: history.steps, index, present, mergeable: false };
+};
+
+export const undo = <T extends object>(history: HistoryState<T>, options?: HistoryOptions<T>) =>
+    jumpTo(history, history.index - 1, options);
+
+export const redo = <T extends object>(history: HistoryState<T>, options?: HistoryOptions<T>) =>
+    jumpTo(history, history.index + 1, options);
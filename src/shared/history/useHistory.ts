@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import type { SetStateAction } from 'react';
+import { createHistory, recordChange, jumpTo, undo, redo } from './commandHistory';
+import type { HistoryState, HistoryOptions } from './commandHistory';
+
+type HistoryAction<T> =
+    | { type: 'set'; update: SetStateAction<T>; time: number; label?: string }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'jump'; index: number }
+    | { type: 'reset'; state: T };
+
+export interface HistoryEntry {
+    label: string;
+    time: number;
+}
+
+/**
+ * What history controls (shortcuts, HistoryList) need from a useHistory.
+ */
+export interface HistoryControls {
+    entries: HistoryEntry[];
+    index: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    undo: () => void;
+    redo: () => void;
+    jumpTo: (index: number) => void;
+}
+
+export interface History<T> extends HistoryControls {
+    state: T;
+    setState: (update: SetStateAction<T>, label?: string) => void; // label names the step (default: changed fields)
+    reset: (state: T) => void; // Replace the state and forget all steps
+}
+
+/**
+ * useState with undo/redo. Every setState that changes a recorded field is
+ * a step; repeated changes of the same fields (slider drags) merge into one.
+ */
+export const useHistory = <T extends object>(initial: T | (() => T), options: HistoryOptions<T> = {}): History<T> => {
+    // Options are read at dispatch time, so callers may pass a fresh object each render
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const [history, dispatch] = useReducer(
+        (current: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+            const opts = optionsRef.current;
+            switch (action.type) {
+                case 'set': {
+                    const next = typeof action.update === 'function'
+                        ? (action.update as (prev: T) => T)(current.present)
+                        : action.update;
+                    return recordChange(current, next, action.time, opts, action.label);
+                }
+                case 'undo': return undo(current, opts);
+                case 'redo': return redo(current, opts);
+                case 'jump': return jumpTo(current, action.index, opts);
+                case 'reset': return createHistory(action.state);
+            }
+        },
+        initial,
+        (init) => createHistory(typeof init === 'function' ? (init as () => T)() : init)
+    );
+
+    const setState = useCallback(
+        (update: SetStateAction<T>, label?: string) => dispatch({ type: 'set', update, time: Date.now(), label }),
+        []
+    );
+
+    return {
+        state: history.present,
+        setState,
+        reset: useCallback((state: T) => dispatch({ type: 'reset', state }), []),
+        undo: useCallback(() => dispatch({ type: 'undo' }), []),
+        redo: useCallback(() => dispatch({ type: 'redo' }), []),
+        jumpTo: useCallback((index: number) => dispatch({ type: 'jump', index }), []),
+        entries: history.steps.map(({ label, time }) => ({ label, time })),
+        index: history.index,
+        canUndo: history.index > 0,
+        canRedo: history.index < history.steps.length - 1,
+    };
+};
+
+const isTextField = (target: EventTarget | null) => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+    // Range/checkbox inputs have no undo of their own
+    return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'color', 'file'].includes(target.type);
+};
+
+/**
+ * Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo. Text fields keep
+ * their native undo.
+ */
+export const useUndoShortcuts = ({ undo, redo }: Pick<HistoryControls, 'undo' | 'redo'>) => {
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)) {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [undo, redo]);
+};